@@ -1,56 +1,79 @@
 import './App.css'
-import { useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { AnalysisTab } from './tabs/AnalysisTab'
 import { LayoutTab } from './tabs/LayoutTab'
 import { GuidedTutorial, type TutorialStep } from './GuidedTutorial'
-import { emptyLayout96, type WellAssignment } from './lib/layoutModel'
-import { plate96WellIds, type WellId96 } from './lib/plate96'
+import { DEFAULT_ASSAY_DIRECTION, type AssayDirection } from './lib/assayDirection'
+import { DEFAULT_CURVE_CONSTRAINTS, type CurveConstraintSettings } from './lib/curveConstraints'
+import { type CurveModel } from './lib/curveModels'
+import { DEFAULT_CURVE_WEIGHTING, type CurveWeighting } from './lib/curveWeights'
+import type { DilutionSelectionMode } from './lib/dilutionSelection'
+import { DEFAULT_TITER_SETTINGS, type TiterSettings } from './lib/endpointTiter'
+import { DEFAULT_WAVELENGTHS, type ReaderParserId, type WavelengthConfig } from './lib/elisaReader'
+import { emptyLayout, newRunPlate, type PlateLayout, type RunPlate } from './lib/layoutModel'
+import type { ParallelismCriteria } from './lib/parallelism'
+import { createPlateFormat, type PlateFormat, type PlateGeometry } from './lib/plateFormat'
+import { DEFAULT_QUALITATIVE_SETTINGS, type QualitativeSettings } from './lib/qualitative'
+import type { OutOfRangeSubstitute, QuantCriteria } from './lib/quantLimits'
+import { DEFAULT_QUANT_MODE, type QuantMode } from './lib/quantMode'
+import { DEFAULT_TEMPERATURE_RANGE, type ReaderMetadata, type TemperatureRange } from './lib/readerMetadata'
+import type { ModelSelection } from './lib/modelSelection'
+import { hydrateRun, type ActiveTab, type PersistedStateV1 } from './lib/runState'
 import { readLocalJson, writeLocalJson } from './lib/storage'
-
-type ActiveTab = 'layout' | 'analysis'
-
-type PersistedStateV1 = {
-  v: 1
-  tab: ActiveTab
-  sampleText: string
-  sampleHasHeader: boolean
-  animalIdCol: number
-  groupCol: number
-  dilutionCol?: number
-  wells: Record<string, WellAssignment>
-  readerText: string
-}
+import { AUTO_TEXT_FORMAT, type TextFormatOptions } from './lib/tableText'
 
 const STORAGE_KEY = 'easylab:elisa-analysis:v1'
 
-const hydrateWells = (raw: Record<string, WellAssignment> | null | undefined): Record<WellId96, WellAssignment> => {
-  const base = emptyLayout96()
-  if (!raw) return base
-  for (const wellId of plate96WellIds) {
-    const maybe = raw[wellId]
-    if (!maybe) continue
-    base[wellId] = {
-      ...base[wellId],
-      ...maybe,
-      wellId,
-      keep: typeof maybe.keep === 'boolean' ? maybe.keep : true,
-      type: maybe.type ?? base[wellId].type,
-    }
-  }
-  return base
-}
-
 function App() {
   const persisted = useMemo(() => readLocalJson<PersistedStateV1>(STORAGE_KEY), [])
+  const hydrated = useMemo(() => hydrateRun(persisted), [persisted])
 
   const [tab, setTab] = useState<ActiveTab>(persisted?.tab ?? 'layout')
+  const [plateFormat, setPlateFormat] = useState<PlateFormat>(hydrated.format)
   const [sampleText, setSampleText] = useState<string>(persisted?.sampleText ?? '')
   const [sampleHasHeader, setSampleHasHeader] = useState<boolean>(persisted?.sampleHasHeader ?? false)
   const [animalIdCol, setAnimalIdCol] = useState<number>(persisted?.animalIdCol ?? 0)
   const [groupCol, setGroupCol] = useState<number>(persisted?.groupCol ?? -1)
   const [dilutionCol, setDilutionCol] = useState<number>(persisted?.dilutionCol ?? -1)
-  const [wells, setWells] = useState<Record<WellId96, WellAssignment>>(() => hydrateWells(persisted?.wells))
+  const [sampleTextFormat, setSampleTextFormat] = useState<TextFormatOptions>(persisted?.sampleTextFormat ?? AUTO_TEXT_FORMAT)
+  const [plates, setPlates] = useState<RunPlate[]>(hydrated.plates)
+  const [activePlate, setActivePlate] = useState<number>(() =>
+    Math.min(Math.max(0, persisted?.activePlate ?? 0), hydrated.plates.length - 1)
+  )
   const [readerText, setReaderText] = useState<string>(persisted?.readerText ?? '')
+  const [readerParser, setReaderParser] = useState<ReaderParserId | 'auto'>(hydrated.readerParser)
+  const [readerTextFormat, setReaderTextFormat] = useState<TextFormatOptions>(hydrated.readerTextFormat)
+  const [wavelengths, setWavelengths] = useState<WavelengthConfig>(persisted?.wavelengths ?? DEFAULT_WAVELENGTHS)
+  const [temperatureRange, setTemperatureRange] = useState<TemperatureRange>(
+    persisted?.temperatureRange ?? DEFAULT_TEMPERATURE_RANGE
+  )
+  const [curveWeighting, setCurveWeighting] = useState<CurveWeighting>(
+    persisted?.curveWeighting ?? DEFAULT_CURVE_WEIGHTING
+  )
+  const [assayDirection, setAssayDirection] = useState<AssayDirection>(
+    persisted?.assayDirection ?? DEFAULT_ASSAY_DIRECTION
+  )
+  const [curveConstraints, setCurveConstraints] = useState<CurveConstraintSettings>({
+    ...DEFAULT_CURVE_CONSTRAINTS,
+    ...persisted?.curveConstraints,
+  })
+  const [curveModel, setCurveModel] = useState<CurveModel>(persisted?.curveModel ?? '4pl')
+  const [curveDegree, setCurveDegree] = useState<2 | 3>(persisted?.curveDegree ?? 2)
+  const [modelSelection, setModelSelection] = useState<ModelSelection | null>(persisted?.modelSelection ?? null)
+  const [quantMode, setQuantMode] = useState<QuantMode>(persisted?.quantMode ?? DEFAULT_QUANT_MODE)
+  const [titerSettings, setTiterSettings] = useState<TiterSettings>({
+    ...DEFAULT_TITER_SETTINGS,
+    ...persisted?.titerSettings,
+  })
+  const [qualitativeSettings, setQualitativeSettings] = useState<QualitativeSettings>({
+    ...DEFAULT_QUALITATIVE_SETTINGS,
+    ...persisted?.qualitativeSettings,
+  })
+  const [quantCriteria, setQuantCriteria] = useState<QuantCriteria>(hydrated.quantCriteria)
+  const [outOfRangeSubstitute, setOutOfRangeSubstitute] = useState<OutOfRangeSubstitute>(hydrated.outOfRangeSubstitute)
+  const [useAcceptanceInAutoQc, setUseAcceptanceInAutoQc] = useState<boolean>(hydrated.useAcceptanceInAutoQc)
+  const [parallelismCriteria, setParallelismCriteria] = useState<ParallelismCriteria>(hydrated.parallelismCriteria)
+  const [dilutionSelection, setDilutionSelection] = useState<DilutionSelectionMode>(hydrated.dilutionSelection)
 
   const tutorialSteps: TutorialStep[] = useMemo(
     () => [
@@ -135,9 +158,9 @@ function App() {
       {
         selector: '[data-testid="reader-textarea"]',
         title: 'Paste reader output',
-        description: 'Paste raw 450/570 output from your plate reader.',
+        description: 'Paste raw output from your plate reader.',
         details: [
-          'App computes net absorbance (450 - 570).',
+          'App computes net absorbance (primary - reference wavelength, e.g. 450 - 570).',
         ],
       },
       {
@@ -197,30 +220,124 @@ function App() {
     []
   )
 
+  const currentPlate = plates[activePlate] ?? plates[0]
+  const wells = currentPlate.wells
+  const updateCurrentPlate = (patch: Partial<RunPlate>) =>
+    setPlates((prev) => prev.map((p, idx) => (idx === activePlate ? { ...p, ...patch } : p)))
+  const setWells = (next: PlateLayout) => updateCurrentPlate({ wells: next })
+  // Stable across renders: AnalysisTab calls it from an effect whenever the parsed metadata changes.
+  const setReaderMetadata = useCallback(
+    (next: ReaderMetadata | null) =>
+      setPlates((prev) => {
+        const plate = prev[activePlate]
+        if (!plate || JSON.stringify(next) === JSON.stringify(plate.readerMetadata)) return prev
+        return prev.map((p, idx) => (idx === activePlate ? { ...p, readerMetadata: next } : p))
+      }),
+    [activePlate]
+  )
+
   // Keep persisted state in sync.
   useEffect(() => {
     const next: PersistedStateV1 = {
       v: 1,
       tab,
+      plate: plateFormat.geometry,
       sampleText,
       sampleHasHeader,
       animalIdCol,
       groupCol,
       dilutionCol,
-      wells,
+      sampleTextFormat,
+      plates,
+      activePlate,
       readerText,
+      readerParser,
+      readerTextFormat,
+      wavelengths,
+      temperatureRange,
+      curveWeighting,
+      assayDirection,
+      curveConstraints,
+      curveModel,
+      curveDegree,
+      modelSelection,
+      quantMode,
+      titerSettings,
+      qualitativeSettings,
+      quantCriteria,
+      outOfRangeSubstitute,
+      useAcceptanceInAutoQc,
+      parallelismCriteria,
+      dilutionSelection,
     }
     writeLocalJson(STORAGE_KEY, next)
-  }, [tab, sampleText, sampleHasHeader, animalIdCol, groupCol, dilutionCol, wells, readerText])
+  }, [
+    tab,
+    plateFormat,
+    sampleText,
+    sampleHasHeader,
+    animalIdCol,
+    groupCol,
+    dilutionCol,
+    sampleTextFormat,
+    plates,
+    activePlate,
+    readerText,
+    readerParser,
+    readerTextFormat,
+    wavelengths,
+    temperatureRange,
+    curveWeighting,
+    assayDirection,
+    curveConstraints,
+    curveModel,
+    curveDegree,
+    modelSelection,
+    quantMode,
+    titerSettings,
+    qualitativeSettings,
+    quantCriteria,
+    outOfRangeSubstitute,
+    useAcceptanceInAutoQc,
+    parallelismCriteria,
+    dilutionSelection,
+  ])
+
+  const changePlateFormat = (geometry: PlateGeometry) => {
+    const next = createPlateFormat(geometry)
+    if (next.id === plateFormat.id) return
+    const hasAssignments = plates.some((p) => Object.values(p.wells).some((w) => w.type !== 'Empty'))
+    if (hasAssignments && !confirm('Changing the plate format clears every plate layout in this run. Continue?')) return
+    setPlateFormat(next)
+    setPlates((prev) => prev.map((p) => ({ ...p, wells: emptyLayout(next) })))
+  }
+
+  const addPlate = () => {
+    setPlates((prev) => [...prev, newRunPlate(plateFormat, prev.length)])
+    setActivePlate(plates.length)
+  }
+
+  const removePlate = () => {
+    if (plates.length < 2) return
+    const hasAssignments = Object.values(wells).some((w) => w.type !== 'Empty')
+    if (hasAssignments && !confirm(`Remove ${currentPlate.name} and its layout?`)) return
+    setPlates((prev) => prev.filter((_, idx) => idx !== activePlate))
+    setActivePlate(Math.max(0, activePlate - 1))
+  }
 
   return (
     <div className="page">
       <div className="hero" data-testid="app-hero">
         <div className="hero-text">
-          <div className="tag">96-well · Dual-wavelength (450/570)</div>
+          <div className="tag">
+            {plateFormat.label} ·{' '}
+            {wavelengths.reference === null
+              ? `Single wavelength (${wavelengths.primary})`
+              : `Dual-wavelength (${wavelengths.primary}/${wavelengths.reference})`}
+          </div>
           <h1>ELISA plate layout + analysis</h1>
           <p className="lede">
-            Build a 96-well layout from your sample sheet (Animal ID visible on wells), manually assign standards/blanks and
+            Build a plate layout (6 to 384 wells) from your sample sheet (Animal ID visible on wells), manually assign standards/blanks and
             dilutions, then paste reader output to compute net absorbance and flag outliers.
           </p>
           <div className="pill-row">
@@ -257,10 +374,55 @@ function App() {
             onStart={() => setTab('layout')}
           />
         </div>
+
+        <div className="controls" data-testid="plate-bar">
+          <label className="control">
+            <span>Plate ({plates.length} in run)</span>
+            <select
+              value={activePlate}
+              onChange={(e) => setActivePlate(Number(e.target.value))}
+              data-testid="active-plate-select"
+            >
+              {plates.map((p, idx) => (
+                <option key={idx} value={idx}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="control">
+            <span>Plate name</span>
+            <input
+              value={currentPlate.name}
+              onChange={(e) => updateCurrentPlate({ name: e.target.value })}
+              data-testid="plate-name-input"
+            />
+          </label>
+          <div className="control">
+            <span>Multi-plate run</span>
+            <div className="button-row">
+              <button className="ghost" type="button" onClick={addPlate} data-testid="add-plate-btn">
+                Add plate
+              </button>
+              <button
+                className="ghost"
+                type="button"
+                onClick={removePlate}
+                disabled={plates.length < 2}
+                data-testid="remove-plate-btn"
+              >
+                Remove plate
+              </button>
+            </div>
+          </div>
+        </div>
       </div>
 
       {tab === 'layout' ? (
         <LayoutTab
+          key={`${plateFormat.id}-${activePlate}`}
+          format={plateFormat}
+          onChangePlateFormat={changePlateFormat}
           sampleText={sampleText}
           onChangeSampleText={setSampleText}
           sampleHasHeader={sampleHasHeader}
@@ -271,11 +433,60 @@ function App() {
           onChangeGroupCol={setGroupCol}
           dilutionCol={dilutionCol}
           onChangeDilutionCol={setDilutionCol}
+          sampleTextFormat={sampleTextFormat}
+          onChangeSampleTextFormat={setSampleTextFormat}
           wells={wells}
           onChangeWells={setWells}
         />
       ) : (
-        <AnalysisTab readerText={readerText} onChangeReaderText={setReaderText} wells={wells} onChangeWells={setWells} />
+        <AnalysisTab
+          key={activePlate}
+          format={plateFormat}
+          readerText={readerText}
+          onChangeReaderText={setReaderText}
+          readerParser={readerParser}
+          onChangeReaderParser={setReaderParser}
+          readerTextFormat={readerTextFormat}
+          onChangeReaderTextFormat={setReaderTextFormat}
+          wavelengths={wavelengths}
+          onChangeWavelengths={setWavelengths}
+          plateName={currentPlate.name}
+          readerBlock={currentPlate.readerBlock ?? activePlate}
+          onChangeReaderBlock={(next) => updateCurrentPlate({ readerBlock: next })}
+          onChangeReaderMetadata={setReaderMetadata}
+          temperatureRange={temperatureRange}
+          onChangeTemperatureRange={setTemperatureRange}
+          curveWeighting={curveWeighting}
+          onChangeCurveWeighting={setCurveWeighting}
+          assayDirection={assayDirection}
+          onChangeAssayDirection={setAssayDirection}
+          curveConstraints={curveConstraints}
+          onChangeCurveConstraints={setCurveConstraints}
+          curveModel={curveModel}
+          onChangeCurveModel={setCurveModel}
+          curveDegree={curveDegree}
+          onChangeCurveDegree={setCurveDegree}
+          modelSelection={modelSelection}
+          onChangeModelSelection={setModelSelection}
+          quantMode={quantMode}
+          onChangeQuantMode={setQuantMode}
+          titerSettings={titerSettings}
+          onChangeTiterSettings={setTiterSettings}
+          qualitativeSettings={qualitativeSettings}
+          onChangeQualitativeSettings={setQualitativeSettings}
+          quantCriteria={quantCriteria}
+          onChangeQuantCriteria={setQuantCriteria}
+          outOfRangeSubstitute={outOfRangeSubstitute}
+          onChangeOutOfRangeSubstitute={setOutOfRangeSubstitute}
+          useAcceptanceInAutoQc={useAcceptanceInAutoQc}
+          onChangeUseAcceptanceInAutoQc={setUseAcceptanceInAutoQc}
+          parallelismCriteria={parallelismCriteria}
+          onChangeParallelismCriteria={setParallelismCriteria}
+          dilutionSelection={dilutionSelection}
+          onChangeDilutionSelection={setDilutionSelection}
+          wells={wells}
+          onChangeWells={setWells}
+        />
       )}
     </div>
   )
@@ -1,22 +1,18 @@
-import { evalPoly } from '../lib/polynomial'
-import { eval4pl, type FourPLParams } from '../lib/logistic4pl'
+import { evalCurve, type FittedCurve } from '../lib/curveModels'
 
 type Point = { x: number; y: number }
 
-type CurveModel =
-  | { kind: 'poly'; coeff: number[] }
-  | { kind: '4pl'; params: FourPLParams }
-
 type Props = {
   points: Point[]
-  model: CurveModel | null
+  model: FittedCurve | null
   title?: string
   xScale?: 'linear' | 'log10'
+  yLabel?: string
 }
 
 const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v))
 
-export function CurvePlot({ points, model, title, xScale = 'linear' }: Props) {
+export function CurvePlot({ points, model, title, xScale = 'linear', yLabel = 'Absorbance' }: Props) {
   const width = 520
   const height = 320
   const pad = 44
@@ -55,7 +51,7 @@ export function CurvePlot({ points, model, title, xScale = 'linear' }: Props) {
     for (let i = 0; i <= steps; i += 1) {
       const xT = x0T + (i / steps) * (x1T - x0T)
       const x = xScale === 'log10' ? 10 ** xT : xT
-      const y = model.kind === 'poly' ? evalPoly(model.coeff, x) : eval4pl(model.params, x)
+      const y = evalCurve(model, x)
       const px = xToPxFromXT(xT)
       const py = yScale(y)
       pts.push(`${i === 0 ? 'M' : 'L'} ${px.toFixed(2)} ${py.toFixed(2)}`)
@@ -189,7 +185,7 @@ export function CurvePlot({ points, model, title, xScale = 'linear' }: Props) {
         fill="#2F2F36"
         transform={`rotate(-90 14 ${height / 2})`}
       >
-        Absorbance
+        {yLabel}
       </text>
     </svg>
   )
@@ -0,0 +1,94 @@
+import { FOUR_PL_PARAM_NAMES, type FourPLFit, type FourPLParamName } from '../lib/logistic4pl'
+
+type Props = {
+  fit: FourPLFit
+}
+
+const PARAM_LABELS: Record<FourPLParamName, string> = {
+  A: 'A (response at zero)',
+  B: 'B (Hill slope)',
+  C: 'C (log10 EC50)',
+  D: 'D (response at infinity)',
+}
+
+const num = (n: number) => (Number.isFinite(n) ? n.toPrecision(4) : 'NA')
+
+// Asymptotic SEs, 95% CIs and the covariance matrix of a 4PL fit.
+export function FitStatsTable({ fit }: Props) {
+  const { stats } = fit
+  if (!stats) {
+    return (
+      <div className="muted-small" data-testid="fit-stats">
+        Parameter standard errors need more standard levels than estimated parameters ({5 - fit.fixed.length} for this 4PL).
+      </div>
+    )
+  }
+
+  return (
+    <div data-testid="fit-stats">
+      <h3>Fit statistics</h3>
+      <div className="table-scroll">
+        <table className="data">
+          <thead>
+            <tr>
+              <th>Parameter</th>
+              <th className="num">Estimate</th>
+              <th className="num">SE</th>
+              <th className="num">95% CI</th>
+            </tr>
+          </thead>
+          <tbody>
+            {FOUR_PL_PARAM_NAMES.map((name) => (
+              <tr key={name}>
+                <td>{PARAM_LABELS[name]}</td>
+                <td className="num">{num(fit.params[name])}</td>
+                {fit.fixed.includes(name) ? (
+                  <>
+                    <td className="num">fixed</td>
+                    <td className="num" />
+                  </>
+                ) : (
+                  <>
+                    <td className="num">{num(stats.se[name])}</td>
+                    <td className="num">
+                      {num(stats.ci95[name][0])} – {num(stats.ci95[name][1])}
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="muted-small" style={{ marginTop: 6 }}>
+        Residual df: {stats.df} · Residual SE: {num(stats.sigma)} · N: {fit.n}
+      </div>
+      <div className="table-scroll" style={{ marginTop: 8 }}>
+        <table className="data">
+          <thead>
+            <tr>
+              <th>Covariance</th>
+              {FOUR_PL_PARAM_NAMES.map((name) => (
+                <th key={name} className="num">
+                  {name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {FOUR_PL_PARAM_NAMES.map((row, i) => (
+              <tr key={row}>
+                <td>{row}</td>
+                {stats.cov[i].map((v, j) => (
+                  <td key={j} className="num">
+                    {num(v)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
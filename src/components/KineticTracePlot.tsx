@@ -0,0 +1,144 @@
+import type { KineticRate, KineticWindow } from '../lib/kinetic'
+
+type Props = {
+  timesSec: number[]
+  values: (number | null)[]
+  window: KineticWindow
+  rate: KineticRate | null
+  title?: string
+}
+
+export function KineticTracePlot({ timesSec, values, window, rate, title }: Props) {
+  const width = 520
+  const height = 240
+  const pad = 44
+
+  const points = timesSec
+    .map((t, idx) => ({ x: t / 60, y: values[idx] ?? null }))
+    .filter((p): p is { x: number; y: number } => p.y !== null && Number.isFinite(p.y))
+
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y)
+  const xMin = xs.length ? Math.min(...xs) : 0
+  const xMax = xs.length ? Math.max(...xs) : 1
+  const yMin = ys.length ? Math.min(...ys) : 0
+  const yMax = ys.length ? Math.max(...ys) : 1
+  const xSpan = xMax - xMin || 1
+  const ySpan = yMax - yMin || 1
+
+  const x0 = xMin - xSpan * 0.05
+  const x1 = xMax + xSpan * 0.05
+  const y0 = yMin - ySpan * 0.12
+  const y1 = yMax + ySpan * 0.12
+
+  const xScale = (x: number) => pad + ((x - x0) / (x1 - x0)) * (width - pad * 2)
+  const yScale = (y: number) => height - pad - ((y - y0) / (y1 - y0)) * (height - pad * 2)
+
+  const winStart = Math.max(x0, window.startSec / 60)
+  const winEnd = Math.min(x1, window.endSec / 60)
+  const inWindow = (x: number) => x * 60 >= window.startSec && x * 60 <= window.endSec
+
+  const ticks = (min: number, max: number, n: number) => Array.from({ length: n + 1 }, (_, i) => min + (i / n) * (max - min))
+  const xTicks = ticks(x0, x1, 4)
+  const yTicks = ticks(y0, y1, 4)
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width="100%"
+      height="auto"
+      role="img"
+      aria-label={title ?? 'Kinetic trace plot'}
+      style={{ display: 'block' }}
+    >
+      <rect x="0" y="0" width={width} height={height} fill="#FFFDF6" stroke="#111113" strokeWidth="2" />
+
+      {title ? (
+        <text x={pad} y={24} fontSize="13" fontFamily="var(--font-mono)" fill="#2F2F36">
+          {title}
+        </text>
+      ) : null}
+
+      {/* fit window */}
+      {winEnd > winStart ? (
+        <rect
+          x={xScale(winStart)}
+          y={pad}
+          width={xScale(winEnd) - xScale(winStart)}
+          height={height - pad * 2}
+          fill="rgba(31,91,255,0.08)"
+        />
+      ) : null}
+
+      {/* axes */}
+      <line x1={pad} x2={width - pad} y1={height - pad} y2={height - pad} stroke="#111113" strokeWidth="2" />
+      <line x1={pad} x2={pad} y1={pad} y2={height - pad} stroke="#111113" strokeWidth="2" />
+
+      {/* rate line over the window */}
+      {rate && winEnd > winStart ? (
+        <line
+          x1={xScale(winStart)}
+          x2={xScale(winEnd)}
+          y1={yScale(rate.intercept + rate.slopePerMin * winStart)}
+          y2={yScale(rate.intercept + rate.slopePerMin * winEnd)}
+          stroke="#1F5BFF"
+          strokeWidth="2.5"
+        />
+      ) : null}
+
+      {points.map((p, idx) => (
+        <circle
+          key={idx}
+          cx={xScale(p.x)}
+          cy={yScale(p.y)}
+          r={3.5}
+          fill={inWindow(p.x) ? '#FF4D2E' : '#FFFDF6'}
+          stroke="#111113"
+          strokeWidth="1.2"
+        />
+      ))}
+
+      {xTicks.map((t) => (
+        <text
+          key={`xl-${t}`}
+          x={xScale(t)}
+          y={height - pad + 20}
+          textAnchor="middle"
+          fontSize="11"
+          fontFamily="var(--font-mono)"
+          fill="#2F2F36"
+        >
+          {t.toFixed(1)}
+        </text>
+      ))}
+      {yTicks.map((t) => (
+        <text
+          key={`yl-${t}`}
+          x={pad - 10}
+          y={yScale(t) + 4}
+          textAnchor="end"
+          fontSize="11"
+          fontFamily="var(--font-mono)"
+          fill="#2F2F36"
+        >
+          {t.toFixed(2)}
+        </text>
+      ))}
+
+      <text x={width / 2} y={height - 10} textAnchor="middle" fontSize="12" fontFamily="var(--font-mono)" fill="#2F2F36">
+        Time (min)
+      </text>
+      <text
+        x={14}
+        y={height / 2}
+        textAnchor="middle"
+        fontSize="12"
+        fontFamily="var(--font-mono)"
+        fill="#2F2F36"
+        transform={`rotate(-90 14 ${height / 2})`}
+      >
+        Absorbance
+      </text>
+    </svg>
+  )
+}
@@ -0,0 +1,75 @@
+import { sameChoice, type ModelChoice, type ModelComparison } from '../lib/modelSelection'
+
+type Props = {
+  comparison: ModelComparison
+  current: ModelChoice
+  weighted: boolean
+}
+
+const num = (n: number | null, digits = 4) => (n === null ? 'NA' : n.toPrecision(digits))
+const ic = (n: number | null) => (n === null ? 'n/a' : n.toFixed(2))
+
+// Every candidate model fitted to the same standards, ranked by AIC, with nested-model F-tests.
+export function ModelComparisonTable({ comparison, current, weighted }: Props) {
+  const label = (choice: ModelChoice) => comparison.rows.find((r) => sameChoice(r.choice, choice))?.label ?? choice.model
+
+  return (
+    <div data-testid="model-comparison-table">
+      <div className="table-scroll">
+        <table className="data">
+          <thead>
+            <tr>
+              <th>Model</th>
+              <th className="num">Params</th>
+              <th className="num">{weighted ? 'Weighted SSE' : 'SSE'}</th>
+              <th className="num">{weighted ? 'Weighted R²' : 'R²'}</th>
+              <th className="num">AIC</th>
+              <th className="num">ΔAIC</th>
+              <th className="num">BIC</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.rows.map((r) => {
+              const recommended = comparison.recommended !== null && sameChoice(r.choice, comparison.recommended)
+              return (
+                <tr key={r.label}>
+                  <td>
+                    {recommended ? <strong>{r.label}</strong> : r.label}
+                    {weighted && !r.weighted ? ' †' : ''}
+                  </td>
+                  <td className="num">{r.params ?? 'interp.'}</td>
+                  <td className="num">{num(r.sse)}</td>
+                  <td className="num">{r.r2 === null ? 'NA' : r.r2.toFixed(4)}</td>
+                  <td className="num">{ic(r.aic)}</td>
+                  <td className="num">{ic(r.deltaAic)}</td>
+                  <td className="num">{ic(r.bic)}</td>
+                  <td>
+                    {recommended ? <span className="badge">Recommended</span> : null}
+                    {sameChoice(r.choice, current) ? <span className="badge">Current</span> : null}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+      {weighted && comparison.rows.some((r) => !r.weighted) ? (
+        <div className="muted">
+          † Fitted unweighted (log-log, logit-log and interpolating models); its SSE and R² are still scored with the
+          chosen weights, so every row is compared on the same scale.
+        </div>
+      ) : null}
+      {comparison.fTests.length ? (
+        <ul className="bullets">
+          {comparison.fTests.map((t) => (
+            <li key={`${label(t.simpler)}||${label(t.fuller)}`}>
+              {label(t.simpler)} vs {label(t.fuller)}: F({t.df1}, {t.df2}) = {t.f.toFixed(2)}, p = {t.p.toFixed(3)}
+              {t.p < 0.05 ? ' (extra terms significant)' : ' (extra terms not significant)'}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
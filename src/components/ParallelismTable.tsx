@@ -0,0 +1,43 @@
+import type { ParallelismResult } from '../lib/parallelism'
+
+type Props = {
+  results: ParallelismResult[]
+}
+
+const conc = (n: number | null) => (n === null ? 'NA' : n.toPrecision(4))
+
+// Dilution-corrected concentration per dilution, with the CV and slope that decide parallelism.
+export function ParallelismTable({ results }: Props) {
+  return (
+    <div className="table-scroll" data-testid="parallelism-table">
+      <table className="data">
+        <thead>
+          <tr>
+            <th>Animal</th>
+            <th>Group</th>
+            <th className="num">Conc × Dilution by dilution</th>
+            <th className="num">CV</th>
+            <th className="num">Slope</th>
+            <th>Parallel</th>
+            <th>Note</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((r) => (
+            <tr key={`${r.animalId}||${r.group}`}>
+              <td>{r.animalId}</td>
+              <td>{r.group}</td>
+              <td className="num">{r.levels.map((l) => `1:${l.dilution} ${conc(l.meanAdjusted)}`).join(' · ')}</td>
+              <td className="num">{r.cvPct === null ? '' : `${r.cvPct.toFixed(1)}%`}</td>
+              <td className="num">{r.slope === null ? '' : r.slope.toFixed(2)}</td>
+              <td className={r.parallel === false ? 'status-invalid' : undefined}>
+                {r.parallel === null ? '' : r.parallel ? 'Yes' : 'No'}
+              </td>
+              <td>{r.note}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -1,10 +1,10 @@
-import { Fragment, type MouseEvent } from 'react'
-import { PLATE96_COLS, PLATE96_ROWS, type WellId96 } from '../lib/plate96'
+import { Fragment, type CSSProperties, type MouseEvent } from 'react'
+import { type PlateFormat, type WellId } from '../lib/plateFormat'
 
-export type WellType = 'Empty' | 'Sample' | 'Standard' | 'Blank'
+export type WellType = 'Empty' | 'Sample' | 'Standard' | 'Blank' | 'Cutoff' | 'Positive' | 'Negative'
 
 export type WellInfo = {
-  wellId: WellId96
+  wellId: WellId
   type: WellType
   label: string
   title: string
@@ -13,27 +13,45 @@ export type WellInfo = {
 }
 
 type Props = {
-  wells: Record<WellId96, WellInfo>
-  selected: Set<WellId96>
-  onWellClick: (wellId: WellId96, event: MouseEvent<HTMLDivElement>) => void
+  format: PlateFormat
+  wells: Record<WellId, WellInfo>
+  selected: Set<WellId>
+  onWellClick: (wellId: WellId, event: MouseEvent<HTMLDivElement>) => void
 }
 
-export function Plate96({ wells, selected, onWellClick }: Props) {
+// Grid tracks depend on the plate geometry; larger wells for sparse plates, smaller ones for 384.
+const gridStyle = (format: PlateFormat): CSSProperties => {
+  const nCols = format.cols.length
+  const maxWell = format.size <= 48 ? 72 : nCols <= 12 ? 42 : 32
+  return {
+    '--well-size': `min(${maxWell}px, calc((100% - 46px - ${nCols + 1} * 2px) / ${nCols}))`,
+    gridTemplateColumns: `46px repeat(${nCols}, minmax(var(--well-size), 1fr))`,
+    gridTemplateRows: `40px repeat(${format.rows.length}, minmax(var(--well-size), auto))`,
+  } as CSSProperties
+}
+
+const sizeClass = (format: PlateFormat) => (format.size <= 48 ? 'plate-small' : format.size <= 96 ? 'plate-96' : 'plate-384')
+
+export function PlateGrid({ format, wells, selected, onWellClick }: Props) {
   return (
     <div className="plate-shell">
       <div className="plate-grid-wrapper">
-        <div className="plate-grid plate-96" aria-label="96-well plate">
+        <div
+          className={`plate-grid ${sizeClass(format)}`}
+          style={gridStyle(format)}
+          aria-label={`${format.label} plate`}
+        >
           <div className="corner" />
-          {PLATE96_COLS.map((col) => (
+          {format.cols.map((col) => (
             <div key={`h-${col}`} className="col-head">
               {col}
             </div>
           ))}
-          {PLATE96_ROWS.map((row) => (
+          {format.rows.map((row) => (
             <Fragment key={row}>
               <div className="row-head">{row}</div>
-              {PLATE96_COLS.map((col) => {
-                const wellId = `${row}${col}` as WellId96
+              {format.cols.map((col) => {
+                const wellId: WellId = `${row}${col}`
                 const info = wells[wellId]
                 const isSelected = selected.has(wellId)
                 return (
@@ -0,0 +1,77 @@
+import { CONTROL_WELL_LABELS } from '../lib/layoutModel'
+import type { ControlSummary, QualitativeCall } from '../lib/qualitative'
+
+type Props = {
+  calls: Array<{
+    wellId: string
+    animalId: string
+    group: string
+    netBlank: number | null
+    ratio: number | null
+    call: QualitativeCall | null
+  }>
+  controls: ControlSummary[]
+}
+
+const CALL_CLASS: Record<QualitativeCall, string | undefined> = {
+  Positive: 'call-positive',
+  Equivocal: 'call-equivocal',
+  Negative: undefined,
+}
+
+// Control means next to the per-well S/CO ratios and calls.
+export function QualitativeTable({ calls, controls }: Props) {
+  return (
+    <div className="grid-2">
+      <div className="table-scroll" data-testid="qualitative-table">
+        <table className="data">
+          <thead>
+            <tr>
+              <th>Well</th>
+              <th>Animal</th>
+              <th>Group</th>
+              <th className="num">Net(blank)</th>
+              <th className="num">S/CO</th>
+              <th>Call</th>
+            </tr>
+          </thead>
+          <tbody>
+            {calls.map((r) => (
+              <tr key={r.wellId}>
+                <td>{r.wellId}</td>
+                <td>{r.animalId}</td>
+                <td>{r.group}</td>
+                <td className="num">{r.netBlank === null ? '' : r.netBlank.toFixed(4)}</td>
+                <td className="num">{r.ratio === null ? '' : r.ratio.toFixed(3)}</td>
+                <td className={r.call ? CALL_CLASS[r.call] : undefined}>{r.call ?? ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="table-scroll">
+        <table className="data">
+          <thead>
+            <tr>
+              <th>Control</th>
+              <th className="num">N</th>
+              <th className="num">Mean</th>
+              <th className="num">CV</th>
+            </tr>
+          </thead>
+          <tbody>
+            {controls.map((c) => (
+              <tr key={c.type}>
+                <td>{CONTROL_WELL_LABELS[c.type]}</td>
+                <td className="num">{c.n === c.wells ? c.n : `${c.n} of ${c.wells}`}</td>
+                <td className="num">{c.mean === null ? '' : c.mean.toFixed(4)}</td>
+                <td className="num">{c.cvPct === null ? '' : `${c.cvPct.toFixed(1)}%`}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
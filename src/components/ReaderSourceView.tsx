@@ -0,0 +1,130 @@
+import { useEffect, useMemo, useRef } from 'react'
+import type { WellId } from '../lib/plateFormat'
+import {
+  pastedCells,
+  type ReaderDiagnostics,
+  type ReaderIssue,
+  type SourceBlock,
+  type SourceRef,
+} from '../lib/readerDiagnostics'
+import type { Separator } from '../lib/tableText'
+
+type Props = {
+  text: string
+  separator: Separator
+  // Positions are 1-based lines and columns of `text`.
+  diagnostics: ReaderDiagnostics
+  issues: ReaderIssue[]
+  activeWell: WellId | null
+  onHoverWell?: (wellId: WellId | null) => void
+}
+
+const key = (line: number, col: number) => `${line}:${col}`
+
+const inBlock = (b: SourceBlock, line: number, col: number) =>
+  line >= b.line && line <= b.endLine && col >= b.col && col <= b.endCol
+
+const blockRange = (b: SourceBlock) =>
+  b.line === b.endLine ? `line ${b.line}` : `lines ${b.line}–${b.endLine}, columns ${b.col}–${b.endCol}`
+
+// The pasted reader text split into cells, with the header row, wavelength blocks and warning cells marked.
+export function ReaderSourceView({ text, separator, diagnostics, issues, activeWell, onHoverWell }: Props) {
+  const lines = useMemo(() => pastedCells(text, separator), [text, separator])
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  // Which well (and wavelength) each source cell feeds.
+  const wellAt = useMemo(() => {
+    const map = new Map<string, { wellId: WellId; role: 'primary' | 'reference' }>()
+    for (const [wellId, source] of Object.entries(diagnostics.cells)) {
+      if (source?.primary) map.set(key(source.primary.line, source.primary.col), { wellId, role: 'primary' })
+      if (source?.reference) map.set(key(source.reference.line, source.reference.col), { wellId, role: 'reference' })
+    }
+    return map
+  }, [diagnostics.cells])
+
+  const issueCells = useMemo(() => {
+    const map = new Map<string, string>()
+    issues.forEach((i) => {
+      if (i.line !== null) map.set(key(i.line, i.col ?? 0), i.message)
+    })
+    return map
+  }, [issues])
+
+  const activeRefs: SourceRef[] = useMemo(() => {
+    const source = activeWell ? diagnostics.cells[activeWell] : undefined
+    return [source?.primary, source?.reference].filter((r): r is SourceRef => !!r)
+  }, [activeWell, diagnostics.cells])
+
+  // Bring the hovered well's line into view.
+  useEffect(() => {
+    const container = scrollRef.current
+    const line = activeRefs[0]?.line
+    if (!container || line === undefined) return
+    const el = container.querySelector<HTMLElement>(`[data-line="${line}"]`)
+    if (el) container.scrollTop = el.offsetTop - container.clientHeight / 2
+  }, [activeRefs])
+
+  const labelFor = (role: 'primary' | 'reference') =>
+    diagnostics.blocks.find((b) => b.role === role)?.label ?? (role === 'primary' ? 'primary' : 'reference')
+
+  return (
+    <div className="source-view" data-testid="reader-source-view">
+      <div className="legend">
+        {diagnostics.blocks.map((b, idx) => (
+          <span key={idx}>
+            <span className={`swatch src-${b.role}`} />
+            {b.label} · {blockRange(b)}
+          </span>
+        ))}
+        {issues.some((i) => i.line !== null) ? (
+          <span>
+            <span className="swatch src-issue" />
+            Warning
+          </span>
+        ) : null}
+      </div>
+      <div className="source-scroll" ref={scrollRef} onMouseLeave={() => onHoverWell?.(null)}>
+        {lines.map((cells, idx) => {
+          const line = idx + 1
+          const lineIssue = issueCells.get(key(line, 0))
+          return (
+            <div key={line} className={lineIssue ? 'source-line src-issue' : 'source-line'} data-line={line} title={lineIssue}>
+              <span className="source-gutter">{line}</span>
+              {cells.map((cell, c) => {
+                const col = c + 1
+                const block = diagnostics.blocks.find((b) => inBlock(b, line, col) && b.role !== 'header')
+                const header = diagnostics.blocks.some((b) => b.role === 'header' && inBlock(b, line, col))
+                const well = wellAt.get(key(line, col))
+                const issue = issueCells.get(key(line, col))
+                const active = activeRefs.some((r) => r.line === line && r.col === col)
+                const classes = [
+                  'source-cell',
+                  header ? 'src-header' : block ? `src-${block.role}` : '',
+                  issue ? 'src-issue' : '',
+                  active ? 'src-active' : '',
+                ]
+                const title = [
+                  `Line ${line}, column ${col}`,
+                  well ? `${well.wellId} · ${labelFor(well.role)}` : null,
+                  issue ?? null,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')
+                return (
+                  <span
+                    key={c}
+                    className={classes.filter(Boolean).join(' ')}
+                    title={title}
+                    onMouseEnter={well ? () => onHoverWell?.(well.wellId) : undefined}
+                  >
+                    {cell || ' '}
+                  </span>
+                )
+              })}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+import type { ResidualPoint } from '../lib/curveDiagnostics'
+
+type Props = {
+  residuals: ResidualPoint[]
+  mode: 'raw' | 'standardized'
+  // Levels to highlight as a whole (suspect standards).
+  suspectLevels: string[]
+  // Guide lines at ±limit on the standardised scale.
+  limit: number
+  xScale?: 'linear' | 'log10'
+  title?: string
+}
+
+// Residuals against concentration, drawn under the standard curve. Flagged points are filled orange.
+export function ResidualPlot({ residuals, mode, suspectLevels, limit, xScale = 'linear', title }: Props) {
+  const width = 520
+  const height = 200
+  const pad = 44
+
+  const points = residuals
+    .map((r) => ({
+      x: xScale === 'log10' ? Math.log10(Math.max(1e-12, r.x)) : r.x,
+      y: mode === 'raw' ? r.raw : r.standardized,
+      highlight: r.flagged || suspectLevels.includes(r.level),
+    }))
+    .filter((p): p is { x: number; y: number; highlight: boolean } => p.y !== null && Number.isFinite(p.y))
+
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y)
+  const xMin = xs.length ? Math.min(...xs) : 0
+  const xMax = xs.length ? Math.max(...xs) : 1
+  // Symmetric about zero; the standardised scale always shows the ±limit guides.
+  const yAbs = Math.max(...ys.map(Math.abs), mode === 'standardized' ? limit : 0, 1e-9)
+  const xSpan = xMax - xMin || 1
+
+  const x0 = xMin - xSpan * 0.08
+  const x1 = xMax + xSpan * 0.08
+  const y0 = -yAbs * 1.15
+  const y1 = yAbs * 1.15
+
+  const xToPx = (x: number) => pad + ((x - x0) / (x1 - x0)) * (width - pad * 2)
+  const yToPx = (y: number) => height - pad - ((y - y0) / (y1 - y0)) * (height - pad * 2)
+
+  const ticks = (min: number, max: number, n: number) => Array.from({ length: n + 1 }, (_, i) => min + (i / n) * (max - min))
+  const xTicks = ticks(x0, x1, 4)
+  const yTicks = ticks(y0, y1, 4)
+
+  const formatX = (t: number) => {
+    if (xScale !== 'log10') return t.toFixed(1)
+    const conc = 10 ** t
+    if (conc >= 10) return conc.toFixed(0)
+    if (conc >= 1) return conc.toFixed(1)
+    if (conc >= 0.1) return conc.toFixed(2)
+    return conc.toExponential(1)
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width="100%"
+      height="auto"
+      role="img"
+      aria-label={title ?? 'Residual plot'}
+      style={{ display: 'block' }}
+      data-testid="residual-plot"
+    >
+      <rect x="0" y="0" width={width} height={height} fill="#FFFDF6" stroke="#111113" strokeWidth="2" />
+
+      {title ? (
+        <text x={pad} y={24} fontSize="13" fontFamily="var(--font-mono)" fill="#2F2F36">
+          {title}
+        </text>
+      ) : null}
+
+      {/* axes */}
+      <line x1={pad} x2={width - pad} y1={height - pad} y2={height - pad} stroke="#111113" strokeWidth="2" />
+      <line x1={pad} x2={pad} y1={pad} y2={height - pad} stroke="#111113" strokeWidth="2" />
+
+      {/* zero and ±limit guides */}
+      <line x1={pad} x2={width - pad} y1={yToPx(0)} y2={yToPx(0)} stroke="#1F5BFF" strokeWidth="1.5" />
+      {mode === 'standardized'
+        ? [-limit, limit].map((g) => (
+            <line
+              key={g}
+              x1={pad}
+              x2={width - pad}
+              y1={yToPx(g)}
+              y2={yToPx(g)}
+              stroke="rgba(17,17,20,0.35)"
+              strokeDasharray="4 4"
+            />
+          ))
+        : null}
+
+      {points.map((p, idx) => (
+        <circle
+          key={idx}
+          cx={xToPx(p.x)}
+          cy={yToPx(p.y)}
+          r={p.highlight ? 5 : 3.5}
+          fill={p.highlight ? '#FF4D2E' : '#FFFDF6'}
+          stroke="#111113"
+          strokeWidth="1.2"
+        />
+      ))}
+
+      {xTicks.map((t) => (
+        <text
+          key={`xl-${t}`}
+          x={xToPx(t)}
+          y={height - pad + 20}
+          textAnchor="middle"
+          fontSize="11"
+          fontFamily="var(--font-mono)"
+          fill="#2F2F36"
+        >
+          {formatX(t)}
+        </text>
+      ))}
+      {yTicks.map((t) => (
+        <text
+          key={`yl-${t}`}
+          x={pad - 10}
+          y={yToPx(t) + 4}
+          textAnchor="end"
+          fontSize="11"
+          fontFamily="var(--font-mono)"
+          fill="#2F2F36"
+        >
+          {mode === 'raw' ? t.toPrecision(2) : t.toFixed(1)}
+        </text>
+      ))}
+
+      <text x={width / 2} y={height - 10} textAnchor="middle" fontSize="12" fontFamily="var(--font-mono)" fill="#2F2F36">
+        Concentration
+      </text>
+      <text
+        x={14}
+        y={height / 2}
+        textAnchor="middle"
+        fontSize="12"
+        fontFamily="var(--font-mono)"
+        fill="#2F2F36"
+        transform={`rotate(-90 14 ${height / 2})`}
+      >
+        {mode === 'raw' ? 'Residual' : 'Std. residual'}
+      </text>
+    </svg>
+  )
+}
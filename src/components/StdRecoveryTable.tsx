@@ -0,0 +1,49 @@
+import type { QuantLimits } from '../lib/quantLimits'
+
+type Props = {
+  limits: QuantLimits
+}
+
+const pct = (n: number | null) => (n === null ? '' : `${n.toFixed(1)}%`)
+const conc = (n: number | null) => (n === null ? 'NA' : n.toPrecision(4))
+
+// Back-calculated standards through the current fit, with recovery and CV against the acceptance limits.
+export function StdRecoveryTable({ limits }: Props) {
+  return (
+    <div className="table-scroll" data-testid="std-recovery-table">
+      <table className="data">
+        <thead>
+          <tr>
+            <th>Std level</th>
+            <th className="num">Nominal</th>
+            <th className="num">Back-calculated (replicates)</th>
+            <th className="num">Mean</th>
+            <th className="num">Recovery</th>
+            <th className="num">CV</th>
+            <th className="num">Accepted</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {limits.standards.map((s) => (
+            <tr key={s.level}>
+              <td>
+                {s.level}
+                {s.conc === limits.lloq ? ' (LLOQ)' : s.conc === limits.uloq ? ' (ULOQ)' : ''}
+              </td>
+              <td className="num">{s.conc.toPrecision(4)}</td>
+              <td className="num">{s.backCalc.map(conc).join(', ')}</td>
+              <td className="num">{s.backCalcMean === null ? '' : s.backCalcMean.toPrecision(4)}</td>
+              <td className="num">{pct(s.recoveryPct)}</td>
+              <td className="num">{pct(s.cvPct)}</td>
+              <td className="num">
+                {100 - s.tolerancePct}–{100 + s.tolerancePct}%
+              </td>
+              <td className={s.pass ? undefined : 'status-invalid'}>{s.pass ? 'OK' : 'Outside limits'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
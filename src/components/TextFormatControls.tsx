@@ -0,0 +1,43 @@
+import { SEPARATOR_LABELS, type DecimalMark, type Separator, type TextFormatOptions } from '../lib/tableText'
+
+type Props = {
+  value: TextFormatOptions
+  onChange: (next: TextFormatOptions) => void
+  // What auto-detection settled on, shown next to the Auto option.
+  detected: { separator: Separator; decimal: DecimalMark }
+  testIdPrefix: string
+}
+
+export function TextFormatControls({ value, onChange, detected, testIdPrefix }: Props) {
+  return (
+    <>
+      <label className="control">
+        <span>Column separator</span>
+        <select
+          value={value.separator}
+          onChange={(e) => onChange({ ...value, separator: e.target.value as Separator | 'auto' })}
+          data-testid={`${testIdPrefix}-separator-select`}
+        >
+          <option value="auto">Auto ({SEPARATOR_LABELS[detected.separator]})</option>
+          {(Object.keys(SEPARATOR_LABELS) as Separator[]).map((sep) => (
+            <option key={sep} value={sep}>
+              {SEPARATOR_LABELS[sep]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="control">
+        <span>Decimal mark</span>
+        <select
+          value={value.decimal}
+          onChange={(e) => onChange({ ...value, decimal: e.target.value as DecimalMark | 'auto' })}
+          data-testid={`${testIdPrefix}-decimal-select`}
+        >
+          <option value="auto">Auto ({detected.decimal === ',' ? '1,5' : '1.5'})</option>
+          <option value=".">Point (1.5)</option>
+          <option value=",">Comma (1,5)</option>
+        </select>
+      </label>
+    </>
+  )
+}
@@ -0,0 +1,43 @@
+import { formatTiter, TITER_METHOD_LABELS, type TiterPoint, type TiterResult } from '../lib/endpointTiter'
+
+type Props = {
+  titers: TiterResult[]
+}
+
+// Off-scale dilutions have no mean; show which side of the cutoff they fall on.
+const point = (p: TiterPoint) => {
+  const signal = p.mean === null ? (p.positive ? 'sat' : 'low') : p.mean.toFixed(3)
+  return `${p.dilution}: ${signal}${p.positive ? '+' : ''}`
+}
+
+// Endpoint titer per animal, with the dilution series it was read from (positive dilutions marked +).
+export function TiterTable({ titers }: Props) {
+  return (
+    <div className="table-scroll" data-testid="titer-table">
+      <table className="data">
+        <thead>
+          <tr>
+            <th>Animal</th>
+            <th>Group</th>
+            <th>Dilution series (mean signal)</th>
+            <th className="num">Titer</th>
+            <th>Method</th>
+            <th>Note</th>
+          </tr>
+        </thead>
+        <tbody>
+          {titers.map((t) => (
+            <tr key={`${t.animalId}||${t.group}`}>
+              <td>{t.animalId}</td>
+              <td>{t.group}</td>
+              <td className="num">{t.points.map(point).join(' · ')}</td>
+              <td className="num">{formatTiter(t)}</td>
+              <td>{t.method === null ? '' : TITER_METHOD_LABELS[t.method]}</td>
+              <td>{t.note}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import type { RangeLabel } from './quantLimits'
+
+// Sandwich and direct ELISAs gain signal with analyte; competitive (inhibition) ELISAs lose it, so
+// a high OD means little analyte and the zero standard (B0) carries the most signal.
+
+export type AssayDirection = 'sandwich' | 'competitive'
+
+export const DEFAULT_ASSAY_DIRECTION: AssayDirection = 'sandwich'
+
+export const ASSAY_DIRECTION_LABELS: Record<AssayDirection, string> = {
+  sandwich: 'Sandwich / direct (signal rises)',
+  competitive: 'Competitive (signal falls)',
+}
+
+export const curveDirection = (direction: AssayDirection): 'increasing' | 'decreasing' =>
+  direction === 'competitive' ? 'decreasing' : 'increasing'
+
+// Kept replicate signals of every standard level with concentration 0.
+export const zeroStandardSignals = (
+  levels: Array<{ conc: number | null; replicates: Array<{ y: number }> }>
+): number[] => levels.filter((l) => l.conc === 0).flatMap((l) => l.replicates.map((r) => r.y).filter(Number.isFinite))
+
+// Signal as a percentage of B0; null without a positive B0.
+export const percentBB0 = (signal: number | null, b0: number | null): number | null =>
+  signal === null || b0 === null || !(b0 > 0) ? null : (100 * signal) / b0
+
+// Off-scale reads cannot be inverted: a saturated well has the most signal, which is the least analyte in a competitive assay.
+export const offScaleRange = (status: 'saturated' | 'belowDetection', direction: AssayDirection): RangeLabel =>
+  (status === 'saturated') === (direction === 'competitive') ? '<LLOQ' : '>ULOQ'
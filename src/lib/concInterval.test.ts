@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { fivePlConcInterval, fourPlConcInterval, polyConcInterval } from './concInterval'
+import { eval4pl, fit4pl, invert4pl } from './logistic4pl'
+import { eval5pl, fit5pl, invert5pl } from './logistic5pl'
+import { fitPolynomial } from './polynomial'
+import { studentTQuantile } from './stats'
+
+describe('concInterval', () => {
+  it('matches the textbook inverse-prediction interval for a straight line', () => {
+    const x = [0, 1, 2, 3, 4, 5]
+    const y = [0.1, 1.05, 1.9, 3.1, 3.95, 5.05]
+    const fit = fitPolynomial(x, y, 1)!
+    const [a, b] = fit.coeff
+    const x0 = (2.5 - a) / b
+
+    const n = x.length
+    const xBar = x.reduce((acc, v) => acc + v, 0) / n
+    const sxx = x.reduce((acc, v) => acc + (v - xBar) ** 2, 0)
+    const s = fit.stats!.sigma
+    const se = (s * Math.sqrt(1 + 1 / n + (x0 - xBar) ** 2 / sxx)) / Math.abs(b)
+    const t = studentTQuantile(0.975, n - 2)!
+
+    const ci = polyConcInterval(fit, x0)
+    expect(ci).not.toBeNull()
+    expect(ci!.lower).toBeCloseTo(x0 - t * se, 5)
+    expect(ci!.upper).toBeCloseTo(x0 + t * se, 5)
+  })
+
+  it('brackets 4PL back-calculations and widens towards the asymptotes', () => {
+    const trueParams = { A: 0.05, D: 2.2, C: 1.0, B: 1.2 }
+    const x = [0.1, 0.3, 1, 3, 10, 30, 100, 0.1, 0.3, 1, 3, 10, 30, 100]
+    const noise = [0.02, -0.015, 0.01, -0.02, 0.025, -0.01, 0.015, -0.02, 0.015, -0.01, 0.02, -0.025, 0.01, -0.015]
+    const fit = fit4pl(
+      x,
+      x.map((v, i) => eval4pl(trueParams, v) + noise[i])
+    )!
+
+    const relWidth = (conc: number) => {
+      const c = invert4pl(fit.params, eval4pl(fit.params, conc), 0.1, 100)!
+      const ci = fourPlConcInterval(fit, c)!
+      expect(ci.lower).toBeLessThan(c)
+      expect(ci.upper).toBeGreaterThan(c)
+      return ci.upper / ci.lower
+    }
+    expect(relWidth(0.3)).toBeGreaterThan(relWidth(10))
+    expect(relWidth(100)).toBeGreaterThan(relWidth(10))
+  })
+
+  it('brackets 5PL back-calculations on the log scale', () => {
+    const trueParams = { A: 0.05, D: 2.2, C: 1.0, B: 1.2, E: 0.6 }
+    const x = [0.1, 0.3, 1, 3, 10, 30, 100, 0.1, 0.3, 1, 3, 10, 30, 100]
+    const noise = [0.02, -0.015, 0.01, -0.02, 0.025, -0.01, 0.015, -0.02, 0.015, -0.01, 0.02, -0.025, 0.01, -0.015]
+    const fit = fit5pl(
+      x,
+      x.map((v, i) => eval5pl(trueParams, v) + noise[i])
+    )!
+    expect(fit.stats?.df).toBe(x.length - 5)
+
+    const c = invert5pl(fit.params, eval5pl(fit.params, 3), 0.1, 100)!
+    const ci = fivePlConcInterval(fit, c)!
+    expect(ci.lower).toBeLessThan(c)
+    expect(ci.upper).toBeGreaterThan(c)
+    // Symmetric in log10 concentration.
+    expect(Math.log10(c) - Math.log10(ci.lower)).toBeCloseTo(Math.log10(ci.upper) - Math.log10(c), 10)
+
+    // A reading the fit weights more heavily has less variance of its own, so a narrower interval.
+    const heavy = fivePlConcInterval(fit, c, 4)!
+    expect(heavy.upper / heavy.lower).toBeLessThan(ci.upper / ci.lower)
+  })
+
+  it('returns null without fit statistics', () => {
+    const params = { A: 0.05, D: 2.2, C: 1.0, B: 1.2 }
+    const x = [0.1, 1, 10, 100]
+    const fit = fit4pl(
+      x,
+      x.map((v) => eval4pl(params, v))
+    )!
+    expect(fourPlConcInterval(fit, 3)).toBeNull()
+  })
+})
@@ -0,0 +1,169 @@
+import type { FittedCurve } from './curveModels'
+import { eval4plLogX, FOUR_PL_PARAM_NAMES, type FourPLFit, type FourPLParams } from './logistic4pl'
+import { eval5plLogX, FIVE_PL_PARAM_NAMES, type FivePLFit, type FivePLParams } from './logistic5pl'
+import type { LogitLogFit } from './logitLog'
+import type { LogLogFit } from './logLog'
+import { evalPoly, type PolyFit } from './polynomial'
+import { studentTQuantile } from './stats'
+
+// Approximate 95% interval on a back-calculated concentration (inverse prediction).
+export type ConcInterval = {
+  lower: number
+  upper: number
+}
+
+type LinearisedCurve = {
+  theta: number[]
+  cov: number[][]
+  sigma: number
+  df: number
+  // Response at u (log10 concentration for logistic models, concentration for polynomials).
+  evaluate: (theta: number[], u: number) => number
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+
+/**
+ * Delta-method interval on u0, the inverse of a single new reading. The reading's own variance
+ * (sigma² / weight, the residual variance scaled to the weight the fit gives that response) is
+ * added to the curve's parameter uncertainty, and both are divided by the squared slope at u0.
+ */
+const deltaInterval = (curve: LinearisedCurve, u0: number, weight: number): [number, number] | null => {
+  const { theta, cov, sigma, df, evaluate } = curve
+  const du = 1e-6 * (Math.abs(u0) + 1)
+  const slope = (evaluate(theta, u0 + du) - evaluate(theta, u0 - du)) / (2 * du)
+  if (!isFiniteNumber(slope) || Math.abs(slope) < 1e-12) return null
+
+  const grad = theta.map((v, j) => {
+    const dp = 1e-6 * (Math.abs(v) + 1)
+    const plus = [...theta]
+    const minus = [...theta]
+    plus[j] += dp
+    minus[j] -= dp
+    return (evaluate(plus, u0) - evaluate(minus, u0)) / (2 * dp)
+  })
+  let varCurve = 0
+  for (let j = 0; j < grad.length; j += 1) {
+    for (let k = 0; k < grad.length; k += 1) varCurve += grad[j] * cov[j][k] * grad[k]
+  }
+
+  const t = studentTQuantile(0.975, df)
+  const se = Math.sqrt(Math.max(0, varCurve) + (sigma * sigma) / weight) / Math.abs(slope)
+  if (t === null || !isFiniteNumber(se)) return null
+  return [u0 - t * se, u0 + t * se]
+}
+
+const fourPlFromTheta = (theta: number[]): FourPLParams => {
+  const [A, B, C, D] = theta
+  return { A, B, C, D }
+}
+
+// Interval in log10 concentration, so it stays positive and asymmetric like the curve.
+// `weight` is the fit weight at the reading's response (see readingWeight); 1 when unweighted.
+export const fourPlConcInterval = (fit: FourPLFit, conc: number, weight = 1): ConcInterval | null => {
+  if (!fit.stats || !(conc > 0)) return null
+  const band = deltaInterval(
+    {
+      theta: FOUR_PL_PARAM_NAMES.map((name) => fit.params[name]),
+      cov: fit.stats.cov,
+      sigma: fit.stats.sigma,
+      df: fit.stats.df,
+      evaluate: (theta, u) => eval4plLogX(fourPlFromTheta(theta), u),
+    },
+    Math.log10(conc),
+    weight
+  )
+  return band ? { lower: 10 ** band[0], upper: 10 ** band[1] } : null
+}
+
+const fivePlFromTheta = (theta: number[]): FivePLParams => {
+  const [A, B, C, D, E] = theta
+  return { A, B, C, D, E }
+}
+
+// As for the 4PL, in log10 concentration.
+export const fivePlConcInterval = (fit: FivePLFit, conc: number, weight = 1): ConcInterval | null => {
+  if (!fit.stats || !(conc > 0)) return null
+  const band = deltaInterval(
+    {
+      theta: FIVE_PL_PARAM_NAMES.map((name) => fit.params[name]),
+      cov: fit.stats.cov,
+      sigma: fit.stats.sigma,
+      df: fit.stats.df,
+      evaluate: (theta, u) => eval5plLogX(fivePlFromTheta(theta), u),
+    },
+    Math.log10(conc),
+    weight
+  )
+  return band ? { lower: 10 ** band[0], upper: 10 ** band[1] } : null
+}
+
+// Interval in linear concentration; the lower bound is floored at zero.
+export const polyConcInterval = (fit: PolyFit, conc: number, weight = 1): ConcInterval | null => {
+  if (!fit.stats || !isFiniteNumber(conc)) return null
+  const band = deltaInterval(
+    {
+      theta: fit.coeff,
+      cov: fit.stats.cov,
+      sigma: fit.stats.sigma,
+      df: fit.stats.df,
+      evaluate: evalPoly,
+    },
+    conc,
+    weight
+  )
+  return band ? { lower: Math.max(0, band[0]), upper: band[1] } : null
+}
+
+// The line is fitted in log10-log10 space, so the interval is worked out there too. The fit ignores
+// signal-scale weighting (see fitWeighting), so `weight` stays 1 for standard curves.
+export const logLogConcInterval = (fit: LogLogFit, conc: number, weight = 1): ConcInterval | null => {
+  if (!fit.stats || !(conc > 0)) return null
+  const band = deltaInterval(
+    {
+      theta: [fit.params.intercept, fit.params.slope],
+      cov: fit.stats.cov,
+      sigma: fit.stats.sigma,
+      df: fit.stats.df,
+      evaluate: (theta, u) => theta[0] + theta[1] * u,
+    },
+    Math.log10(conc),
+    weight
+  )
+  return band ? { lower: 10 ** band[0], upper: 10 ** band[1] } : null
+}
+
+// As for log-log, on the logit scale where the line is fitted.
+export const logitLogConcInterval = (fit: LogitLogFit, conc: number, weight = 1): ConcInterval | null => {
+  if (!fit.stats || !(conc > 0)) return null
+  const band = deltaInterval(
+    {
+      theta: [fit.params.intercept, fit.params.slope],
+      cov: fit.stats.cov,
+      sigma: fit.stats.sigma,
+      df: fit.stats.df,
+      evaluate: (theta, u) => theta[0] + theta[1] * u,
+    },
+    Math.log10(conc),
+    weight
+  )
+  return band ? { lower: 10 ** band[0], upper: 10 ** band[1] } : null
+}
+
+// Interpolating splines have no parameter covariance to propagate.
+export const concInterval = (curve: FittedCurve, conc: number, weight = 1): ConcInterval | null => {
+  switch (curve.kind) {
+    case '4pl':
+      return fourPlConcInterval(curve.fit, conc, weight)
+    case '5pl':
+      return fivePlConcInterval(curve.fit, conc, weight)
+    case 'poly':
+      return polyConcInterval(curve.fit, conc, weight)
+    case 'loglog':
+      return logLogConcInterval(curve.fit, conc, weight)
+    case 'logitlog':
+      return logitLogConcInterval(curve.fit, conc, weight)
+    default:
+      return null
+  }
+}
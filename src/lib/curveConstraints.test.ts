@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { constraintSummary, DEFAULT_CURVE_CONSTRAINTS, fourPlConstraints } from './curveConstraints'
+
+describe('curveConstraints', () => {
+  it('leaves every parameter free by default', () => {
+    const resolved = fourPlConstraints(DEFAULT_CURVE_CONSTRAINTS, 0.04)
+    expect(resolved).toMatchObject({ direction: 'increasing', fixedA: undefined, fixedD: undefined, minB: undefined })
+    expect(constraintSummary(DEFAULT_CURVE_CONSTRAINTS, resolved)).toBe('')
+  })
+
+  it('fixes the bottom at the blank mean, and frees it without blanks', () => {
+    const settings = { ...DEFAULT_CURVE_CONSTRAINTS, bottom: 'blank' as const, top: 2.5 }
+    expect(fourPlConstraints(settings, 0.04)).toMatchObject({ fixedA: 0.04, fixedD: 2.5 })
+    expect(fourPlConstraints(settings, null).fixedA).toBeUndefined()
+  })
+
+  it('fixes the low asymptote as D for a decreasing curve', () => {
+    const settings = { ...DEFAULT_CURVE_CONSTRAINTS, bottom: 'zero' as const, top: 2.5 }
+    const resolved = fourPlConstraints(settings, null, 'decreasing')
+    expect(resolved).toMatchObject({ fixedA: 2.5, fixedD: 0 })
+    expect(constraintSummary(settings, resolved)).toBe('bottom = 0.000 (fixed at 0); top = 2.500')
+  })
+
+  it('maps EC50 bounds to log10 and ignores non-positive bounds', () => {
+    const settings = { ...DEFAULT_CURVE_CONSTRAINTS, minSlope: 0, maxSlope: 3, minEc50: 1, maxEc50: 100 }
+    const resolved = fourPlConstraints(settings, null)
+    expect(resolved.minB).toBeUndefined()
+    expect(resolved.maxB).toBe(3)
+    expect(resolved.minC).toBeCloseTo(0, 12)
+    expect(resolved.maxC).toBeCloseTo(2, 12)
+    expect(constraintSummary(settings, resolved)).toBe('B in [0, 3]; EC50 in [1.000, 100.0]')
+  })
+})
@@ -0,0 +1,76 @@
+import type { FourPLConstraints } from './logistic4pl'
+
+// Run-level 4PL constraints as set in the fit panel. Bottom and top are the low and high asymptotes:
+// A and D for an increasing curve, D and A for a decreasing one. EC50 bounds are in concentration units.
+
+export type BottomConstraint = 'free' | 'zero' | 'blank'
+
+export const BOTTOM_CONSTRAINT_LABELS: Record<BottomConstraint, string> = {
+  free: 'Free',
+  zero: 'Fixed at 0',
+  blank: 'Fixed at blank mean',
+}
+
+export type CurveConstraintSettings = {
+  bottom: BottomConstraint
+  // Known plateau for the top asymptote; null leaves it free.
+  top: number | null
+  minSlope: number | null
+  maxSlope: number | null
+  minEc50: number | null
+  maxEc50: number | null
+}
+
+export const DEFAULT_CURVE_CONSTRAINTS: CurveConstraintSettings = {
+  bottom: 'free',
+  top: null,
+  minSlope: null,
+  maxSlope: null,
+  minEc50: null,
+  maxEc50: null,
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+const positive = (n: number | null): number | undefined => (isFiniteNumber(n) && n > 0 ? n : undefined)
+
+/**
+ * Optimiser constraints for the settings and curve direction. `blankMean` is the mean blank signal on
+ * the fit's scale (near zero after blank subtraction); without blanks a blank-fixed bottom stays free.
+ * Non-positive slope and EC50 bounds are ignored.
+ */
+export const fourPlConstraints = (
+  settings: CurveConstraintSettings,
+  blankMean: number | null,
+  direction: 'increasing' | 'decreasing' = 'increasing'
+): FourPLConstraints => {
+  const out: FourPLConstraints = { direction }
+  const bottom = settings.bottom === 'zero' ? 0 : settings.bottom === 'blank' && isFiniteNumber(blankMean) ? blankMean : undefined
+  const top = isFiniteNumber(settings.top) ? settings.top : undefined
+  out.fixedA = direction === 'increasing' ? bottom : top
+  out.fixedD = direction === 'increasing' ? top : bottom
+  out.minB = positive(settings.minSlope)
+  out.maxB = positive(settings.maxSlope)
+  const minEc50 = positive(settings.minEc50)
+  const maxEc50 = positive(settings.maxEc50)
+  if (minEc50 !== undefined) out.minC = Math.log10(minEc50)
+  if (maxEc50 !== undefined) out.maxC = Math.log10(maxEc50)
+  return out
+}
+
+// One-line description for export headers and badges; empty when nothing is constrained.
+export const constraintSummary = (settings: CurveConstraintSettings, resolved: FourPLConstraints): string => {
+  const parts: string[] = []
+  const increasing = resolved.direction !== 'decreasing'
+  const bottom = increasing ? resolved.fixedA : resolved.fixedD
+  const top = increasing ? resolved.fixedD : resolved.fixedA
+  if (bottom !== undefined) parts.push(`bottom = ${bottom.toPrecision(4)} (${BOTTOM_CONSTRAINT_LABELS[settings.bottom].toLowerCase()})`)
+  if (top !== undefined) parts.push(`top = ${top.toPrecision(4)}`)
+  if (resolved.minB !== undefined || resolved.maxB !== undefined) {
+    parts.push(`B in [${resolved.minB ?? 0}, ${resolved.maxB ?? '∞'}]`)
+  }
+  if (resolved.minC !== undefined || resolved.maxC !== undefined) {
+    const ec50 = (c: number | undefined) => (c === undefined ? undefined : (10 ** c).toPrecision(4))
+    parts.push(`EC50 in [${ec50(resolved.minC) ?? 0}, ${ec50(resolved.maxC) ?? '∞'}]`)
+  }
+  return parts.join('; ')
+}
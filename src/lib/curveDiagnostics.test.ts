@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { curveDiagnostics, type DiagnosticLevel } from './curveDiagnostics'
+import { eval4pl } from './logistic4pl'
+import { fitStandardCurve, type CurveKind } from './stdCurveAutoQc'
+
+const params = { A: 0.05, D: 2.4, C: 1.0, B: 1.1 }
+const conc = [0.1, 0.3, 1, 3, 10, 30, 100, 300]
+const jitter = [0.01, -0.012, 0.008, 0.011, -0.009, 0.013, -0.01, 0.012]
+
+const levelsFrom = (shift: (i: number) => number = () => 0): DiagnosticLevel[] =>
+  conc.map((x, i) => {
+    const mean = eval4pl(params, x) + shift(i) + jitter[i] * 0.1
+    return { level: `S${i + 1}`, conc: x, signals: [mean - jitter[i], mean + jitter[i]], variance: null }
+  })
+
+const fitTo = (kind: CurveKind, levels: DiagnosticLevel[]) => {
+  const fit = fitStandardCurve(
+    kind,
+    levels.map((l) => ({ x: l.conc, y: (l.signals[0] + l.signals[1]) / 2, variance: null })),
+    'none'
+  )
+  if (!fit) throw new Error('fit failed')
+  return fit
+}
+
+describe('curveDiagnostics', () => {
+  it('passes the lack-of-fit test for the right model', () => {
+    const levels = levelsFrom()
+    const diag = curveDiagnostics(fitTo({ kind: '4pl' }, levels), levels, 'none')
+
+    expect(diag.residuals).toHaveLength(16)
+    expect(diag.lackOfFit?.dfLackOfFit).toBe(4)
+    expect(diag.lackOfFit?.dfPureError).toBe(8)
+    expect(diag.lackOfFit!.p).toBeGreaterThan(0.05)
+    expect(diag.suspectLevels).toEqual([])
+    expect(diag.warnings).toEqual([])
+  })
+
+  it('flags lack of fit and a residual trend for the wrong model', () => {
+    const levels = levelsFrom()
+    const diag = curveDiagnostics(fitTo({ kind: 'poly', degree: 1 }, levels), levels, 'none')
+
+    expect(diag.lackOfFit!.p).toBeLessThan(0.001)
+    expect(diag.warnings.some((w) => w.startsWith('Significant lack of fit'))).toBe(true)
+    expect(diag.warnings.some((w) => w.startsWith('Residuals keep the same sign'))).toBe(true)
+  })
+
+  it('highlights a standard that sits off the curve', () => {
+    const levels = levelsFrom((i) => (i === 3 ? 0.25 : 0))
+    const diag = curveDiagnostics(fitTo({ kind: '4pl' }, levels), levels, 'none')
+
+    expect(diag.suspectLevels).toContain('S4')
+    expect(diag.residuals.filter((r) => r.level === 'S4').every((r) => r.raw > 0)).toBe(true)
+  })
+
+  it('skips the lack-of-fit test without replicates', () => {
+    const levels = levelsFrom().map((l) => ({ ...l, signals: [l.signals[0]] }))
+    const diag = curveDiagnostics(fitTo({ kind: '4pl' }, levelsFrom()), levels, 'none')
+
+    expect(diag.lackOfFit).toBeNull()
+    expect(diag.sigma).not.toBeNull()
+    expect(diag.residuals.every((r) => r.standardized !== null)).toBe(true)
+  })
+})
@@ -0,0 +1,189 @@
+import { curveKindOf, curveParamCount, evalCurve, type FittedCurve } from './curveModels'
+import { curveWeights, type CurveWeighting } from './curveWeights'
+import type { FourPLConstraints } from './logistic4pl'
+import { fDistCdf } from './stats'
+import { fitStandardCurve, fitWeighting } from './stdCurveAutoQc'
+
+export type DiagnosticLevel = {
+  level: string
+  conc: number
+  // Kept replicate signals of the level.
+  signals: number[]
+  variance: number | null
+}
+
+export type ResidualPoint = {
+  level: string
+  x: number
+  y: number
+  fitted: number
+  raw: number
+  // Weighted residual over the residual SD; null without residual degrees of freedom.
+  standardized: number | null
+  flagged: boolean
+}
+
+// Pure-error lack-of-fit test: replicate scatter against the level means' distance from the curve.
+export type LackOfFitTest = {
+  ssLackOfFit: number
+  ssPureError: number
+  dfLackOfFit: number
+  dfPureError: number
+  f: number
+  p: number
+}
+
+export type CurveDiagnostics = {
+  residuals: ResidualPoint[]
+  // Residual SD at unit weight, from every replicate.
+  sigma: number | null
+  lackOfFit: LackOfFitTest | null
+  // Levels that sit off the curve refitted without them.
+  suspectLevels: string[]
+  // Longest run of same-signed level-mean residuals, in concentration order.
+  longestRun: { length: number; from: string; to: string } | null
+  warnings: string[]
+}
+
+export type CurveDiagnosticsOptions = {
+  // |standardised residual| above which a replicate or level is highlighted.
+  outlierZ?: number
+  // Same-signed level residuals in a row that count as a trend.
+  trendRun?: number
+  alpha?: number
+  // Same 4PL constraints as the fit, for the leave-one-level-out refits.
+  constraints?: FourPLConstraints
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+
+/**
+ * Replicate residuals against a fitted standard curve, with a lack-of-fit test and highlights.
+ *
+ * Levels get the same weights as the fit (none for interpolating splines). Standardised residuals
+ * divide the weighted residual by the residual SD over N - p degrees of freedom, where splines count
+ * one parameter per level. The lack-of-fit test needs replicates (N > levels) and more levels than
+ * parameters. A bad standard pulls the curve towards itself, so each level is checked against the
+ * curve refitted without it: it is suspect when its mean lies more than `outlierZ` standard errors
+ * from that curve. A run of `trendRun` same-signed level residuals, or significant lack of fit,
+ * points to the wrong model.
+ */
+export const curveDiagnostics = (
+  curve: FittedCurve,
+  levels: DiagnosticLevel[],
+  weighting: CurveWeighting,
+  options: CurveDiagnosticsOptions = {}
+): CurveDiagnostics => {
+  const outlierZ = options.outlierZ ?? 2.5
+  const trendRun = options.trendRun ?? 4
+  const alpha = options.alpha ?? 0.05
+
+  const used = levels
+    .map((l) => ({ ...l, signals: l.signals.filter(isFiniteNumber) }))
+    .filter((l) => isFiniteNumber(l.conc) && (curve.kind === 'poly' || l.conc > 0) && l.signals.length)
+    .sort((a, b) => a.conc - b.conc)
+  const means = used.map((l) => l.signals.reduce((acc, v) => acc + v, 0) / l.signals.length)
+  const w = curveWeights(
+    fitWeighting(curveKindOf(curve), weighting),
+    used.map((l, i) => ({ x: l.conc, y: means[i], variance: l.variance }))
+  )
+
+  const nObs = used.reduce((acc, l) => acc + l.signals.length, 0)
+  const params = curveParamCount(curve) ?? used.length
+  let ssRes = 0
+  let ssPure = 0
+  let ssLack = 0
+  const levelResiduals = used.map((l, i) => {
+    const fitted = evalCurve(curve, l.conc)
+    for (const y of l.signals) {
+      ssRes += w[i] * (y - fitted) ** 2
+      ssPure += w[i] * (y - means[i]) ** 2
+    }
+    ssLack += w[i] * l.signals.length * (means[i] - fitted) ** 2
+    return means[i] - fitted
+  })
+
+  const dfRes = nObs - params
+  const sigma = dfRes > 0 && ssRes > 0 ? Math.sqrt(ssRes / dfRes) : null
+
+  const residuals: ResidualPoint[] = used.flatMap((l, i) => {
+    const fitted = evalCurve(curve, l.conc)
+    return l.signals.map((y) => {
+      const raw = y - fitted
+      const standardized = sigma === null ? null : (raw * Math.sqrt(w[i])) / sigma
+      return {
+        level: l.level,
+        x: l.conc,
+        y,
+        fitted,
+        raw,
+        standardized,
+        flagged: standardized !== null && Math.abs(standardized) > outlierZ,
+      }
+    })
+  })
+
+  const dfPure = nObs - used.length
+  const dfLack = used.length - params
+  let lackOfFit: LackOfFitTest | null = null
+  if (dfPure > 0 && dfLack > 0 && ssPure > 0) {
+    const f = ssLack / dfLack / (ssPure / dfPure)
+    lackOfFit = {
+      ssLackOfFit: ssLack,
+      ssPureError: ssPure,
+      dfLackOfFit: dfLack,
+      dfPureError: dfPure,
+      f,
+      p: 1 - fDistCdf(f, dfLack, dfPure),
+    }
+  }
+
+  const suspectLevels: string[] = []
+  const warnings: string[] = []
+  const kind = curveKindOf(curve)
+  used.forEach((l, i) => {
+    const others = used.map((_, j) => j).filter((j) => j !== i)
+    const refit = fitStandardCurve(
+      kind,
+      others.map((j) => ({ x: used[j].conc, y: means[j], variance: used[j].variance })),
+      weighting,
+      options.constraints
+    )
+    if (!refit) return
+    const df = nObs - l.signals.length - (curveParamCount(refit) ?? others.length)
+    let ss = 0
+    for (const j of others) {
+      for (const y of used[j].signals) ss += w[j] * (y - evalCurve(refit, used[j].conc)) ** 2
+    }
+    if (df <= 0 || !(ss > 0)) return
+    const z = ((means[i] - evalCurve(refit, l.conc)) * Math.sqrt(w[i] * l.signals.length)) / Math.sqrt(ss / df)
+    if (!isFiniteNumber(z) || Math.abs(z) <= outlierZ) return
+    suspectLevels.push(l.level)
+    warnings.push(
+      `Level ${l.level} sits ${z > 0 ? 'above' : 'below'} the curve fitted without it (standardised residual ${z.toFixed(1)}); check that standard.`
+    )
+  })
+
+  let longestRun: CurveDiagnostics['longestRun'] = null
+  if (curve.kind !== 'spline') {
+    let start = 0
+    for (let i = 1; i <= used.length; i += 1) {
+      if (i < used.length && Math.sign(levelResiduals[i]) === Math.sign(levelResiduals[start])) continue
+      const length = i - start
+      if (!longestRun || length > longestRun.length) longestRun = { length, from: used[start].level, to: used[i - 1].level }
+      start = i
+    }
+  }
+  if (longestRun && longestRun.length >= trendRun) {
+    warnings.push(
+      `Residuals keep the same sign across ${longestRun.length} consecutive levels (${longestRun.from} to ${longestRun.to}), a trend that suggests the wrong model.`
+    )
+  }
+  if (lackOfFit && lackOfFit.p < alpha) {
+    warnings.push(
+      `Significant lack of fit (F = ${lackOfFit.f.toFixed(2)}, p = ${lackOfFit.p.toFixed(3)}): level means are further from the curve than replicate scatter explains.`
+    )
+  }
+
+  return { residuals, sigma, lackOfFit, suspectLevels, longestRun, warnings }
+}
@@ -0,0 +1,121 @@
+import { eval4pl, invert4pl, type FourPLFit } from './logistic4pl'
+import { eval5pl, invert5pl, type FivePLFit } from './logistic5pl'
+import { evalLogitLog, invertLogitLog, type LogitLogFit } from './logitLog'
+import { evalLogLog, invertLogLog, type LogLogFit } from './logLog'
+import { evalPoly, invertPolyBySearch, type PolyFit } from './polynomial'
+import { evalSpline, invertSpline, type SplineFit } from './spline'
+import type { CurveKind } from './stdCurveAutoQc'
+
+// Curve models offered in the UI. `poly` takes a separate degree (2 or 3); `linear` is degree 1.
+export type CurveModel = '4pl' | '5pl' | 'poly' | 'linear' | 'loglog' | 'logitLog' | 'spline' | 'pointToPoint'
+
+export const CURVE_MODEL_LABELS: Record<CurveModel, string> = {
+  '4pl': '4PL (logistic)',
+  '5pl': '5PL (asymmetric logistic)',
+  poly: 'Polynomial',
+  linear: 'Linear',
+  loglog: 'Log-log linear',
+  logitLog: 'Logit-log (B/B0)',
+  spline: 'Cubic spline (interpolation)',
+  pointToPoint: 'Point-to-point (interpolation)',
+}
+
+// b0 is the zero-standard signal, needed only by the logit-log model.
+export const curveKindFor = (model: CurveModel, degree: 2 | 3, b0: number | null = null): CurveKind => {
+  switch (model) {
+    case 'poly':
+      return { kind: 'poly', degree }
+    case 'linear':
+      return { kind: 'poly', degree: 1 }
+    case 'logitLog':
+      return { kind: 'logitlog', b0 }
+    case 'spline':
+      return { kind: 'spline', method: 'cubic' }
+    case 'pointToPoint':
+      return { kind: 'spline', method: 'linear' }
+    default:
+      return { kind: model }
+  }
+}
+
+// The model a fitted curve came from, for refitting it to other points.
+export const curveKindOf = (curve: FittedCurve): CurveKind => {
+  switch (curve.kind) {
+    case 'poly':
+      return { kind: 'poly', degree: curve.fit.degree as 1 | 2 | 3 }
+    case 'logitlog':
+      return { kind: 'logitlog', b0: curve.fit.params.b0 }
+    case 'spline':
+      return { kind: 'spline', method: curve.fit.method }
+    default:
+      return { kind: curve.kind }
+  }
+}
+
+// Short model name for badges and export headers.
+export const curveModelBadge = (model: CurveModel, degree: 2 | 3): string =>
+  model === 'poly' ? `Poly deg ${degree}` : model === '4pl' || model === '5pl' ? model.toUpperCase() : CURVE_MODEL_LABELS[model]
+
+// A fitted standard curve of any supported model. Linear fits are degree-1 polynomials.
+export type FittedCurve =
+  | { kind: '4pl'; fit: FourPLFit }
+  | { kind: '5pl'; fit: FivePLFit }
+  | { kind: 'poly'; fit: PolyFit }
+  | { kind: 'loglog'; fit: LogLogFit }
+  | { kind: 'logitlog'; fit: LogitLogFit }
+  | { kind: 'spline'; fit: SplineFit }
+
+export const evalCurve = (curve: FittedCurve, xConc: number): number => {
+  switch (curve.kind) {
+    case '4pl':
+      return eval4pl(curve.fit.params, xConc)
+    case '5pl':
+      return eval5pl(curve.fit.params, xConc)
+    case 'poly':
+      return evalPoly(curve.fit.coeff, xConc)
+    case 'loglog':
+      return evalLogLog(curve.fit.params, xConc)
+    case 'logitlog':
+      return evalLogitLog(curve.fit.params, xConc)
+    case 'spline':
+      return evalSpline(curve.fit, xConc)
+  }
+}
+
+// Back-calculated concentration within [minConc, maxConc], or null.
+export const invertCurve = (curve: FittedCurve, y: number, minConc: number, maxConc: number): number | null => {
+  switch (curve.kind) {
+    case '4pl':
+      return invert4pl(curve.fit.params, y, minConc, maxConc)
+    case '5pl':
+      return invert5pl(curve.fit.params, y, minConc, maxConc)
+    case 'poly':
+      return invertPolyBySearch(curve.fit.coeff, y, minConc, maxConc)
+    case 'loglog':
+      return invertLogLog(curve.fit.params, y, minConc, maxConc)
+    case 'logitlog':
+      return invertLogitLog(curve.fit.params, y, minConc, maxConc)
+    case 'spline':
+      return invertSpline(curve.fit, y, minConc, maxConc)
+  }
+}
+
+// Estimated parameters; null for interpolating splines, which pass through every level mean.
+export const curveParamCount = (curve: FittedCurve): number | null => {
+  switch (curve.kind) {
+    case '4pl':
+      return 4 - curve.fit.fixed.length
+    case '5pl':
+      return 5
+    case 'poly':
+      return curve.fit.degree + 1
+    case 'loglog':
+    case 'logitlog':
+      return 2
+    case 'spline':
+      return null
+  }
+}
+
+// Logistic, log-log, logit-log and spline curves are fitted against log10 concentration.
+export const curveUsesLogX = (curve: FittedCurve): boolean => curve.kind !== 'poly'
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { curveWeights, readingWeight, sampleVariance } from './curveWeights'
+import { eval4pl, fit4pl } from './logistic4pl'
+import { fitPolynomial } from './polynomial'
+
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length
+
+describe('curveWeights', () => {
+  it('scales weights to a mean of 1 and favours the low end for 1/y²', () => {
+    const points = [0.05, 0.2, 0.8, 2.0].map((y, i) => ({ x: 10 ** i, y, variance: null }))
+    const w = curveWeights('1/y2', points)
+    expect(mean(w)).toBeCloseTo(1, 12)
+    expect(w[0]).toBeGreaterThan(w[1])
+    expect(w[0] / w[3]).toBeCloseTo((2.0 / 0.05) ** 2, 6)
+    expect(curveWeights('none', points)).toEqual([1, 1, 1, 1])
+  })
+
+  it('weights a new reading on the same scale as the standards', () => {
+    const points = [0.05, 0.2, 0.8, 2.0].map((y, i) => ({ x: 10 ** i, y, variance: null }))
+    const w = curveWeights('1/y2', points)
+    expect(readingWeight('1/y2', points, 1, 0.05)).toBeCloseTo(w[0], 12)
+    expect(readingWeight('1/y2', points, 1000, 2.0)).toBeCloseTo(w[3], 12)
+    expect(readingWeight('none', points, 5, 0.4)).toBe(1)
+  })
+
+  it('floors zero and negative signals instead of dividing by them', () => {
+    const w = curveWeights('1/y', [
+      { x: 1, y: 0, variance: null },
+      { x: 2, y: -0.01, variance: null },
+      { x: 3, y: 1, variance: null },
+    ])
+    expect(w.every(Number.isFinite)).toBe(true)
+    expect(w[0]).toBeCloseTo(w[1], 12)
+  })
+
+  it('falls back for levels without replicate variance', () => {
+    expect(sampleVariance([1])).toBeNull()
+    expect(sampleVariance([1, 2, 3])).toBeCloseTo(1, 12)
+
+    const w = curveWeights('replicateVariance', [
+      { x: 1, y: 0.1, variance: 0.0001 },
+      { x: 2, y: 0.5, variance: null },
+      { x: 3, y: 1.5, variance: 0.001 },
+      { x: 4, y: 2.0, variance: 0.01 },
+    ])
+    // The missing level takes the median of the levels that do have replicates.
+    expect(w[1]).toBeCloseTo(w[2], 12)
+    expect(w[0]).toBeGreaterThan(w[2])
+    expect(w[2]).toBeGreaterThan(w[3])
+
+    const none = curveWeights('replicateVariance', [
+      { x: 1, y: 0.1, variance: null },
+      { x: 2, y: 0.5, variance: null },
+    ])
+    expect(none).toEqual([1, 1])
+  })
+
+  it('lets 1/y² weighting keep the low standards accurate when a high one is off', () => {
+    const trueParams = { A: 0.05, D: 2.2, C: 1.0, B: 1.2 }
+    const x = [0.1, 0.3, 1, 3, 10, 30, 100]
+    const y = x.map((v) => eval4pl(trueParams, v))
+    y[5] += 0.25
+
+    const points = x.map((v, i) => ({ x: v, y: y[i], variance: null }))
+    const plain = fit4pl(x, y)
+    const weighted = fit4pl(x, y, { weights: curveWeights('1/y2', points) })
+    const lowError = (params: typeof trueParams) => Math.abs(eval4pl(params, 0.1) - eval4pl(trueParams, 0.1))
+    expect(lowError(weighted!.params)).toBeLessThan(lowError(plain!.params))
+  })
+
+  it('weights the polynomial normal equations and reports a weighted SSE', () => {
+    const x = [0, 1, 2, 3]
+    const y = [0, 1, 2, 10]
+    const unweighted = fitPolynomial(x, y, 1)!
+    // Ignoring the last point recovers the exact line through the first three.
+    const weighted = fitPolynomial(x, y, 1, [1, 1, 1, 0])!
+    expect(weighted.coeff[0]).toBeCloseTo(0, 10)
+    expect(weighted.coeff[1]).toBeCloseTo(1, 10)
+    expect(weighted.sse).toBeCloseTo(0, 10)
+    expect(unweighted.sse).toBeGreaterThan(1)
+  })
+})
@@ -0,0 +1,78 @@
+import { median } from './stats'
+
+// Weighting schemes for standard curve regression. Unweighted least squares lets the high-OD
+// standards dominate; these weights restore accuracy at the low end of the curve.
+
+export type CurveWeighting = 'none' | '1/y' | '1/y2' | '1/x2' | 'replicateVariance'
+
+export const DEFAULT_CURVE_WEIGHTING: CurveWeighting = 'none'
+
+export const CURVE_WEIGHTING_LABELS: Record<CurveWeighting, string> = {
+  none: 'None',
+  '1/y': '1/y',
+  '1/y2': '1/y²',
+  '1/x2': '1/x²',
+  replicateVariance: '1/s² (replicate variance)',
+}
+
+export type WeightPoint = {
+  x: number
+  y: number
+  // Sample variance of the level's replicates; null when there are fewer than two.
+  variance: number | null
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+
+// Sample variance (n - 1), or null for fewer than two values.
+export const sampleVariance = (values: number[]): number | null => {
+  if (values.length < 2) return null
+  const mean = values.reduce((acc, v) => acc + v, 0) / values.length
+  return values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (values.length - 1)
+}
+
+// Unnormalised weight of any point, with floors taken from the standards; null means unweighted.
+const rawWeight = (weighting: CurveWeighting, points: WeightPoint[]): ((p: WeightPoint) => number) | null => {
+  if (weighting === 'none' || !points.length) return null
+  if (weighting === '1/y' || weighting === '1/y2') {
+    const floor = Math.max(...points.map((p) => Math.abs(p.y)), 1e-12) * 0.01
+    const power = weighting === '1/y' ? 1 : 2
+    return (p) => 1 / Math.max(Math.abs(p.y), floor) ** power
+  }
+  if (weighting === '1/x2') {
+    const positive = points.map((p) => Math.abs(p.x)).filter((x) => x > 0)
+    const floor = positive.length ? Math.min(...positive) : 1
+    return (p) => 1 / Math.max(Math.abs(p.x), floor) ** 2
+  }
+  const variances = points.map((p) => p.variance).filter((v): v is number => isFiniteNumber(v) && v > 0)
+  const typical = median(variances)
+  if (typical === null) return null
+  return (p) => 1 / Math.max(isFiniteNumber(p.variance) && p.variance > 0 ? p.variance : typical, typical * 0.1)
+}
+
+/**
+ * One weight per point, scaled to a mean of 1 so weighted and unweighted SSE stay comparable.
+ *
+ * Blank-corrected signals can be zero or negative at the low end, so 1/y and 1/y² use |y| floored
+ * at 1% of the largest |y|. Replicate-variance weights floor each variance at 10% of the median
+ * variance; levels without replicates get the median. Without any replicate variance the fit is unweighted.
+ */
+export const curveWeights = (weighting: CurveWeighting, points: WeightPoint[]): number[] => {
+  const weight = rawWeight(weighting, points)
+  if (!weight) return points.map(() => 1)
+  const raw = points.map(weight)
+  const mean = raw.reduce((acc, w) => acc + w, 0) / raw.length
+  return raw.map((w) => w / mean)
+}
+
+/**
+ * Weight a new reading at (x, y) would get in the fit through `points`, on the same scale as
+ * curveWeights. A single well has no replicate variance, so it gets the median standard variance.
+ */
+export const readingWeight = (weighting: CurveWeighting, points: WeightPoint[], x: number, y: number): number => {
+  const weight = rawWeight(weighting, points)
+  if (!weight) return 1
+  const mean = points.reduce((acc, p) => acc + weight(p), 0) / points.length
+  const w = weight({ x, y, variance: null }) / mean
+  return isFiniteNumber(w) && w > 0 ? w : 1
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { selectBestDilution, type SelectionWell } from './dilutionSelection'
+
+const well = (wellId: string, dilutionFactor: number, conc: number | null, range: SelectionWell['range']): SelectionWell => ({
+  wellId,
+  dilutionFactor,
+  conc,
+  range,
+  reportedAdjusted: conc === null ? null : conc * dilutionFactor,
+})
+
+describe('dilutionSelection', () => {
+  it('drops out-of-range dilutions and prefers the one nearest mid-curve', () => {
+    const wells = [
+      well('A1', 1, 90, '>ULOQ'),
+      well('A2', 10, 12, 'in range'),
+      well('A3', 10, 11, 'in range'),
+      well('A4', 100, 1.3, 'in range'),
+    ]
+    // Mid-curve at 10: 1:10 reads ~11.5, 1:100 reads 1.3.
+    expect(selectBestDilution(wells, 10)).toEqual({
+      dilution: 10,
+      wellIds: ['A2', 'A3'],
+      reason: '1:10, closest to mid-curve',
+    })
+    expect(selectBestDilution(wells, 1).dilution).toBe(100)
+  })
+
+  it('keeps a bound when no dilution is in range', () => {
+    const high = [well('A1', 1, 90, '>ULOQ'), well('A2', 10, 50, '>ULOQ')]
+    expect(selectBestDilution(high, 10)).toMatchObject({ dilution: 10, wellIds: ['A2'] })
+
+    const low = [well('A1', 1, 0.1, '<LLOQ'), well('A2', 10, 0.05, '<LLOQ')]
+    expect(selectBestDilution(low, 10)).toMatchObject({ dilution: 1, wellIds: ['A1'] })
+    expect(selectBestDilution([well('A1', 1, null, '<LLOQ')], 10).wellIds).toEqual([])
+  })
+
+  it('reports the ULOQ substitute from the highest dilution when every dilution is saturated', () => {
+    // Saturated wells do not back-calculate; with a ULOQ of 100 they report ULOQ × dilution.
+    const saturated = (wellId: string, dilutionFactor: number): SelectionWell => ({
+      wellId,
+      dilutionFactor,
+      conc: null,
+      range: '>ULOQ',
+      reportedAdjusted: 100 * dilutionFactor,
+    })
+    const wells = [saturated('A1', 1), saturated('A2', 1), saturated('A3', 10), saturated('A4', 10)]
+    expect(selectBestDilution(wells, 10)).toEqual({
+      dilution: 10,
+      wellIds: ['A3', 'A4'],
+      reason: '1:10, no in-range dilution (>ULOQ)',
+    })
+  })
+})
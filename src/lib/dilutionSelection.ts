@@ -0,0 +1,74 @@
+import type { RangeLabel } from './quantLimits'
+
+// Which wells feed an animal's reported mean when its sample ran at several dilutions.
+//
+// Averaging every dilution mixes good reads with off-scale ones. The best-dilution rule keeps only
+// in-range wells and, among the in-range dilutions, the one whose reads sit closest to mid-curve,
+// where the curve is steepest and back-calculation most precise.
+
+export type DilutionSelectionMode = 'average' | 'best'
+
+export const DEFAULT_DILUTION_SELECTION: DilutionSelectionMode = 'average'
+
+export const DILUTION_SELECTION_LABELS: Record<DilutionSelectionMode, string> = {
+  average: 'All dilutions averaged',
+  best: 'Best dilution',
+}
+
+export type SelectionWell = {
+  wellId: string
+  dilutionFactor: number
+  // Back-calculated concentration before the dilution factor.
+  conc: number | null
+  range: RangeLabel | null
+  // Dilution-corrected value to report, including any out-of-range substitute.
+  reportedAdjusted: number | null
+}
+
+export type DilutionChoice = {
+  dilution: number | null
+  wellIds: string[]
+  reason: string
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+
+// Without limits, every well that back-calculated counts as in range.
+const inRange = (w: SelectionWell) => isFiniteNumber(w.conc) && w.conc > 0 && (w.range === null || w.range === 'in range')
+
+/**
+ * Best dilution of one sample. `midConc` is the mid-curve concentration (geometric mean of LLOQ and
+ * ULOQ, or of the standard range). Ties go to more replicates, then the higher dilution. With no
+ * in-range dilution the out-of-range substitutes are kept: >ULOQ from the highest dilution, which
+ * bounds the value tightest, otherwise <LLOQ from the lowest.
+ */
+export const selectBestDilution = (wells: SelectionWell[], midConc: number | null): DilutionChoice => {
+  const byDilution = new Map<number, SelectionWell[]>()
+  for (const w of wells.filter(inRange)) byDilution.set(w.dilutionFactor, [...(byDilution.get(w.dilutionFactor) ?? []), w])
+
+  if (byDilution.size) {
+    const mid = isFiniteNumber(midConc) && midConc > 0 ? Math.log10(midConc) : null
+    const ranked = Array.from(byDilution.entries())
+      .map(([dilution, reps]) => {
+        const logMean = reps.reduce((acc, w) => acc + Math.log10(w.conc as number), 0) / reps.length
+        return { dilution, reps, distance: mid === null ? 0 : Math.abs(logMean - mid) }
+      })
+      .sort((a, b) => a.distance - b.distance || b.reps.length - a.reps.length || b.dilution - a.dilution)
+    const best = ranked[0]
+    const reason =
+      ranked.length === 1 ? `1:${best.dilution}, the only in-range dilution` : `1:${best.dilution}, closest to mid-curve`
+    return { dilution: best.dilution, wellIds: best.reps.map((w) => w.wellId), reason }
+  }
+
+  const reported = wells.filter((w) => isFiniteNumber(w.reportedAdjusted))
+  const above = reported.filter((w) => w.range === '>ULOQ')
+  const pool = above.length ? above : reported.filter((w) => w.range === '<LLOQ')
+  if (!pool.length) return { dilution: null, wellIds: [], reason: 'No quantifiable dilution' }
+  const dilutions = pool.map((w) => w.dilutionFactor)
+  const dilution = above.length ? Math.max(...dilutions) : Math.min(...dilutions)
+  return {
+    dilution,
+    wellIds: pool.filter((w) => w.dilutionFactor === dilution).map((w) => w.wellId),
+    reason: `1:${dilution}, no in-range dilution (${above.length ? '>ULOQ' : '<LLOQ'})`,
+  }
+}
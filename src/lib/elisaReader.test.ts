@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import { parseElisaReaderText } from './elisaReader'
+import { PLATE_FORMATS } from './plateFormat'
 
 describe('elisaReader', () => {
   it('parses 450/570 plate blocks and computes net', () => {
@@ -18,9 +19,86 @@ describe('elisaReader', () => {
 
     const parsed = parseElisaReaderText(text)
     expect(Object.keys(parsed.wells).length).toBeGreaterThan(0)
-    expect(parsed.wells.A1?.a450).toBeCloseTo(0.9768, 6)
-    expect(parsed.wells.A1?.a570).toBeCloseTo(0.1063, 6)
+    expect(parsed.wells.A1?.primary).toBeCloseTo(0.9768, 6)
+    expect(parsed.wells.A1?.reference).toBeCloseTo(0.1063, 6)
     expect(parsed.wells.A1?.net).toBeCloseTo(0.8705, 6)
   })
-})
+  it('parses 384-well plate blocks', () => {
+    const cols = Array.from({ length: 24 }, (_, i) => String(i + 1))
+    const header = ['Temperature(°C)', ...cols, '', ...cols].join('\t')
+    const rows = Array.from({ length: 16 }, (_, r) => {
+      const a450 = cols.map((_, c) => (1 + r * 0.01 + c * 0.001).toFixed(4))
+      const a570 = cols.map(() => '0.1000')
+      return [r === 0 ? '24.1' : '', ...a450, '', ...a570].join('\t')
+    })
+
+    const parsed = parseElisaReaderText([header, ...rows].join('\n'), { format: PLATE_FORMATS['384'] })
+    expect(parsed.format).toBe('plateBlocks')
+    expect(Object.keys(parsed.wells)).toHaveLength(384)
+    expect(parsed.wells.P24?.primary).toBeCloseTo(1.173, 6)
+    expect(parsed.wells.P24?.net).toBeCloseTo(1.073, 6)
+    expect(parsed.temperatureC).toBeCloseTo(24.1, 6)
+  })
+  it('honours custom and single-wavelength configurations', () => {
+    const list = ['Well\t405\t492', 'A1\t1.2\t0.2', 'B2\t0.8\t0.1'].join('\n')
+    const abts = parseElisaReaderText(list, { wavelengths: { primary: 405, reference: 492 } })
+    expect(abts.format).toBe('list')
+    expect(abts.wells.A1?.net).toBeCloseTo(1, 6)
+
+    const pnpp = parseElisaReaderText(list, { wavelengths: { primary: 405, reference: null } })
+    expect(pnpp.wells.B2?.reference).toBeNull()
+    expect(pnpp.wells.B2?.net).toBeCloseTo(0.8, 6)
+  })
+  it('flags saturated, below-detection and invalid reads instead of dropping them', () => {
+    const list = [
+      'Well\t450\t570',
+      'A1\tOVRFLW\t0.1',
+      'A2\t>4.0\t0.1',
+      'A3\t*\t0.1',
+      'A4\t<0.001\t0.05',
+      'A5\t#DIV/0!\t0.1',
+      'A6\t1.2\tSat',
+      'A7\t1.2\t0.2',
+      'A8\t1.2\t<0.001',
+      'A9\t1.2\tLOW',
+    ].join('\n')
+    const parsed = parseElisaReaderText(list)
+    expect(parsed.wells.A1).toEqual({ primary: null, reference: 0.1, net: null, status: 'saturated' })
+    expect(parsed.wells.A2?.status).toBe('saturated')
+    expect(parsed.wells.A2?.primary).toBe(4)
+    expect(parsed.wells.A3?.status).toBe('saturated')
+    expect(parsed.wells.A4?.status).toBe('belowDetection')
+    expect(parsed.wells.A5?.status).toBe('invalid')
+    expect(parsed.wells.A6?.status).toBe('saturated')
+    expect(parsed.wells.A7).toEqual({ primary: 1.2, reference: 0.2, net: 1, status: 'ok' })
+    expect(parsed.wells.A8?.status).toBe('ok')
+    expect(parsed.wells.A8?.net).toBeCloseTo(1.199, 6)
+    expect(parsed.wells.A9).toEqual({ primary: 1.2, reference: 0, net: 1.2, status: 'ok' })
+  })
+  it('reads decimal-comma semicolon exports', () => {
+    const list = ['Well;450;570', 'A1;1,250;0,100', '"B2";0,800;<0,010'].join('\n')
+    const parsed = parseElisaReaderText(list)
+    expect(parsed.separator).toBe('semicolon')
+    expect(parsed.decimal).toBe(',')
+    expect(parsed.wells.A1?.net).toBeCloseTo(1.15, 6)
+    // A reference below detection is taken at its bound and keeps the well.
+    expect(parsed.wells.B2?.status).toBe('ok')
+    expect(parsed.wells.B2?.reference).toBeCloseTo(0.01, 6)
+    expect(parsed.wells.B2?.net).toBeCloseTo(0.79, 6)
+  })
+
+  it('marks grouped-looking absorbances invalid instead of reading them as thousands', () => {
+    const list = ['Well\t450\t570', 'A1\t1.250\t0.100', 'A2\t0,123\t0.100', 'A3\t1,500\t0.100', 'A4\t0.900\t0.100'].join('\n')
+    const parsed = parseElisaReaderText(list)
+    expect(parsed.decimal).toBe('.')
+    expect(parsed.wells.A1?.net).toBeCloseTo(1.15, 6)
+    expect(parsed.wells.A2).toMatchObject({ primary: null, status: 'invalid' })
+    expect(parsed.wells.A3).toMatchObject({ primary: null, status: 'invalid' })
 
+    const comma = ['Well;450;570', 'A1;1,250;0,100', 'A2;0.123;0,100', 'A3;1.500;0,100', 'A4;0,900;0,100'].join('\n')
+    const parsedComma = parseElisaReaderText(comma)
+    expect(parsedComma.decimal).toBe(',')
+    expect(parsedComma.wells.A2?.status).toBe('invalid')
+    expect(parsedComma.wells.A3?.status).toBe('invalid')
+  })
+})
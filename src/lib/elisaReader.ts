@@ -1,114 +1,151 @@
-import { indexToWellId96, type WellId96 } from './plate96'
-import { parseTableText } from './tableText'
+import { DEFAULT_PLATE_FORMAT, indexToWellId, parseWellId, type PlateFormat, type WellId } from './plateFormat'
+import {
+  EMPTY_DIAGNOSTICS,
+  explainReaderFailure,
+  formatIssue,
+  pastedLineNumbers,
+  plateDiagnostics,
+  toPastedPositions,
+  type ReaderDiagnostics,
+  type ReaderIssue,
+} from './readerDiagnostics'
+import {
+  detectSep,
+  matricesToWells,
+  normalizeReaderText,
+  readCell,
+  readSideBySideBlocks,
+  splitLines,
+  splitPreserve,
+  toReading,
+  type Matrix,
+  type ReaderCell,
+} from './readerGrid'
+import { kineticParser } from './readerKinetic'
+import { EMPTY_METADATA, extractReaderMetadata, type ReaderMetadata } from './readerMetadata'
+import { splitPlateSections } from './readerPlates'
+import { VENDOR_PARSERS } from './readerVendors'
+import { parseTableText, type DecimalMark, type Separator } from './tableText'
 
+// Primary (signal) wavelength and optional reference wavelength, both in nm.
+// A null reference means single-wavelength mode: net equals the primary reading.
+export type WavelengthConfig = {
+  primary: number
+  reference: number | null
+}
+
+export const DEFAULT_WAVELENGTHS: WavelengthConfig = { primary: 450, reference: 570 }
+
+export const WAVELENGTH_PRESETS: Array<{ label: string; wavelengths: WavelengthConfig }> = [
+  { label: 'TMB 450 − 570', wavelengths: { primary: 450, reference: 570 } },
+  { label: 'TMB 450 − 630', wavelengths: { primary: 450, reference: 630 } },
+  { label: 'pNPP 405', wavelengths: { primary: 405, reference: null } },
+  { label: 'ABTS 405 − 492', wavelengths: { primary: 405, reference: 492 } },
+]
+
+export const netLabel = (wavelengths: WavelengthConfig): string =>
+  wavelengths.reference === null ? `${wavelengths.primary}` : `${wavelengths.primary}-${wavelengths.reference}`
+
+// ok: a normal reading. saturated: overflow markers ("OVRFLW", "*", ">4.0", "Sat").
+// belowDetection: "<0.001", "LOW". invalid: any other non-numeric cell ("#DIV/0!", "Error").
+export type ReadingStatus = 'ok' | 'saturated' | 'belowDetection' | 'invalid'
+
+export const READING_STATUS_LABELS: Record<ReadingStatus, string> = {
+  ok: 'OK',
+  saturated: 'Saturated',
+  belowDetection: 'Below detection',
+  invalid: 'Invalid',
+}
+
+// Flagged readings keep their primary/reference values (the bound, for ">4.0"), but net stays null.
 export type ElisaWellReading = {
-  a450: number | null
-  a570: number | null
+  primary: number | null
+  reference: number | null
   net: number | null
+  status: ReadingStatus
 }
 
-export type ElisaParseResult = {
-  wells: Partial<Record<WellId96, ElisaWellReading>>
+export type ReaderParserId = 'kinetic' | 'gen5' | 'softmax' | 'magellan' | 'mars' | 'generic-blocks' | 'generic-list'
+
+// Time-series reads: one value per timepoint for each well, aligned with `timesSec`.
+// Flagged reads (overflow, below detection) have a null value and keep their status alongside.
+export type KineticSeries = {
+  timesSec: number[]
+  traces: Partial<Record<WellId, (number | null)[]>>
+  statuses: Partial<Record<WellId, ReadingStatus[]>>
+}
+
+// What a parser reads from one plate's worth of reader text.
+export type ElisaPlateResult = {
+  wells: Partial<Record<WellId, ElisaWellReading>>
   temperatureC: number | null
   warnings: string[]
-  format: 'plateBlocks' | 'list'
+  format: 'plateBlocks' | 'list' | 'kinetic'
+  wavelengths: WavelengthConfig
+  // Which registered parser produced the result (null when nothing matched).
+  parser: ReaderParserId | null
+  // Present for kinetic reads; `wells` then holds the last reading of each trace.
+  kinetic: KineticSeries | null
+  // Header rows, wavelength blocks and per-well source cells (see readerDiagnostics).
+  diagnostics: ReaderDiagnostics
 }
 
-const toNumber = (value: string): number | null => {
-  const s = value.trim()
-  if (!s) return null
-  const up = s.toUpperCase()
-  if (['NA', 'NAN', 'INF', '#DIV/0!', 'UNDETERMINED'].includes(up)) return null
-  const n = Number(s)
-  return Number.isFinite(n) ? n : null
+// One plate block of a (possibly multi-plate) reader export. Its diagnostics and warnings carry
+// line and column numbers of the pasted text.
+export type ReaderPlate = ElisaPlateResult & {
+  plateId: string
+  metadata: ReaderMetadata
 }
 
-const splitPreserve = (line: string, sep: 'tab' | 'comma' | 'semicolon' | 'pipe' | 'whitespace'): string[] => {
-  if (sep === 'tab') return line.split('\t').map((c) => c.trim())
-  if (sep === 'comma') return line.split(',').map((c) => c.trim())
-  if (sep === 'semicolon') return line.split(';').map((c) => c.trim())
-  if (sep === 'pipe') return line.split('|').map((c) => c.trim())
-  return line.trim().split(/\s+/).map((c) => c.trim())
+// Top-level fields mirror the first plate, so single-plate callers can ignore `plates`.
+export type ElisaParseResult = ElisaPlateResult & {
+  plates: ReaderPlate[]
+  metadata: ReaderMetadata
+  // Every warning of the paste with its line and column; `warnings` holds them as text.
+  issues: ReaderIssue[]
+  // Column separator and decimal mark the paste was read with (detected or overridden).
+  separator: Separator
+  decimal: DecimalMark
 }
 
-const detectSep = (text: string): 'tab' | 'comma' | 'semicolon' | 'pipe' | 'whitespace' => {
-  const head = text.split(/\r?\n/).slice(0, 5).join('\n')
-  const counts = {
-    tab: (head.match(/\t/g) ?? []).length,
-    comma: (head.match(/,/g) ?? []).length,
-    semicolon: (head.match(/;/g) ?? []).length,
-    pipe: (head.match(/\|/g) ?? []).length,
-  }
-  const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1])
-  const best = sorted[0]?.[0] as keyof typeof counts | undefined
-  if (!best) return 'whitespace'
-  return counts[best] > 0 ? best : 'whitespace'
+export type ReaderParser = {
+  id: ReaderParserId
+  label: string
+  // Cheap signature check on the raw text; generic parsers accept anything.
+  detect: (text: string) => boolean
+  parse: (text: string, format: PlateFormat, wavelengths: WavelengthConfig) => ElisaPlateResult | null
 }
 
-const tryParsePlateBlocks = (text: string): ElisaParseResult | null => {
+export type ElisaParseOptions = {
+  format?: PlateFormat
+  parser?: ReaderParserId | 'auto'
+  wavelengths?: WavelengthConfig
+  separator?: Separator | 'auto'
+  decimal?: DecimalMark | 'auto'
+}
+
+const tryParsePlateBlocks = (text: string, format: PlateFormat, wavelengths: WavelengthConfig): ElisaPlateResult | null => {
   const trimmed = text.replace(/\r/g, '').trim()
   if (!trimmed) return null
 
   const sep = detectSep(trimmed)
-  const lines = trimmed
-    .split('\n')
-    .map((l) => l.trimEnd())
-    .filter((l) => l.trim().length > 0)
-
-  const rows = lines.map((l) => splitPreserve(l, sep))
-  const headerIdx = rows.findIndex((r) => r.some((c) => /temperature/i.test(c)))
-  const resolvedHeaderIdx = headerIdx >= 0 ? headerIdx : rows.findIndex((r) => r.filter((c) => c.trim() === '1').length >= 2)
-  if (resolvedHeaderIdx < 0) return null
-
-  const header = rows[resolvedHeaderIdx]
-  const oneIndices: number[] = []
-  header.forEach((cell, idx) => {
-    if (cell.trim() === '1') oneIndices.push(idx)
-  })
-  if (oneIndices.length < 2) return null
-  const start450 = oneIndices[0]
-  const start570 = oneIndices[1]
-
-  const dataRows = rows.slice(resolvedHeaderIdx + 1)
-  const matrix450: (number | null)[][] = []
-  const matrix570: (number | null)[][] = []
-  let temperatureC: number | null = null
-
-  for (const row of dataRows) {
-    const padded = row.length < start570 + 12 ? [...row, ...Array.from({ length: start570 + 12 - row.length }, () => '')] : row
-    const vals450 = Array.from({ length: 12 }, (_, i) => toNumber(padded[start450 + i] ?? ''))
-    const vals570 = Array.from({ length: 12 }, (_, i) => toNumber(padded[start570 + i] ?? ''))
-    const hasAny = vals450.some((v) => v !== null) || vals570.some((v) => v !== null)
-    if (!hasAny) continue
-
-    if (temperatureC === null) {
-      // Temperature is usually in the first cell of the first row
-      temperatureC = toNumber(padded[0] ?? '') ?? null
-    }
-
-    matrix450.push(vals450)
-    matrix570.push(vals570)
-    if (matrix450.length >= 8) break
-  }
+  const rows = splitLines(trimmed).map((l) => splitPreserve(l, sep))
+  const read = readSideBySideBlocks(rows, format, wavelengths.reference === null ? 1 : 2)
+  if (!read) return null
 
-  if (matrix450.length < 8 || matrix570.length < 8) return null
-
-  const wells: Partial<Record<WellId96, ElisaWellReading>> = {}
-  for (let r = 0; r < 8; r += 1) {
-    for (let c = 0; c < 12; c += 1) {
-      const well = indexToWellId96(r * 12 + c)
-      if (!well) continue
-      const a450 = matrix450[r]?.[c] ?? null
-      const a570 = matrix570[r]?.[c] ?? null
-      const net = a450 !== null && a570 !== null ? a450 - a570 : null
-      wells[well] = { a450, a570, net }
-    }
+  return {
+    wells: matricesToWells(format, read.matrices[0], read.matrices[1] ?? null, wavelengths),
+    temperatureC: read.temperatureC,
+    warnings: [],
+    format: 'plateBlocks',
+    wavelengths,
+    parser: 'generic-blocks',
+    kinetic: null,
+    diagnostics: plateDiagnostics(format, read.matrices[0], read.matrices[1] ?? null, [read.header], wavelengths),
   }
-
-  return { wells, temperatureC, warnings: [], format: 'plateBlocks' }
 }
 
-const tryParseList = (text: string): ElisaParseResult | null => {
+const tryParseList = (text: string, format: PlateFormat, wavelengths: WavelengthConfig): ElisaPlateResult | null => {
   const trimmed = text.replace(/\r/g, '').trim()
   if (!trimmed) return null
 
@@ -116,57 +153,182 @@ const tryParseList = (text: string): ElisaParseResult | null => {
   if (table.headers.length < 2) return null
 
   const h = table.headers.map((v) => v.trim().toLowerCase())
-  const idx450 = h.findIndex((c) => c === '450' || c.includes('450'))
-  const idx570 = h.findIndex((c) => c === '570' || c.includes('570'))
-  if (idx450 < 0 || idx570 < 0) return null
+  const columnFor = (nm: number) => h.findIndex((c) => c === String(nm) || c.includes(String(nm)))
+  const idxPrimary = columnFor(wavelengths.primary)
+  const idxReference = wavelengths.reference === null ? -1 : columnFor(wavelengths.reference)
+  if (idxPrimary < 0 || (wavelengths.reference !== null && idxReference < 0)) return null
 
   const idxWell = h.findIndex((c) => c === 'well' || c.includes('well') || c.includes('position'))
   const idxIndex = idxWell < 0 ? 0 : -1
 
-  const wells: Partial<Record<WellId96, ElisaWellReading>> = {}
+  const wells: Partial<Record<WellId, ElisaWellReading>> = {}
   const warnings: string[] = []
+  // Source cells laid out by plate position, so the list shares the block diagnostics.
+  const nCols = format.cols.length
+  const emptyMatrix = (): Matrix => format.rows.map(() => format.cols.map((): ReaderCell => ({ value: null, status: 'ok' })))
+  const primaryCells = emptyMatrix()
+  const referenceCells = emptyMatrix()
 
-  for (const row of table.rows) {
-    const a450 = toNumber(row[idx450] ?? '')
-    const a570 = toNumber(row[idx570] ?? '')
-    const net = a450 !== null && a570 !== null ? a450 - a570 : null
+  table.rows.forEach((row, rowIdx) => {
+    // The header is line 0.
+    const line = rowIdx + 1
+    const primary = readCell(row[idxPrimary] ?? '', { line, col: idxPrimary })
+    const reference = idxReference < 0 ? null : readCell(row[idxReference] ?? '', { line, col: idxReference })
 
-    let wellId: WellId96 | null = null
+    let wellId: WellId | null = null
 
     if (idxWell >= 0) {
-      const raw = (row[idxWell] ?? '').trim()
-      const match = /^([A-H])\s*([1-9]|1[0-2])$/i.exec(raw)
-      if (match) {
-        wellId = `${match[1].toUpperCase()}${Number(match[2])}` as WellId96
-      }
+      wellId = parseWellId(format, row[idxWell] ?? '')
     } else {
-      // Fall back to sequential index (1..96).
+      // Fall back to sequential index (1..plate size).
       const n = Number((row[idxIndex] ?? '').trim())
-      if (Number.isFinite(n) && n >= 1 && n <= 96) {
-        wellId = indexToWellId96(n - 1)
+      if (Number.isFinite(n) && n >= 1 && n <= format.size) {
+        wellId = indexToWellId(format, n - 1)
       }
     }
 
-    if (!wellId) continue
-    wells[wellId] = { a450, a570, net }
-  }
+    if (!wellId) return
+    wells[wellId] = toReading(primary, reference, wavelengths)
+    const idx = format.wellIds.indexOf(wellId)
+    primaryCells[Math.floor(idx / nCols)][idx % nCols] = primary
+    if (reference) referenceCells[Math.floor(idx / nCols)][idx % nCols] = reference
+  })
 
   if (!Object.keys(wells).length) {
     warnings.push('No well readings could be mapped from the list format.')
   }
 
-  return { wells, temperatureC: null, warnings, format: 'list' }
+  const header = { line: 0, col: 0, endLine: 0, endCol: table.headers.length - 1 }
+  return {
+    wells,
+    temperatureC: null,
+    warnings,
+    format: 'list',
+    wavelengths,
+    parser: 'generic-list',
+    kinetic: null,
+    diagnostics: plateDiagnostics(format, primaryCells, idxReference < 0 ? null : referenceCells, [header], wavelengths),
+  }
 }
 
-export const parseElisaReaderText = (text: string): ElisaParseResult => {
-  const warnings: string[] = []
+// Kinetic and vendor parsers come first: they only claim text carrying their signature.
+export const READER_PARSERS: ReaderParser[] = [
+  kineticParser,
+  ...VENDOR_PARSERS,
+  { id: 'generic-blocks', label: 'Generic plate blocks', detect: () => true, parse: tryParsePlateBlocks },
+  { id: 'generic-list', label: 'Generic well list', detect: () => true, parse: tryParseList },
+]
+
+export const readerParserLabel = (id: ReaderParserId | null): string =>
+  READER_PARSERS.find((p) => p.id === id)?.label ?? 'None'
+
+const parsePlate = (
+  text: string,
+  format: PlateFormat,
+  requested: ReaderParserId | 'auto',
+  wavelengths: WavelengthConfig
+): ElisaPlateResult | null => {
+  const candidates =
+    requested === 'auto' ? READER_PARSERS.filter((p) => p.detect(text)) : READER_PARSERS.filter((p) => p.id === requested)
 
-  const block = tryParsePlateBlocks(text)
-  if (block) return block
+  for (const parser of candidates) {
+    const result = parser.parse(text, format, wavelengths)
+    if (result) return result
+  }
+  return null
+}
 
-  const list = tryParseList(text)
-  if (list) return list
+export const parseElisaReaderText = (text: string, options: ElisaParseOptions = {}): ElisaParseResult => {
+  const format = options.format ?? DEFAULT_PLATE_FORMAT
+  const requested = options.parser ?? 'auto'
+  const wavelengths = options.wavelengths ?? DEFAULT_WAVELENGTHS
+  const issues: ReaderIssue[] = []
+  const normalized = normalizeReaderText(text, { separator: options.separator, decimal: options.decimal })
+  const textFormat = { separator: normalized.separator, decimal: normalized.decimal }
+  // Parsers only see non-blank lines; this maps their line index back to the pasted line number.
+  const lineNumbers = pastedLineNumbers(text)
+  const pastedLine = (idx: number) => lineNumbers[idx] ?? idx + 1
 
-  warnings.push('Could not parse the reader output. Try pasting the 450/570 plate blocks as tab-separated text.')
-  return { wells: {}, temperatureC: null, warnings, format: 'plateBlocks' }
+  const plates: ReaderPlate[] = []
+  const sections = splitPlateSections(normalized.text)
+  for (const section of sections) {
+    const lineAt = (idx: number) =>
+      pastedLine(idx < section.preamble.length ? idx : section.bodyStart + idx - section.preamble.length)
+    const result = parsePlate(section.text, format, requested, wavelengths)
+    if (result) {
+      const located = toPastedPositions(result.diagnostics, lineAt)
+      // Parser warnings concern the whole block; pin them to its first header row.
+      const anchor = located.blocks.find((b) => b.role === 'header')?.line ?? lineAt(section.preamble.length)
+      const plateIssues = [...result.warnings.map((message) => ({ message, line: anchor, col: null })), ...located.issues]
+      plates.push({
+        ...result,
+        warnings: plateIssues.map(formatIssue),
+        diagnostics: { ...located, issues: plateIssues },
+        plateId: section.plateId,
+        metadata: extractReaderMetadata(section.body, section.preamble, result.temperatureC),
+      })
+    } else if (sections.length > 1) {
+      issues.push({
+        message: `Plate block "${section.plateId}" could not be parsed and was skipped.`,
+        line: lineAt(section.preamble.length),
+        col: null,
+      })
+    }
+  }
+
+  if (plates.length) {
+    const plateIssues = plates.flatMap((p) => p.diagnostics.issues)
+    // Parser warnings are per plate; only prefix them when there is more than one.
+    const plateWarnings = plates.length === 1 ? plates[0].warnings : plates.flatMap((p) => p.warnings.map((w) => `${p.plateId}: ${w}`))
+    return {
+      ...plates[0],
+      warnings: [...issues.map(formatIssue), ...plateWarnings],
+      issues: [...issues, ...plateIssues],
+      plates,
+      ...textFormat,
+    }
+  }
+
+  if (requested === 'auto') {
+    const blocks = wavelengths.reference === null ? `${wavelengths.primary}` : `${wavelengths.primary}/${wavelengths.reference}`
+    issues.push({
+      message: `Could not parse the reader output. Try pasting the ${blocks} plate blocks as tab-separated text.`,
+      line: null,
+      col: null,
+    })
+  } else {
+    issues.push({
+      message: `Could not parse the reader output as ${readerParserLabel(requested)}. Try Auto-detect.`,
+      line: null,
+      col: null,
+    })
+  }
+  // Say where the paste stops looking like a plate block.
+  const lines = splitLines(normalized.text)
+  const sep = detectSep(lines.join('\n'), lines.length)
+  const explained = explainReaderFailure(
+    lines.map((l) => splitPreserve(l, sep)),
+    format,
+    wavelengths
+  ).map((issue) => ({
+    ...issue,
+    line: issue.line === null ? null : pastedLine(issue.line),
+    col: issue.col === null ? null : issue.col + 1,
+  }))
+  issues.push(...explained)
+
+  return {
+    wells: {},
+    temperatureC: null,
+    warnings: issues.map(formatIssue),
+    format: 'plateBlocks',
+    wavelengths,
+    parser: null,
+    kinetic: null,
+    diagnostics: { ...EMPTY_DIAGNOSTICS, issues },
+    plates: [],
+    metadata: EMPTY_METADATA,
+    issues,
+    ...textFormat,
+  }
 }
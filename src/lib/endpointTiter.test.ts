@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { eval4pl } from './logistic4pl'
+import { DEFAULT_TITER_SETTINGS, endpointTiters, formatTiter, titerCutoff, type TiterWell } from './endpointTiter'
+
+const series = (animalId: string, dilutions: number[], signals: Array<number | null>, status: TiterWell['status'][] = []) =>
+  dilutions.map((dilutionFactor, i) => ({
+    animalId,
+    group: 'G1',
+    dilutionFactor,
+    signal: signals[i],
+    status: status[i] ?? 'ok',
+  }))
+
+describe('endpointTiter', () => {
+  it('derives the cutoff from the blanks or a fixed OD', () => {
+    expect(titerCutoff(DEFAULT_TITER_SETTINGS, [0.04, 0.06])).toBeCloseTo(0.05 + 3 * Math.sqrt(0.0002), 10)
+    expect(titerCutoff(DEFAULT_TITER_SETTINGS, [0.05])).toBeNull()
+    expect(titerCutoff({ ...DEFAULT_TITER_SETTINGS, cutoff: 'fixed', fixedOd: 0.3 }, [])).toBe(0.3)
+  })
+
+  it('interpolates on log dilution and censors series that never cross', () => {
+    const wells = [
+      ...series('A1', [100, 200, 400, 800], [1.6, 0.8, 0.4, 0.1]),
+      ...series('A2', [100, 200, 400, 800], [2.5, 2.0, 1.5, 1.0]),
+      ...series('A3', [100, 200, 400, 800], [0.1, 0.08, 0.05, 0.04]),
+    ]
+    const [a1, a2, a3] = endpointTiters(wells, 0.2, 'interpolate')
+
+    // 0.2 lies two thirds of the way from 0.4 (1:400) to 0.1 (1:800) in signal.
+    expect(a1.titer!).toBeCloseTo(10 ** (Math.log10(400) + (2 / 3) * Math.log10(2)), 6)
+    expect(a1.qualifier).toBe('')
+    expect(formatTiter(a2)).toBe('>800')
+    expect(formatTiter(a3)).toBe('<100')
+  })
+
+  it('treats saturated wells as positive', () => {
+    const wells = series('A1', [100, 200, 400], [null, 0.9, 0.1], ['saturated', 'ok', 'ok'])
+    const [a1] = endpointTiters(wells, 0.5, 'interpolate')
+    expect(a1.points[0].positive).toBe(true)
+    expect(a1.titer!).toBeGreaterThan(200)
+    expect(a1.titer!).toBeLessThan(400)
+  })
+
+  it('inverts a per-animal 4PL at the cutoff', () => {
+    const params = { A: 2.4, D: 0.05, C: Math.log10(1600), B: 1.1 }
+    const dilutions = [100, 200, 400, 800, 1600, 3200, 6400, 12800]
+    const wells = series('A1', dilutions, dilutions.map((d) => eval4pl(params, d)))
+    const [a1] = endpointTiters(wells, eval4pl(params, 5000), '4pl')
+    expect(a1.method).toBe('4pl')
+    expect(a1.titer!).toBeCloseTo(5000, -1)
+  })
+})
@@ -0,0 +1,172 @@
+import { eval4pl, fit4pl, invert4pl } from './logistic4pl'
+
+// Endpoint titers for antibody ELISAs without a standard curve.
+//
+// Each animal's serum runs as a dilution series; the endpoint titer is the reciprocal dilution at which
+// its signal falls to the cutoff, found by interpolating between the bracketing dilutions on a log
+// scale or by inverting a 4PL fitted to the series.
+
+export type TiterCutoffMode = 'blankSd' | 'fixed'
+
+export const TITER_CUTOFF_LABELS: Record<TiterCutoffMode, string> = {
+  blankSd: 'Blank mean + k·SD',
+  fixed: 'Fixed OD',
+}
+
+export type TiterMethod = 'interpolate' | '4pl'
+
+export const TITER_METHOD_LABELS: Record<TiterMethod, string> = {
+  interpolate: 'Interpolate (log dilution)',
+  '4pl': '4PL fit per animal',
+}
+
+export type TiterSettings = {
+  cutoff: TiterCutoffMode
+  // SD multiplier for the blank-based cutoff.
+  k: number
+  // Cutoff signal for the fixed mode, on the same blank-corrected scale as Net(blank).
+  fixedOd: number
+  method: TiterMethod
+}
+
+export const DEFAULT_TITER_SETTINGS: TiterSettings = { cutoff: 'blankSd', k: 3, fixedOd: 0.2, method: 'interpolate' }
+
+export type TiterWell = {
+  animalId: string
+  group: string
+  dilutionFactor: number
+  // Blank-corrected signal; null for off-scale reads.
+  signal: number | null
+  status: 'ok' | 'saturated' | 'belowDetection'
+}
+
+export type TiterPoint = {
+  dilution: number
+  n: number
+  // Mean of the readable replicates; null when every replicate was off-scale.
+  mean: number | null
+  positive: boolean
+}
+
+export type TiterResult = {
+  animalId: string
+  group: string
+  points: TiterPoint[]
+  // Reciprocal endpoint dilution; with a qualifier it is the bound of a censored titer.
+  titer: number | null
+  qualifier: '' | '>' | '<'
+  method: TiterMethod | null
+  note: string
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+
+/**
+ * Cutoff signal for the settings. The blank-based cutoff needs at least two blank signals for an SD;
+ * a fixed cutoff must be finite. Returns null otherwise.
+ */
+export const titerCutoff = (settings: TiterSettings, blankSignals: number[]): number | null => {
+  if (settings.cutoff === 'fixed') return isFiniteNumber(settings.fixedOd) ? settings.fixedOd : null
+  const vals = blankSignals.filter(isFiniteNumber)
+  if (vals.length < 2 || !isFiniteNumber(settings.k)) return null
+  const mean = vals.reduce((acc, v) => acc + v, 0) / vals.length
+  const sd = Math.sqrt(vals.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (vals.length - 1))
+  return mean + settings.k * sd
+}
+
+// Replicates of one dilution: saturated reads count as positive, below-detection reads as negative.
+const seriesPoints = (wells: TiterWell[], cutoff: number): TiterPoint[] => {
+  const byDilution = new Map<number, TiterWell[]>()
+  for (const w of wells) byDilution.set(w.dilutionFactor, [...(byDilution.get(w.dilutionFactor) ?? []), w])
+  return Array.from(byDilution.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([dilution, reps]) => {
+      const vals = reps.map((r) => r.signal).filter(isFiniteNumber)
+      const mean = vals.length ? vals.reduce((acc, v) => acc + v, 0) / vals.length : null
+      const saturated = reps.some((r) => r.status === 'saturated')
+      return { dilution, n: reps.length, mean, positive: mean === null ? saturated : mean >= cutoff }
+    })
+}
+
+// Log-linear interpolation between the last positive dilution and the first negative one after it.
+const interpolateTiter = (points: TiterPoint[], cutoff: number): Omit<TiterResult, 'animalId' | 'group' | 'points'> => {
+  const first = points.findIndex((p) => p.positive)
+  if (first < 0) {
+    return { titer: points[0].dilution, qualifier: '<', method: 'interpolate', note: 'Negative at every dilution.' }
+  }
+  const end = points.findIndex((p, i) => i > first && !p.positive)
+  if (end < 0) {
+    const last = points[points.length - 1].dilution
+    return { titer: last, qualifier: '>', method: 'interpolate', note: 'Still positive at the highest dilution.' }
+  }
+  const hi = points[end - 1]
+  const lo = points[end]
+  if (hi.mean === null || lo.mean === null || hi.mean === lo.mean) {
+    return { titer: hi.dilution, qualifier: '', method: 'interpolate', note: 'Last positive dilution (off-scale neighbour).' }
+  }
+  const frac = (hi.mean - cutoff) / (hi.mean - lo.mean)
+  const logTiter = Math.log10(hi.dilution) + frac * (Math.log10(lo.dilution) - Math.log10(hi.dilution))
+  return { titer: 10 ** logTiter, qualifier: '', method: 'interpolate', note: '' }
+}
+
+// 4PL of signal against dilution, decreasing by construction, inverted at the cutoff within the series.
+const fitTiter = (points: TiterPoint[], cutoff: number): Omit<TiterResult, 'animalId' | 'group' | 'points'> | null => {
+  const used = points.filter((p): p is TiterPoint & { mean: number } => p.mean !== null)
+  if (used.length < 4) return null
+  const fit = fit4pl(
+    used.map((p) => p.dilution),
+    used.map((p) => p.mean),
+    { constraints: { direction: 'decreasing' } }
+  )
+  if (!fit) return null
+  const minDil = points[0].dilution
+  const maxDil = points[points.length - 1].dilution
+  const titer = invert4pl(fit.params, cutoff, minDil, maxDil)
+  if (titer !== null) return { titer, qualifier: '', method: '4pl', note: '' }
+  // The cutoff is not crossed within the series: censor at the end the fitted curve stays on.
+  if (eval4pl(fit.params, maxDil) >= cutoff) {
+    return { titer: maxDil, qualifier: '>', method: '4pl', note: 'Fitted curve stays above the cutoff.' }
+  }
+  if (eval4pl(fit.params, minDil) < cutoff) {
+    return { titer: minDil, qualifier: '<', method: '4pl', note: 'Fitted curve stays below the cutoff.' }
+  }
+  return null
+}
+
+/**
+ * Endpoint titer per animal/group from sample wells in dilution series. Wells without a positive
+ * dilution factor are skipped. A titer above the highest or below the lowest dilution is reported as
+ * that bound with a '>' or '<' qualifier. The 4PL method needs four readable dilutions and falls back
+ * to interpolation when the fit fails.
+ */
+export const endpointTiters = (wells: TiterWell[], cutoff: number, method: TiterMethod): TiterResult[] => {
+  const groups = new Map<string, TiterWell[]>()
+  for (const w of wells) {
+    if (!isFiniteNumber(w.dilutionFactor) || w.dilutionFactor <= 0) continue
+    const key = `${w.animalId}||${w.group}`
+    groups.set(key, [...(groups.get(key) ?? []), w])
+  }
+
+  const out: TiterResult[] = []
+  for (const series of groups.values()) {
+    const points = seriesPoints(series, cutoff)
+    const base = { animalId: series[0].animalId, group: series[0].group, points }
+    if (points.length < 2) {
+      out.push({ ...base, titer: null, qualifier: '', method: null, note: 'Needs at least two dilutions.' })
+      continue
+    }
+    const fitted = method === '4pl' ? fitTiter(points, cutoff) : null
+    const result = fitted ?? interpolateTiter(points, cutoff)
+    out.push({
+      ...base,
+      ...result,
+      note: method === '4pl' && !fitted ? ['4PL fit failed; interpolated.', result.note].filter(Boolean).join(' ') : result.note,
+    })
+  }
+  out.sort((a, b) => a.animalId.localeCompare(b.animalId) || a.group.localeCompare(b.group))
+  return out
+}
+
+// Titer as reported, e.g. ">3200" for a censored series.
+export const formatTiter = (result: Pick<TiterResult, 'titer' | 'qualifier'>): string =>
+  result.titer === null ? '' : `${result.qualifier}${Math.round(result.titer)}`
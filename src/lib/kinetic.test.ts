@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { parseElisaReaderText } from './elisaReader'
+import { fitKineticRate, kineticRates, parseTimeSec, rateReadings } from './kinetic'
+import { letteredMatrix, WELL_IDS } from './readerTestPlates.test-utils'
+
+// Each well rises linearly at (row + 1) * 0.01 OD/min from a 0.05 background.
+const od = (r: number, tSec: number) => 0.05 + (r + 1) * 0.01 * (tSec / 60)
+
+describe('kinetic', () => {
+  it('parses reader time stamps', () => {
+    expect(parseTimeSec('0:00:30')).toBe(30)
+    expect(parseTimeSec('1:30')).toBe(90)
+    expect(parseTimeSec('45')).toBe(45)
+    expect(parseTimeSec('0.5 min')).toBe(30)
+    expect(parseTimeSec('A1')).toBeNull()
+  })
+
+  it('fits the slope inside the window only', () => {
+    const times = [0, 30, 60, 90, 120, 150]
+    // Linear for the first 90 s, then plateaus.
+    const values = [0.1, 0.2, 0.3, 0.4, 0.41, 0.41]
+    const rate = fitKineticRate(times, values, { startSec: 0, endSec: 90 })
+    expect(rate).not.toBeNull()
+    expect(rate!.n).toBe(4)
+    expect(rate!.slopePerMin).toBeCloseTo(0.2, 6)
+    expect(rate!.r2).toBeCloseTo(1, 6)
+    expect(fitKineticRate(times, values, { startSec: 100, endSec: 110 })).toBeNull()
+  })
+
+  it('parses well-per-column kinetic tables and feeds rates downstream', () => {
+    const times = [0, 30, 60, 90, 120]
+    const stamp = (t: number) => `0:${String(Math.floor(t / 60)).padStart(2, '0')}:${String(t % 60).padStart(2, '0')}`
+    const text = [
+      'Read 1:450',
+      ['Time', 'T° 450', ...WELL_IDS].join('\t'),
+      ...times.map((t) => [stamp(t), '25.0', ...WELL_IDS.map((_, i) => od(Math.floor(i / 12), t).toFixed(4))].join('\t')),
+    ].join('\n')
+
+    const parsed = parseElisaReaderText(text, { wavelengths: { primary: 450, reference: null } })
+    expect(parsed.parser).toBe('kinetic')
+    expect(parsed.format).toBe('kinetic')
+    expect(parsed.temperatureC).toBeCloseTo(25, 6)
+    expect(parsed.kinetic?.timesSec).toEqual(times)
+    expect(parsed.wells.H1?.net).toBeCloseTo(0.05 + 0.08 * 2, 4)
+
+    const rates = kineticRates(parsed.kinetic!, { startSec: 0, endSec: 120 })
+    expect(rates.C5?.slopePerMin).toBeCloseTo(0.03, 4)
+    expect(rateReadings(parsed.wells, rates, parsed.kinetic!, { startSec: 0, endSec: 120 }).C5?.net).toBeCloseTo(0.03, 4)
+  })
+
+  it('flags wells that overflow during the read', () => {
+    const times = [0, 30, 60, 90, 120]
+    const text = [
+      ['Time', 'A1', 'A2'].join('\t'),
+      ...times.map((t) => [`${t} s`, t >= 90 ? 'OVRFLW' : od(0, t).toFixed(4), od(1, t).toFixed(4)].join('\t')),
+    ].join('\n')
+
+    const parsed = parseElisaReaderText(text)
+    expect(parsed.parser).toBe('kinetic')
+    expect(parsed.kinetic?.traces.A1?.slice(3)).toEqual([null, null])
+    expect(parsed.kinetic?.statuses.A1?.slice(3)).toEqual(['saturated', 'saturated'])
+    expect(parsed.wells.A1).toMatchObject({ net: null, status: 'saturated' })
+    expect(parsed.wells.A2).toMatchObject({ status: 'ok' })
+
+    const series = parsed.kinetic!
+    const full = { startSec: 0, endSec: 120 }
+    const early = { startSec: 0, endSec: 60 }
+    expect(rateReadings(parsed.wells, kineticRates(series, full), series, full).A1).toMatchObject({
+      net: null,
+      status: 'saturated',
+    })
+    const before = rateReadings(parsed.wells, kineticRates(series, early), series, early).A1
+    expect(before?.status).toBe('ok')
+    expect(before?.net).toBeCloseTo(0.01, 4)
+  })
+
+  it('parses stacked plate blocks titled with their read time', () => {
+    const block = (tSec: number) => [`Time: ${tSec} s`, ...letteredMatrix((r) => od(r, tSec).toFixed(4))].join('\n')
+    const text = ['Kinetic read', block(60), '', block(0), '', block(120)].join('\n')
+
+    const parsed = parseElisaReaderText(text)
+    expect(parsed.parser).toBe('kinetic')
+    expect(parsed.kinetic?.timesSec).toEqual([0, 60, 120])
+    expect(parsed.warnings[0]).toContain('450 nm')
+    const rate = fitKineticRate(parsed.kinetic!.timesSec, parsed.kinetic!.traces.B7 ?? [], { startSec: 0, endSec: 120 })
+    expect(rate?.slopePerMin).toBeCloseTo(0.02, 4)
+  })
+})
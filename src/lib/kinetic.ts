@@ -0,0 +1,107 @@
+import type { ElisaWellReading, KineticSeries } from './elisaReader'
+import type { WellId } from './plateFormat'
+import { worstStatus } from './readerGrid'
+
+// Inclusive fit window for kinetic rates, in seconds from the first read.
+export type KineticWindow = {
+  startSec: number
+  endSec: number
+}
+
+export type KineticRate = {
+  slopePerMin: number // OD/min over the window (Vmax)
+  intercept: number // OD at t = 0
+  r2: number
+  n: number
+}
+
+// Accepts reader time stamps: "0:00:30" (h:mm:ss), "1:30" (m:ss), "30", "30 s", "0.5 min", "1 h".
+export const parseTimeSec = (raw: string): number | null => {
+  const s = raw.trim()
+  if (!s) return null
+
+  const hms = /^(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/.exec(s)
+  if (hms) return Number(hms[1]) * 3600 + Number(hms[2]) * 60 + Number(hms[3])
+
+  const ms = /^(\d+):(\d{1,2}(?:\.\d+)?)$/.exec(s)
+  if (ms) return Number(ms[1]) * 60 + Number(ms[2])
+
+  const unit = /^(\d+(?:\.\d+)?)\s*(s|secs?|seconds?|m|mins?|minutes?|h|hrs?|hours?)?$/i.exec(s)
+  if (!unit) return null
+  const value = Number(unit[1])
+  const u = (unit[2] ?? 's').toLowerCase()
+  if (u.startsWith('h')) return value * 3600
+  if (u.startsWith('m')) return value * 60
+  return value
+}
+
+export const defaultKineticWindow = (series: KineticSeries): KineticWindow => ({
+  startSec: series.timesSec[0] ?? 0,
+  endSec: series.timesSec[series.timesSec.length - 1] ?? 0,
+})
+
+// Least-squares slope of one trace over the window; needs at least two readings inside it.
+export const fitKineticRate = (
+  timesSec: number[],
+  values: (number | null)[],
+  window: KineticWindow
+): KineticRate | null => {
+  const xs: number[] = []
+  const ys: number[] = []
+  timesSec.forEach((t, idx) => {
+    const v = values[idx]
+    if (t < window.startSec || t > window.endSec) return
+    if (v === null || v === undefined || !Number.isFinite(v)) return
+    xs.push(t / 60)
+    ys.push(v)
+  })
+
+  const n = xs.length
+  if (n < 2) return null
+  const mx = xs.reduce((acc, v) => acc + v, 0) / n
+  const my = ys.reduce((acc, v) => acc + v, 0) / n
+  let sxx = 0
+  let sxy = 0
+  let syy = 0
+  for (let i = 0; i < n; i += 1) {
+    sxx += (xs[i] - mx) ** 2
+    sxy += (xs[i] - mx) * (ys[i] - my)
+    syy += (ys[i] - my) ** 2
+  }
+  if (sxx === 0) return null
+
+  const slopePerMin = sxy / sxx
+  const intercept = my - slopePerMin * mx
+  const r2 = syy === 0 ? Number.NaN : (sxy * sxy) / (sxx * syy)
+  return { slopePerMin, intercept, r2, n }
+}
+
+export const kineticRates = (series: KineticSeries, window: KineticWindow): Partial<Record<WellId, KineticRate>> => {
+  const out: Partial<Record<WellId, KineticRate>> = {}
+  for (const [wellId, trace] of Object.entries(series.traces)) {
+    if (!trace) continue
+    const rate = fitKineticRate(series.timesSec, trace, window)
+    if (rate) out[wellId] = rate
+  }
+  return out
+}
+
+// Swaps each well's net signal for its rate so the curve fit and quantification run on Vmax. The
+// status is the worst one inside the fit window: a well that overflows there is saturated, with no rate.
+export const rateReadings = (
+  endpoint: Partial<Record<WellId, ElisaWellReading>>,
+  rates: Partial<Record<WellId, KineticRate>>,
+  series: KineticSeries,
+  window: KineticWindow
+): Partial<Record<WellId, ElisaWellReading>> => {
+  const out: Partial<Record<WellId, ElisaWellReading>> = {}
+  for (const [wellId, reading] of Object.entries(endpoint)) {
+    if (!reading) continue
+    const flags = series.statuses[wellId] ?? []
+    const status = worstStatus(
+      flags.filter((_, idx) => series.timesSec[idx] >= window.startSec && series.timesSec[idx] <= window.endSec)
+    )
+    out[wellId] = { ...reading, net: status === 'ok' ? rates[wellId]?.slopePerMin ?? null : null, status }
+  }
+  return out
+}
@@ -1,9 +1,21 @@
-import { plate96WellIds, type WellId96 } from './plate96'
+import { DEFAULT_PLATE_FORMAT, type PlateFormat, type WellId } from './plateFormat'
+import type { ReaderMetadata } from './readerMetadata'
 
-export type WellType = 'Empty' | 'Sample' | 'Standard' | 'Blank'
+// Controls of qualitative kits: the cutoff calibrator and the positive and negative controls.
+export type ControlWellType = 'Cutoff' | 'Positive' | 'Negative'
+
+export type WellType = 'Empty' | 'Sample' | 'Standard' | 'Blank' | ControlWellType
+
+export const CONTROL_WELL_LABELS: Record<ControlWellType, string> = {
+  Cutoff: 'Cutoff calibrator',
+  Positive: 'Positive control',
+  Negative: 'Negative control',
+}
+
+export const isControlWell = (type: WellType): type is ControlWellType => type in CONTROL_WELL_LABELS
 
 export type WellAssignment = {
-  wellId: WellId96
+  wellId: WellId
   type: WellType
   keep: boolean
 
@@ -17,11 +29,31 @@ export type WellAssignment = {
   standardLevel?: string
 }
 
-export const emptyLayout96 = (): Record<WellId96, WellAssignment> => {
-  const wells = {} as Record<WellId96, WellAssignment>
-  for (const wellId of plate96WellIds) {
+export type PlateLayout = Record<WellId, WellAssignment>
+
+export const emptyLayout = (format: PlateFormat): PlateLayout => {
+  const wells: PlateLayout = {}
+  for (const wellId of format.wellIds) {
     wells[wellId] = { wellId, type: 'Empty', keep: true }
   }
   return wells
 }
 
+export const emptyLayout96 = (): PlateLayout => emptyLayout(DEFAULT_PLATE_FORMAT)
+
+// One plate of a multi-plate run: its own layout, analysed against one block of the shared reader file.
+export type RunPlate = {
+  name: string
+  wells: PlateLayout
+  // Index into the parsed reader plates; null falls back to the plate's position in the run.
+  readerBlock: number | null
+  // Metadata of the assigned reader block, kept with the run record.
+  readerMetadata: ReaderMetadata | null
+}
+
+export const newRunPlate = (format: PlateFormat, index: number): RunPlate => ({
+  name: `Plate ${index + 1}`,
+  wells: emptyLayout(format),
+  readerBlock: null,
+  readerMetadata: null,
+})
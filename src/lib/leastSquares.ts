@@ -0,0 +1,73 @@
+// Numerics shared by the least-squares curve fits (polynomial, 4PL and 5PL).
+
+export const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v))
+
+// Weighted R² when weights are given (weighted mean and sums of squares).
+export const r2Score = (y: number[], yHat: number[], w?: number[]): number => {
+  const wt = (i: number) => w?.[i] ?? 1
+  let sumW = 0
+  let sumWY = 0
+  for (let i = 0; i < y.length; i += 1) {
+    sumW += wt(i)
+    sumWY += wt(i) * y[i]
+  }
+  const mean = sumWY / sumW
+  let ssTot = 0
+  let ssRes = 0
+  for (let i = 0; i < y.length; i += 1) {
+    ssTot += wt(i) * (y[i] - mean) ** 2
+    ssRes += wt(i) * (y[i] - yHat[i]) ** 2
+  }
+  return ssTot === 0 ? Number.NaN : 1 - ssRes / ssTot
+}
+
+// Gauss–Jordan elimination with partial pivoting; null for a (near-)singular system.
+export const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+  const n = A.length
+  // Augment matrix
+  const M = A.map((row, i) => [...row, b[i]])
+
+  for (let col = 0; col < n; col += 1) {
+    // Partial pivot
+    let pivotRow = col
+    for (let r = col + 1; r < n; r += 1) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivotRow][col])) pivotRow = r
+    }
+    if (Math.abs(M[pivotRow][col]) < 1e-12) return null
+    if (pivotRow !== col) {
+      const tmp = M[col]
+      M[col] = M[pivotRow]
+      M[pivotRow] = tmp
+    }
+
+    // Normalize pivot row
+    const pivot = M[col][col]
+    for (let c = col; c <= n; c += 1) M[col][c] /= pivot
+
+    // Eliminate
+    for (let r = 0; r < n; r += 1) {
+      if (r === col) continue
+      const factor = M[r][col]
+      if (Math.abs(factor) < 1e-12) continue
+      for (let c = col; c <= n; c += 1) {
+        M[r][c] -= factor * M[col][c]
+      }
+    }
+  }
+
+  return M.map((row) => row[n])
+}
+
+export const invertMatrix = (A: number[][]): number[][] | null => {
+  const n = A.length
+  const cols: number[][] = Array.from({ length: n }, () => [])
+  for (let j = 0; j < n; j += 1) {
+    const col = solveLinearSystem(
+      A,
+      A.map((_, i) => (i === j ? 1 : 0))
+    )
+    if (!col) return null
+    for (let i = 0; i < n; i += 1) cols[i][j] = col[i]
+  }
+  return cols
+}
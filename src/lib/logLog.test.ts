@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { concInterval } from './concInterval'
+import { evalLogLog, fitLogLog, invertLogLog } from './logLog'
+
+describe('logLog', () => {
+  it('recovers a power law and inverts it exactly', () => {
+    const params = { intercept: -1.2, slope: 0.8 }
+    const x = [1, 3, 10, 30, 100]
+    const y = x.map((v) => evalLogLog(params, v))
+
+    const fit = fitLogLog(x, y)
+    expect(fit).not.toBeNull()
+    expect(fit!.params.intercept).toBeCloseTo(-1.2, 10)
+    expect(fit!.params.slope).toBeCloseTo(0.8, 10)
+    expect(invertLogLog(fit!.params, evalLogLog(params, 7), 1, 100)).toBeCloseTo(7, 8)
+    expect(invertLogLog(fit!.params, evalLogLog(params, 700), 1, 100)).toBeNull()
+  })
+
+  it('skips non-positive signals and gives a positive interval', () => {
+    const x = [0.5, 1, 3, 10, 30, 100]
+    const y = [-0.01, 0.064, 0.15, 0.41, 0.98, 2.6]
+    const fit = fitLogLog(x, y)!
+    expect(fit.n).toBe(5)
+
+    const conc = invertLogLog(fit.params, 0.5, 1, 100)!
+    const ci = concInterval({ kind: 'loglog', fit }, conc)
+    expect(ci).not.toBeNull()
+    expect(ci!.lower).toBeGreaterThan(0)
+    expect(ci!.lower).toBeLessThan(conc)
+    expect(ci!.upper).toBeGreaterThan(conc)
+  })
+})
@@ -0,0 +1,62 @@
+import { fitPolynomial, type PolyStats } from './polynomial'
+
+export type LogLogParams = {
+  // log10(y) = intercept + slope * log10(x)
+  intercept: number
+  slope: number
+}
+
+// r2, sse and stats are in log10 units, where the line is fitted.
+export type LogLogFit = {
+  params: LogLogParams
+  r2: number
+  sse: number
+  n: number
+  stats: PolyStats | null
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+
+export const evalLogLog = (params: LogLogParams, xConc: number): number => {
+  const x = xConc > 0 ? xConc : 1e-12
+  return 10 ** (params.intercept + params.slope * Math.log10(x))
+}
+
+export const invertLogLog = (params: LogLogParams, y: number, minConc: number, maxConc: number): number | null => {
+  const { intercept, slope } = params
+  if (!isFiniteNumber(y) || y <= 0) return null
+  if (!isFiniteNumber(intercept) || !isFiniteNumber(slope) || Math.abs(slope) < 1e-12) return null
+  if (!isFiniteNumber(minConc) || !isFiniteNumber(maxConc) || maxConc <= minConc) return null
+
+  const conc = 10 ** ((Math.log10(y) - intercept) / slope)
+  if (!Number.isFinite(conc)) return null
+  if (conc < minConc || conc > maxConc) return null
+  return conc
+}
+
+/**
+ * Straight-line fit of log10(y) on log10(x). Points with x <= 0 or y <= 0 have no logarithm and
+ * are left out. Optional weights are aligned with x/y and apply to the log10 residuals; standard
+ * curves pass none (see fitWeighting).
+ */
+export const fitLogLog = (xConc: number[], y: number[], weights?: number[]): LogLogFit | null => {
+  const u: number[] = []
+  const v: number[] = []
+  const w: number[] = []
+  for (let i = 0; i < Math.min(xConc.length, y.length); i += 1) {
+    if (!isFiniteNumber(xConc[i]) || xConc[i] <= 0) continue
+    if (!isFiniteNumber(y[i]) || y[i] <= 0) continue
+    u.push(Math.log10(xConc[i]))
+    v.push(Math.log10(y[i]))
+    w.push(weights ? weights[i] : 1)
+  }
+  const fit = fitPolynomial(u, v, 1, w)
+  if (!fit) return null
+  return {
+    params: { intercept: fit.coeff[0], slope: fit.coeff[1] },
+    r2: fit.r2,
+    sse: fit.sse,
+    n: fit.n,
+    stats: fit.stats,
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { eval4pl, fit4pl, invert4pl } from './logistic4pl'
+import { eval4pl, fit4pl, FOUR_PL_PARAM_NAMES, invert4pl } from './logistic4pl'
 
 describe('logistic4pl', () => {
   it('fits a noiseless increasing 4PL curve', () => {
@@ -43,5 +43,77 @@ describe('logistic4pl', () => {
       expect(yHat[i]).toBeCloseTo(y[i], 3)
     }
   })
-})
 
+  it('keeps the requested direction', () => {
+    const trueParams = { A: 2.2, D: 0.05, C: 1.0, B: 1.2 }
+    const x = [0.1, 0.3, 1, 3, 10, 30, 100]
+    const y = x.map((v) => eval4pl(trueParams, v))
+
+    const down = fit4pl(x, y, { restarts: 3, maxIter: 160, constraints: { direction: 'decreasing' } })
+    expect(down).not.toBeNull()
+    expect(down!.params.D).toBeLessThan(down!.params.A)
+    expect(down!.r2).toBeCloseTo(1, 6)
+
+    const up = fit4pl(x, y, { restarts: 3, maxIter: 160, constraints: { direction: 'increasing' } })
+    // A rising curve cannot follow falling data; the best it can do is flat.
+    expect(up).not.toBeNull()
+    expect(up!.params.D).toBeGreaterThanOrEqual(up!.params.A)
+    expect(up!.r2).toBeLessThan(0.1)
+  })
+
+  it('reports parameter standard errors, 95% CIs and covariance', () => {
+    const trueParams = { A: 0.05, D: 2.2, C: 1.0, B: 1.2 }
+    const x = [0.1, 0.3, 1, 3, 10, 30, 100, 0.1, 0.3, 1, 3, 10, 30, 100]
+    // Deterministic, alternating noise so the fit has residual degrees of freedom.
+    const noise = [0.02, -0.015, 0.01, -0.02, 0.025, -0.01, 0.015, -0.02, 0.015, -0.01, 0.02, -0.025, 0.01, -0.015]
+    const y = x.map((v, i) => eval4pl(trueParams, v) + noise[i])
+
+    const fit = fit4pl(x, y)
+    const stats = fit!.stats
+    expect(stats).not.toBeNull()
+    expect(stats!.df).toBe(x.length - 4)
+    expect(stats!.sigma).toBeCloseTo(Math.sqrt(fit!.sse / stats!.df), 12)
+    for (const name of FOUR_PL_PARAM_NAMES) {
+      expect(stats!.se[name]).toBeGreaterThan(0)
+      const [lo, hi] = stats!.ci95[name]
+      expect(lo).toBeLessThan(trueParams[name])
+      expect(hi).toBeGreaterThan(trueParams[name])
+    }
+    FOUR_PL_PARAM_NAMES.forEach((name, i) => {
+      expect(stats!.cov[i][i]).toBeCloseTo(stats!.se[name] ** 2, 12)
+      FOUR_PL_PARAM_NAMES.forEach((_, j) => expect(stats!.cov[i][j]).toBeCloseTo(stats!.cov[j][i], 12))
+    })
+  })
+
+  it('has no fit statistics without residual degrees of freedom', () => {
+    const params = { A: 0.05, D: 2.2, C: 1.0, B: 1.2 }
+    const x = [0.1, 1, 10, 100]
+    const fit = fit4pl(
+      x,
+      x.map((v) => eval4pl(params, v))
+    )
+    expect(fit).not.toBeNull()
+    expect(fit!.stats).toBeNull()
+  })
+
+  it('holds fixed asymptotes and keeps B and C within bounds', () => {
+    const trueParams = { A: 0.05, D: 2.2, C: 1.0, B: 1.2 }
+    const x = [0.3, 1, 3, 10, 30]
+    const noise = [0.02, -0.015, 0.01, -0.02, 0.025]
+    const y = x.map((v, i) => eval4pl(trueParams, v) + noise[i])
+
+    const fixed = fit4pl(x, y, { constraints: { fixedA: 0, fixedD: 2.2 } })
+    expect(fixed!.params.A).toBe(0)
+    expect(fixed!.params.D).toBe(2.2)
+    expect(fixed!.fixed).toEqual(['A', 'D'])
+    expect(fixed!.stats!.df).toBe(x.length - 2)
+    expect(fixed!.stats!.se.A).toBe(0)
+    expect(fixed!.stats!.se.C).toBeGreaterThan(0)
+
+    const bounded = fit4pl(x, y, { constraints: { maxB: 0.8, minC: 1.2 } })
+    expect(bounded!.params.B).toBeLessThanOrEqual(0.8 + 1e-12)
+    expect(bounded!.params.C).toBeGreaterThanOrEqual(1.2)
+    expect(bounded!.fixed).toEqual([])
+    expect(fit4pl(x, y, { constraints: { minB: 2, maxB: 1 } })).toBeNull()
+  })
+})
@@ -1,67 +1,60 @@
+import { clamp, invertMatrix, r2Score, solveLinearSystem } from './leastSquares'
+import { studentTQuantile } from './stats'
+
 export type FourPLParams = {
   // y = A + (D - A) / (1 + 10^((C - log10(x)) * B))
   // x is concentration (must be > 0), C is log10(EC50), B is Hill slope (> 0).
+  // A is the response at zero and D at infinite concentration, so D < A for a decreasing (competitive) curve.
   A: number
   D: number
   C: number
   B: number
 }
 
+export type FourPLParamName = 'A' | 'B' | 'C' | 'D'
+
+export const FOUR_PL_PARAM_NAMES: FourPLParamName[] = ['A', 'B', 'C', 'D']
+
+// Asymptotic (linearised) statistics at the converged fit: cov = s² (JᵀWJ)⁻¹ with s² = SSE / df.
+// C is log10(EC50), so its SE and CI are in log10 units.
+export type FourPLStats = {
+  // Residual degrees of freedom, n minus the free parameters.
+  df: number
+  // Residual standard error, sqrt(SSE / df).
+  sigma: number
+  se: Record<FourPLParamName, number>
+  ci95: Record<FourPLParamName, [number, number]>
+  // Rows and columns in FOUR_PL_PARAM_NAMES order; fixed parameters have zero rows and columns.
+  cov: number[][]
+}
+
+// Optional constraints: fixed asymptotes, bounds on the Hill slope B and on C (log10 EC50), and the
+// curve direction (D > A when increasing). Without a direction it follows the trend of the data.
+export type FourPLConstraints = {
+  direction?: 'increasing' | 'decreasing'
+  fixedA?: number
+  fixedD?: number
+  minB?: number
+  maxB?: number
+  minC?: number
+  maxC?: number
+}
+
+// With weights, r2 and sse are the weighted R² and weighted sum of squared residuals.
 export type FourPLFit = {
   params: FourPLParams
   r2: number
   sse: number
   n: number
+  // Parameters held at a constraint value rather than estimated.
+  fixed: FourPLParamName[]
+  // Null without residual degrees of freedom or when JᵀWJ is singular.
+  stats: FourPLStats | null
 }
 
 const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
 const LN10 = Math.log(10)
 
-const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v))
-
-const r2Score = (y: number[], yHat: number[]): number => {
-  const mean = y.reduce((acc, v) => acc + v, 0) / y.length
-  let ssTot = 0
-  let ssRes = 0
-  for (let i = 0; i < y.length; i += 1) {
-    ssTot += (y[i] - mean) ** 2
-    ssRes += (y[i] - yHat[i]) ** 2
-  }
-  return ssTot === 0 ? Number.NaN : 1 - ssRes / ssTot
-}
-
-const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
-  const n = A.length
-  const M = A.map((row, i) => [...row, b[i]])
-
-  for (let col = 0; col < n; col += 1) {
-    let pivotRow = col
-    for (let r = col + 1; r < n; r += 1) {
-      if (Math.abs(M[r][col]) > Math.abs(M[pivotRow][col])) pivotRow = r
-    }
-    if (Math.abs(M[pivotRow][col]) < 1e-12) return null
-    if (pivotRow !== col) {
-      const tmp = M[col]
-      M[col] = M[pivotRow]
-      M[pivotRow] = tmp
-    }
-
-    const pivot = M[col][col]
-    for (let c = col; c <= n; c += 1) M[col][c] /= pivot
-
-    for (let r = 0; r < n; r += 1) {
-      if (r === col) continue
-      const factor = M[r][col]
-      if (Math.abs(factor) < 1e-12) continue
-      for (let c = col; c <= n; c += 1) {
-        M[r][c] -= factor * M[col][c]
-      }
-    }
-  }
-
-  return M.map((row) => row[n])
-}
-
 export const eval4plLogX = (params: FourPLParams, xLog10: number): number => {
   const { A, D, C, B } = params
   const t = (C - xLog10) * B
@@ -97,11 +90,85 @@ export const invert4pl = (params: FourPLParams, y: number, minConc: number, maxC
   return conc
 }
 
+// Parameter vector used by the optimiser: [A, D, C, b] where B = exp(b) keeps B > 0.
+const evalModel = (pp: number[], xLog: number) => {
+  const A = pp[0]
+  const D = pp[1]
+  const C = pp[2]
+  const B = Math.exp(clamp(pp[3], -4, 4))
+  return eval4plLogX({ A, D, C, B }, xLog)
+}
+
+// Numerical Jacobian of the model output (df/dp) at each x.
+const jacobian = (p: number[], xLogs: number[]): number[][] => {
+  const J: number[][] = Array.from({ length: xLogs.length }, () => [0, 0, 0, 0])
+  for (let j = 0; j < 4; j += 1) {
+    // Use a relative step size; absolute steps can be too small (poor numerical gradients)
+    // or too large (nonlinear regime), depending on parameter scale.
+    const dp = 1e-4 * (Math.abs(p[j]) + 1)
+    const ppPlus = [...p]
+    const ppMinus = [...p]
+    ppPlus[j] += dp
+    ppMinus[j] -= dp
+    for (let i = 0; i < xLogs.length; i += 1) {
+      J[i][j] = (evalModel(ppPlus, xLogs[i]) - evalModel(ppMinus, xLogs[i])) / (2 * dp)
+    }
+  }
+  return J
+}
+
+// Covariance from the Jacobian at the optimum, mapped from [A, D, C, b] to A, B, C, D (dB/db = B).
+// Only the free parameters (mask in [A, D, C, b] order) enter JᵀWJ; fixed ones get zero covariance.
+const fitStats = (p: number[], xLogs: number[], weights: number[], sse: number, free: boolean[]): FourPLStats | null => {
+  const idx = [0, 1, 2, 3].filter((j) => free[j])
+  const df = xLogs.length - idx.length
+  if (df <= 0) return null
+  const J = jacobian(p, xLogs)
+  const JTJ: number[][] = idx.map(() => idx.map(() => 0))
+  for (let i = 0; i < J.length; i += 1) {
+    idx.forEach((j, a) => {
+      idx.forEach((k, b) => {
+        JTJ[a][b] += weights[i] * J[i][j] * J[i][k]
+      })
+    })
+  }
+  const invFree = invertMatrix(JTJ)
+  if (!invFree) return null
+  const inv: number[][] = Array.from({ length: 4 }, () => [0, 0, 0, 0])
+  idx.forEach((j, a) => {
+    idx.forEach((k, b) => {
+      inv[j][k] = invFree[a][b]
+    })
+  })
+
+  const s2 = sse / df
+  const B = Math.exp(clamp(p[3], -4, 4))
+  // Index into p and the chain-rule factor for each named parameter.
+  const source: Record<FourPLParamName, [number, number]> = { A: [0, 1], B: [3, B], C: [2, 1], D: [1, 1] }
+  const cov = FOUR_PL_PARAM_NAMES.map((r) =>
+    FOUR_PL_PARAM_NAMES.map((c) => s2 * inv[source[r][0]][source[c][0]] * source[r][1] * source[c][1])
+  )
+  if (!cov.every((row) => row.every(isFiniteNumber))) return null
+
+  const values: Record<FourPLParamName, number> = { A: p[0], B, C: p[2], D: p[1] }
+  const t = studentTQuantile(0.975, df) ?? Number.NaN
+  const se = {} as Record<FourPLParamName, number>
+  const ci95 = {} as Record<FourPLParamName, [number, number]>
+  FOUR_PL_PARAM_NAMES.forEach((name, i) => {
+    se[name] = Math.sqrt(Math.max(0, cov[i][i]))
+    ci95[name] = [values[name] - t * se[name], values[name] + t * se[name]]
+  })
+  return { df, sigma: Math.sqrt(s2), se, ci95, cov }
+}
+
 type FitOptions = {
   maxIter?: number
   lambda0?: number
   tol?: number
   restarts?: number
+  // Per-point weights aligned with x/y (see curveWeights); points with a weight <= 0 are left out.
+  weights?: number[]
+  constraints?: FourPLConstraints
 }
 
 export const fit4pl = (xConc: number[], y: number[], opts: FitOptions = {}): FourPLFit | null => {
@@ -109,23 +176,36 @@ export const fit4pl = (xConc: number[], y: number[], opts: FitOptions = {}): Fou
   const tol = opts.tol ?? 1e-10
   const lambda0 = opts.lambda0 ?? 1e-2
   const restarts = opts.restarts ?? 3
+  const cons = opts.constraints ?? {}
+  // Free-parameter mask in optimiser order [A, D, C, b].
+  const free = [cons.fixedA === undefined, cons.fixedD === undefined, true, true]
+  const fixed = FOUR_PL_PARAM_NAMES.filter((name) => (name === 'A' && !free[0]) || (name === 'D' && !free[1]))
 
-  const clean: Array<{ xLog: number; y: number }> = []
+  const clean: Array<{ xLog: number; y: number; w: number }> = []
   for (let i = 0; i < Math.min(xConc.length, y.length); i += 1) {
     const xc = xConc[i]
     const yi = y[i]
+    const wi = opts.weights ? opts.weights[i] : 1
     if (!isFiniteNumber(xc) || xc <= 0) continue
     if (!isFiniteNumber(yi)) continue
-    clean.push({ xLog: Math.log10(xc), y: yi })
+    if (!isFiniteNumber(wi) || wi <= 0) continue
+    clean.push({ xLog: Math.log10(xc), y: yi, w: wi })
   }
-  if (clean.length < 4) return null
+  if (clean.length < free.filter(Boolean).length) return null
 
   const xs = clean.map((p) => p.xLog)
   const ys = clean.map((p) => p.y)
+  const ws = clean.map((p) => p.w)
   const minX = Math.min(...xs)
   const maxX = Math.max(...xs)
-
-  // Determine direction from a rough linear trend in log space.
+  // Without bounds, C stays within 2 decades of the data and b within ±4 (B from 0.018 to 55).
+  const cLo = cons.minC ?? minX - 2
+  const cHi = cons.maxC ?? maxX + 2
+  const bLo = cons.minB !== undefined ? Math.max(-4, Math.log(cons.minB)) : -4
+  const bHi = cons.maxB !== undefined ? Math.min(4, Math.log(cons.maxB)) : 4
+  if (!(cLo <= cHi) || !(bLo <= bHi)) return null
+
+  // Direction from the constraint, or from a rough linear trend in log space.
   const xMean = xs.reduce((a, v) => a + v, 0) / xs.length
   const yMean = ys.reduce((a, v) => a + v, 0) / ys.length
   let cov = 0
@@ -134,12 +214,12 @@ export const fit4pl = (xConc: number[], y: number[], opts: FitOptions = {}): Fou
     cov += (xs[i] - xMean) * (ys[i] - yMean)
     varx += (xs[i] - xMean) ** 2
   }
-  const slopeSign = varx > 0 ? Math.sign(cov / varx) : 1
+  const slopeSign = cons.direction ? (cons.direction === 'increasing' ? 1 : -1) : varx > 0 ? Math.sign(cov / varx) : 1
 
   const yMin = Math.min(...ys)
   const yMax = Math.max(...ys)
-  const A0 = slopeSign >= 0 ? yMin : yMax
-  const D0 = slopeSign >= 0 ? yMax : yMin
+  const A0 = cons.fixedA ?? (slopeSign >= 0 ? yMin : yMax)
+  const D0 = cons.fixedD ?? (slopeSign >= 0 ? yMax : yMin)
   const mid = (A0 + D0) / 2
   let C0 = xs[Math.floor(xs.length / 2)]
   let bestMid = Number.POSITIVE_INFINITY
@@ -154,26 +234,18 @@ export const fit4pl = (xConc: number[], y: number[], opts: FitOptions = {}): Fou
   const BGuesses = [0.6, 1.0, 1.8, 3.0].slice(0, Math.max(1, restarts))
 
   let bestFit: FourPLFit | null = null
+  let bestP: number[] | null = null
 
   for (const BStart of BGuesses) {
-    // Parameter vector: [A, D, C, b] where B = exp(b) keeps B > 0.
-    let p = [A0, D0, C0, Math.log(Math.max(1e-3, BStart))]
+    let p = [A0, D0, clamp(C0, cLo, cHi), clamp(Math.log(Math.max(1e-3, BStart)), bLo, bHi)]
     let lambda = lambda0
 
-    const evalModel = (pp: number[], xLog: number) => {
-      const A = pp[0]
-      const D = pp[1]
-      const C = pp[2]
-      const B = Math.exp(clamp(pp[3], -4, 4))
-      return eval4plLogX({ A, D, C, B }, xLog)
-    }
-
     const sseFor = (pp: number[]) => {
       let sse = 0
       for (let i = 0; i < clean.length; i += 1) {
         const yHat = evalModel(pp, clean[i].xLog)
         const r = clean[i].y - yHat
-        sse += r * r
+        sse += clean[i].w * r * r
       }
       return sse
     }
@@ -190,47 +262,45 @@ export const fit4pl = (xConc: number[], y: number[], opts: FitOptions = {}): Fou
         r.push(clean[i].y - yh)
       }
 
-      // Numerical Jacobian for predictions.
-      const J: number[][] = Array.from({ length: clean.length }, () => [0, 0, 0, 0])
-      for (let j = 0; j < 4; j += 1) {
-        // Use a relative step size; absolute steps can be too small (poor numerical gradients)
-        // or too large (nonlinear regime), depending on parameter scale.
-        const dp = 1e-4 * (Math.abs(p[j]) + 1)
-        const ppPlus = [...p]
-        const ppMinus = [...p]
-        ppPlus[j] += dp
-        ppMinus[j] -= dp
-        for (let i = 0; i < clean.length; i += 1) {
-          const yhPlus = evalModel(ppPlus, clean[i].xLog)
-          const yhMinus = evalModel(ppMinus, clean[i].xLog)
-          const dy = (yhPlus - yhMinus) / (2 * dp)
-          // Jacobian of the model output: df/dp.
-          J[i][j] = dy
-        }
-      }
+      const J = jacobian(p, xs)
 
-      // Build JTJ and JTr.
+      // Build JTWJ and JTWr (W = diag(weights)).
       const JTJ: number[][] = Array.from({ length: 4 }, () => [0, 0, 0, 0])
       const JTr: number[] = [0, 0, 0, 0]
       for (let i = 0; i < clean.length; i += 1) {
+        const w = clean[i].w
         for (let j = 0; j < 4; j += 1) {
-          JTr[j] += J[i][j] * r[i]
+          JTr[j] += w * J[i][j] * r[i]
           for (let k = 0; k < 4; k += 1) {
-            JTJ[j][k] += J[i][j] * J[i][k]
+            JTJ[j][k] += w * J[i][j] * J[i][k]
           }
         }
       }
 
       for (let d = 0; d < 4; d += 1) JTJ[d][d] += lambda
+      // Fixed parameters get a zero step.
+      for (let d = 0; d < 4; d += 1) {
+        if (free[d]) continue
+        for (let k = 0; k < 4; k += 1) {
+          JTJ[d][k] = d === k ? 1 : 0
+          JTJ[k][d] = d === k ? 1 : 0
+        }
+        JTr[d] = 0
+      }
 
       const delta = solveLinearSystem(JTJ, JTr)
       if (!delta) break
 
       const pCand = [p[0] + delta[0], p[1] + delta[1], p[2] + delta[2], p[3] + delta[3]]
-      // Clamp C within a reasonable range beyond the measured data.
-      pCand[2] = clamp(pCand[2], minX - 2, maxX + 2)
-      // Clamp b to keep B in a practical range.
-      pCand[3] = clamp(pCand[3], -4, 4)
+      // Clamp C and b to their bounds (by default a practical range around the data).
+      pCand[2] = clamp(pCand[2], cLo, cHi)
+      pCand[3] = clamp(pCand[3], bLo, bHi)
+      // A step that flips the required direction is rejected like one that does not improve.
+      const flipped = slopeSign > 0 ? pCand[1] <= pCand[0] : pCand[1] >= pCand[0]
+      if (cons.direction && flipped) {
+        lambda = Math.min(1e12, lambda * 10)
+        continue
+      }
 
       const sseCand = sseFor(pCand)
       const improved = sseCand + 1e-12 < curSse
@@ -252,13 +322,15 @@ export const fit4pl = (xConc: number[], y: number[], opts: FitOptions = {}): Fou
       B: Math.exp(clamp(p[3], -4, 4)),
     }
     const yHatFinal = clean.map((pt) => eval4plLogX(params, pt.xLog))
-    const r2 = r2Score(ys, yHatFinal)
-    const fit: FourPLFit = { params, r2, sse: curSse, n: clean.length }
+    const r2 = r2Score(ys, yHatFinal, ws)
+    const fit: FourPLFit = { params, r2, sse: curSse, n: clean.length, fixed, stats: null }
 
     if (!bestFit || (Number.isFinite(fit.sse) && fit.sse < bestFit.sse)) {
       bestFit = fit
+      bestP = p
     }
   }
 
+  if (bestFit && bestP) bestFit.stats = fitStats(bestP, xs, ws, bestFit.sse, free)
   return bestFit
 }
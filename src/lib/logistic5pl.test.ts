@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { eval4pl } from './logistic4pl'
+import { eval5pl, fit5pl, invert5pl } from './logistic5pl'
+
+describe('logistic5pl', () => {
+  it('reduces to the 4PL when E = 1', () => {
+    const params = { A: 0.05, D: 2.2, C: 1.0, B: 1.2 }
+    for (const x of [0.1, 3, 10, 250]) {
+      expect(eval5pl({ ...params, E: 1 }, x)).toBeCloseTo(eval4pl(params, x), 12)
+    }
+  })
+
+  it('fits a noiseless asymmetric curve better than a symmetric one can', () => {
+    const trueParams = { A: 0.08, D: 2.6, C: 1.4, B: 1.1, E: 0.45 }
+    const x = [0.1, 0.3, 1, 3, 10, 30, 100, 300]
+    const y = x.map((v) => eval5pl(trueParams, v))
+
+    const fit = fit5pl(x, y)
+    expect(fit).not.toBeNull()
+    expect(fit!.n).toBe(x.length)
+    expect(fit!.r2).toBeCloseTo(1, 6)
+    expect(fit!.params.E).toBeCloseTo(0.45, 1)
+    x.forEach((v, i) => expect(eval5pl(fit!.params, v)).toBeCloseTo(y[i], 3))
+  })
+
+  it('keeps the requested direction', () => {
+    const trueParams = { A: 2.2, D: 0.05, C: 1.0, B: 1.2, E: 0.7 }
+    const x = [0.1, 0.3, 1, 3, 10, 30, 100]
+    const y = x.map((v) => eval5pl(trueParams, v))
+
+    const down = fit5pl(x, y, { direction: 'decreasing' })
+    expect(down).not.toBeNull()
+    expect(down!.params.D).toBeLessThan(down!.params.A)
+    expect(down!.r2).toBeCloseTo(1, 4)
+
+    const up = fit5pl(x, y, { direction: 'increasing' })
+    // A rising curve cannot follow falling data; the best it can do is flat.
+    expect(up).not.toBeNull()
+    expect(up!.params.D).toBeGreaterThanOrEqual(up!.params.A)
+    expect(up!.r2).toBeLessThan(0.1)
+  })
+
+  it('inverts within the standard range only', () => {
+    const params = { A: 2.4, D: 0.05, C: 0.8, B: 1.5, E: 2.5 }
+    const y = eval5pl(params, 4)
+    expect(invert5pl(params, y, 0.1, 100)).toBeCloseTo(4, 6)
+    expect(invert5pl(params, y, 5, 100)).toBeNull()
+    expect(invert5pl(params, 2.5, 0.1, 100)).toBeNull()
+  })
+
+  it('needs five points', () => {
+    expect(fit5pl([1, 2, 3, 4], [0.1, 0.4, 0.9, 1.5])).toBeNull()
+  })
+})
@@ -0,0 +1,262 @@
+import { clamp, invertMatrix, r2Score, solveLinearSystem } from './leastSquares'
+import { fit4pl } from './logistic4pl'
+
+export type FivePLParams = {
+  // y = A + (D - A) / (1 + 10^((C - log10(x)) * B))^E
+  // Same A, D, C, B as 4PL; E (> 0) is the asymmetry factor, and E = 1 is the symmetric 4PL.
+  // C is no longer the EC50 unless E = 1.
+  A: number
+  D: number
+  C: number
+  B: number
+  E: number
+}
+
+export type FivePLParamName = 'A' | 'B' | 'C' | 'D' | 'E'
+
+export const FIVE_PL_PARAM_NAMES: FivePLParamName[] = ['A', 'B', 'C', 'D', 'E']
+
+// Asymptotic covariance at the converged fit, cov = s² (JᵀWJ)⁻¹ with s² = SSE / df, as for the 4PL.
+// Rows and columns in FIVE_PL_PARAM_NAMES order.
+export type FivePLStats = {
+  df: number
+  sigma: number
+  cov: number[][]
+}
+
+// With weights, r2 and sse are weighted as in FourPLFit.
+export type FivePLFit = {
+  params: FivePLParams
+  r2: number
+  sse: number
+  n: number
+  // Null without residual degrees of freedom, when JᵀWJ is singular, or with B or E at a bound.
+  stats: FivePLStats | null
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+const LN10 = Math.log(10)
+
+// log(E) is kept within ±3 (E between ~0.05 and ~20); beyond that the fit is chasing noise.
+const LOG_E_LIMIT = 3
+
+export const eval5plLogX = (params: FivePLParams, xLog10: number): number => {
+  const { A, D, C, B, E } = params
+  const t = (C - xLog10) * B
+  const pow = Math.exp(clamp(t, -60, 60) * LN10) // 10^t, overflow-safe
+  return A + (D - A) / (1 + pow) ** E
+}
+
+export const eval5pl = (params: FivePLParams, xConc: number): number => {
+  const x = xConc > 0 ? xConc : 1e-12
+  return eval5plLogX(params, Math.log10(x))
+}
+
+export const invert5pl = (params: FivePLParams, y: number, minConc: number, maxConc: number): number | null => {
+  if (!isFiniteNumber(y)) return null
+  const { A, D, C, B, E } = params
+  if (![A, D, C, B, E].every(isFiniteNumber) || B <= 0 || E <= 0) return null
+  if (!isFiniteNumber(minConc) || !isFiniteNumber(maxConc) || maxConc <= minConc) return null
+
+  const lo = Math.min(A, D)
+  const hi = Math.max(A, D)
+  // Only invert within the curve's asymptotes.
+  if (y <= lo || y >= hi) return null
+
+  const denom = y - A
+  if (Math.abs(denom) < 1e-12) return null
+  const frac = ((D - A) / denom) ** (1 / E) - 1
+  if (!(frac > 0)) return null
+
+  const xLog10 = C - Math.log10(frac) / B
+  const conc = 10 ** xLog10
+  if (!Number.isFinite(conc)) return null
+  if (conc < minConc || conc > maxConc) return null
+  return conc
+}
+
+// Optimiser vector [A, D, C, b, e] where B = exp(b) and E = exp(e) keep both > 0.
+const toParams = (pp: number[]): FivePLParams => ({
+  A: pp[0],
+  D: pp[1],
+  C: pp[2],
+  B: Math.exp(clamp(pp[3], -4, 4)),
+  E: Math.exp(clamp(pp[4], -LOG_E_LIMIT, LOG_E_LIMIT)),
+})
+
+// Numerical Jacobian with relative central differences, as in fit4pl.
+const jacobian = (p: number[], xLogs: number[]): number[][] => {
+  const J: number[][] = Array.from({ length: xLogs.length }, () => [0, 0, 0, 0, 0])
+  for (let j = 0; j < 5; j += 1) {
+    const dp = 1e-4 * (Math.abs(p[j]) + 1)
+    const plus = [...p]
+    const minus = [...p]
+    plus[j] += dp
+    minus[j] -= dp
+    const pPlus = toParams(plus)
+    const pMinus = toParams(minus)
+    for (let i = 0; i < xLogs.length; i += 1) {
+      J[i][j] = (eval5plLogX(pPlus, xLogs[i]) - eval5plLogX(pMinus, xLogs[i])) / (2 * dp)
+    }
+  }
+  return J
+}
+
+// Covariance mapped from [A, D, C, b, e] to A, B, C, D, E (dB/db = B, dE/de = E).
+const fitStats = (p: number[], xLogs: number[], weights: number[], sse: number): FivePLStats | null => {
+  const df = xLogs.length - 5
+  if (df <= 0) return null
+  // The linearisation does not hold for a slope or asymmetry pinned at its limit.
+  if (Math.abs(p[3]) >= 4 || Math.abs(p[4]) >= LOG_E_LIMIT) return null
+  const J = jacobian(p, xLogs)
+  const JTJ: number[][] = Array.from({ length: 5 }, () => [0, 0, 0, 0, 0])
+  for (let i = 0; i < J.length; i += 1) {
+    for (let j = 0; j < 5; j += 1) {
+      for (let k = 0; k < 5; k += 1) JTJ[j][k] += weights[i] * J[i][j] * J[i][k]
+    }
+  }
+  const inv = invertMatrix(JTJ)
+  if (!inv) return null
+
+  const s2 = sse / df
+  const { B, E } = toParams(p)
+  // Index into p and the chain-rule factor for each named parameter.
+  const source: Record<FivePLParamName, [number, number]> = { A: [0, 1], B: [3, B], C: [2, 1], D: [1, 1], E: [4, E] }
+  const cov = FIVE_PL_PARAM_NAMES.map((r) =>
+    FIVE_PL_PARAM_NAMES.map((c) => s2 * inv[source[r][0]][source[c][0]] * source[r][1] * source[c][1])
+  )
+  if (!cov.every((row) => row.every(isFiniteNumber))) return null
+  return { df, sigma: Math.sqrt(s2), cov }
+}
+
+type FitOptions = {
+  maxIter?: number
+  lambda0?: number
+  tol?: number
+  restarts?: number
+  // Per-point weights aligned with x/y; points with a weight <= 0 are left out.
+  weights?: number[]
+  // Required curve direction (D > A when increasing), passed to the 4PL seed and held through the
+  // refinement. Without it the fit follows the trend of the data.
+  direction?: 'increasing' | 'decreasing'
+}
+
+/**
+ * Levenberg–Marquardt fit of the 5PL, started from the 4PL solution with a few asymmetry
+ * guesses. Needs at least 5 points with x > 0. With a direction, the seed and every step keep it.
+ */
+export const fit5pl = (xConc: number[], y: number[], opts: FitOptions = {}): FivePLFit | null => {
+  const maxIter = opts.maxIter ?? 160
+  const tol = opts.tol ?? 1e-10
+  const lambda0 = opts.lambda0 ?? 1e-2
+  const restarts = opts.restarts ?? 3
+
+  const clean: Array<{ xLog: number; y: number; w: number }> = []
+  for (let i = 0; i < Math.min(xConc.length, y.length); i += 1) {
+    const xc = xConc[i]
+    const yi = y[i]
+    const wi = opts.weights ? opts.weights[i] : 1
+    if (!isFiniteNumber(xc) || xc <= 0) continue
+    if (!isFiniteNumber(yi)) continue
+    if (!isFiniteNumber(wi) || wi <= 0) continue
+    clean.push({ xLog: Math.log10(xc), y: yi, w: wi })
+  }
+  if (clean.length < 5) return null
+
+  const seed = fit4pl(
+    clean.map((p) => 10 ** p.xLog),
+    clean.map((p) => p.y),
+    { restarts, weights: clean.map((p) => p.w), constraints: opts.direction ? { direction: opts.direction } : undefined }
+  )
+  if (!seed) return null
+
+  const xs = clean.map((p) => p.xLog)
+  const ys = clean.map((p) => p.y)
+  const ws = clean.map((p) => p.w)
+  const minX = Math.min(...xs)
+  const maxX = Math.max(...xs)
+
+  const EGuesses = [1, 0.5, 2, 0.25].slice(0, Math.max(1, restarts))
+
+  let bestFit: FivePLFit | null = null
+  let bestP: number[] | null = null
+
+  for (const EStart of EGuesses) {
+    let p = [seed.params.A, seed.params.D, seed.params.C, Math.log(seed.params.B), Math.log(EStart)]
+    let lambda = lambda0
+
+    const sseFor = (pp: number[]) => {
+      const params = toParams(pp)
+      let sse = 0
+      for (const pt of clean) {
+        const r = pt.y - eval5plLogX(params, pt.xLog)
+        sse += pt.w * r * r
+      }
+      return sse
+    }
+
+    let curSse = sseFor(p)
+
+    for (let iter = 0; iter < maxIter; iter += 1) {
+      const params = toParams(p)
+      const r = clean.map((pt) => pt.y - eval5plLogX(params, pt.xLog))
+
+      const J = jacobian(p, xs)
+
+      const JTJ: number[][] = Array.from({ length: 5 }, () => [0, 0, 0, 0, 0])
+      const JTr: number[] = [0, 0, 0, 0, 0]
+      for (let i = 0; i < clean.length; i += 1) {
+        const w = clean[i].w
+        for (let j = 0; j < 5; j += 1) {
+          JTr[j] += w * J[i][j] * r[i]
+          for (let k = 0; k < 5; k += 1) {
+            JTJ[j][k] += w * J[i][j] * J[i][k]
+          }
+        }
+      }
+
+      for (let d = 0; d < 5; d += 1) JTJ[d][d] += lambda
+
+      const delta = solveLinearSystem(JTJ, JTr)
+      if (!delta) break
+
+      const pCand = p.map((v, j) => v + delta[j])
+      // C may drift further than in 4PL, since E shifts the inflection away from it.
+      pCand[2] = clamp(pCand[2], minX - 3, maxX + 3)
+      pCand[3] = clamp(pCand[3], -4, 4)
+      pCand[4] = clamp(pCand[4], -LOG_E_LIMIT, LOG_E_LIMIT)
+      // A step that flips the required direction is rejected like one that does not improve, as in fit4pl.
+      const flipped = opts.direction === 'increasing' ? pCand[1] <= pCand[0] : pCand[1] >= pCand[0]
+      if (opts.direction && flipped) {
+        lambda = Math.min(1e12, lambda * 10)
+        continue
+      }
+
+      const sseCand = sseFor(pCand)
+      if (sseCand + 1e-12 < curSse) {
+        p = pCand
+        curSse = sseCand
+        lambda = Math.max(1e-12, lambda * 0.35)
+        const stepNorm = Math.sqrt(delta.reduce((acc, v) => acc + v * v, 0))
+        if (stepNorm < tol) break
+      } else {
+        lambda = Math.min(1e12, lambda * 10)
+      }
+    }
+
+    const params = toParams(p)
+    const r2 = r2Score(
+      ys,
+      clean.map((pt) => eval5plLogX(params, pt.xLog)),
+      ws
+    )
+    const fit: FivePLFit = { params, r2, sse: curSse, n: clean.length, stats: null }
+    if (!bestFit || (Number.isFinite(fit.sse) && fit.sse < bestFit.sse)) {
+      bestFit = fit
+      bestP = p
+    }
+  }
+
+  if (bestFit && bestP) bestFit.stats = fitStats(bestP, xs, ws, bestFit.sse)
+  return bestFit
+}
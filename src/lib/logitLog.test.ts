@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { offScaleRange, percentBB0, zeroStandardSignals } from './assayDirection'
+import { concInterval } from './concInterval'
+import { evalLogitLog, fitLogitLog, invertLogitLog } from './logitLog'
+
+describe('logitLog', () => {
+  it('recovers a decreasing B/B0 line and inverts it exactly', () => {
+    const params = { b0: 2, intercept: 1.5, slope: -1.1 }
+    const x = [0.5, 1, 3, 10, 30, 100]
+    const y = x.map((v) => evalLogitLog(params, v))
+    expect(y[0]).toBeGreaterThan(y[y.length - 1])
+
+    const fit = fitLogitLog(x, y, 2)
+    expect(fit).not.toBeNull()
+    expect(fit!.params.intercept).toBeCloseTo(1.5, 10)
+    expect(fit!.params.slope).toBeCloseTo(-1.1, 10)
+    expect(invertLogitLog(fit!.params, evalLogitLog(params, 7), 0.5, 100)).toBeCloseTo(7, 8)
+    expect(invertLogitLog(fit!.params, 2.5, 0.5, 100)).toBeNull()
+  })
+
+  it('skips signals outside (0, B0) and gives an interval around the estimate', () => {
+    const x = [0.5, 1, 3, 10, 30, 100, 300]
+    const y = [2.1, 1.62, 1.31, 0.82, 0.43, 0.2, -0.01]
+    const fit = fitLogitLog(x, y, 2)!
+    expect(fit.n).toBe(5)
+
+    const conc = invertLogitLog(fit.params, 0.6, 0.5, 300)!
+    const ci = concInterval({ kind: 'logitlog', fit }, conc)
+    expect(ci).not.toBeNull()
+    expect(ci!.lower).toBeLessThan(conc)
+    expect(ci!.upper).toBeGreaterThan(conc)
+  })
+
+  it('reads B0 from zero standards and maps off-scale reads by direction', () => {
+    const levels = [
+      { conc: 0, replicates: [{ y: 1.9 }, { y: 2.1 }] },
+      { conc: 10, replicates: [{ y: 0.8 }] },
+    ]
+    expect(zeroStandardSignals(levels)).toEqual([1.9, 2.1])
+    expect(percentBB0(0.5, 2)).toBeCloseTo(25, 10)
+    expect(percentBB0(0.5, null)).toBeNull()
+    expect(offScaleRange('saturated', 'sandwich')).toBe('>ULOQ')
+    expect(offScaleRange('saturated', 'competitive')).toBe('<LLOQ')
+    expect(offScaleRange('belowDetection', 'competitive')).toBe('>ULOQ')
+  })
+})
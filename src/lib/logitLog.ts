@@ -0,0 +1,68 @@
+import { fitPolynomial, type PolyStats } from './polynomial'
+
+// Logit-log model for competitive assays: the fraction bound B/B0 is linear in log10 concentration
+// on the logit scale. B0 is the zero-standard signal, taken as given rather than fitted.
+
+export type LogitLogParams = {
+  // ln(y / (b0 - y)) = intercept + slope * log10(x)
+  b0: number
+  intercept: number
+  slope: number
+}
+
+// r2, sse and stats are in logit units, where the line is fitted.
+export type LogitLogFit = {
+  params: LogitLogParams
+  r2: number
+  sse: number
+  n: number
+  stats: PolyStats | null
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+
+export const evalLogitLog = (params: LogitLogParams, xConc: number): number => {
+  const x = xConc > 0 ? xConc : 1e-12
+  const t = params.intercept + params.slope * Math.log10(x)
+  return params.b0 / (1 + Math.exp(-Math.max(-700, Math.min(700, t))))
+}
+
+export const invertLogitLog = (params: LogitLogParams, y: number, minConc: number, maxConc: number): number | null => {
+  const { b0, intercept, slope } = params
+  if (!isFiniteNumber(y) || !isFiniteNumber(b0) || !(y > 0 && y < b0)) return null
+  if (!isFiniteNumber(intercept) || !isFiniteNumber(slope) || Math.abs(slope) < 1e-12) return null
+  if (!isFiniteNumber(minConc) || !isFiniteNumber(maxConc) || maxConc <= minConc) return null
+
+  const conc = 10 ** ((Math.log(y / (b0 - y)) - intercept) / slope)
+  if (!Number.isFinite(conc)) return null
+  if (conc < minConc || conc > maxConc) return null
+  return conc
+}
+
+/**
+ * Straight-line fit of logit(y / b0) on log10(x). Only points with x > 0 and 0 < y < b0 have a
+ * logit and are used. Optional weights are aligned with x/y and apply to the logit residuals; standard
+ * curves pass none (see fitWeighting).
+ */
+export const fitLogitLog = (xConc: number[], y: number[], b0: number, weights?: number[]): LogitLogFit | null => {
+  if (!isFiniteNumber(b0) || b0 <= 0) return null
+  const u: number[] = []
+  const v: number[] = []
+  const w: number[] = []
+  for (let i = 0; i < Math.min(xConc.length, y.length); i += 1) {
+    if (!isFiniteNumber(xConc[i]) || xConc[i] <= 0) continue
+    if (!isFiniteNumber(y[i]) || !(y[i] > 0 && y[i] < b0)) continue
+    u.push(Math.log10(xConc[i]))
+    v.push(Math.log(y[i] / (b0 - y[i])))
+    w.push(weights ? weights[i] : 1)
+  }
+  const fit = fitPolynomial(u, v, 1, w)
+  if (!fit) return null
+  return {
+    params: { b0, intercept: fit.coeff[0], slope: fit.coeff[1] },
+    r2: fit.r2,
+    sse: fit.sse,
+    n: fit.n,
+    stats: fit.stats,
+  }
+}
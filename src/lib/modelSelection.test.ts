@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { eval4pl } from './logistic4pl'
+import { compareCurveModels } from './modelSelection'
+
+const x = [0.1, 0.3, 1, 3, 10, 30, 100, 300]
+const noise = [0.004, -0.006, 0.003, 0.005, -0.004, -0.002, 0.006, -0.003]
+const points = (f: (v: number) => number) => x.map((v, i) => ({ x: v, y: f(v) + noise[i], variance: null }))
+
+describe('compareCurveModels', () => {
+  it('recommends 4PL for sigmoid standards and keeps it over 5PL', () => {
+    const params = { A: 0.05, D: 2.4, C: 1.0, B: 1.1 }
+    const result = compareCurveModels(points((v) => eval4pl(params, v)), 'none')
+
+    expect(result.recommended).toEqual({ model: '4pl', degree: 2 })
+    const fourVsFive = result.fTests.find((t) => t.fuller.model === '5pl')
+    expect(fourVsFive?.df1).toBe(1)
+    expect(fourVsFive?.p).toBeGreaterThan(0.05)
+    expect(result.rationale).toContain('4PL')
+  })
+
+  it('prefers the simplest polynomial when extra terms are not significant', () => {
+    const result = compareCurveModels(points((v) => 0.02 + 0.01 * v), 'none')
+
+    expect(result.recommended?.model).toBe('linear')
+    const linear = result.rows.find((r) => r.choice.model === 'linear')
+    expect(linear?.params).toBe(2)
+    expect(linear?.r2).toBeGreaterThan(0.99)
+  })
+
+  it('leaves interpolating splines out of the information criteria', () => {
+    const result = compareCurveModels(points((v) => 0.02 + 0.01 * v), 'none')
+    const spline = result.rows.find((r) => r.choice.model === 'spline')
+    expect(spline?.sse).toBeCloseTo(0, 12)
+    expect(spline?.aic).toBeNull()
+    expect(spline?.bic).toBeNull()
+  })
+
+  it('marks the models fitted unweighted under a weighting scheme', () => {
+    const params = { A: 0.05, D: 2.4, C: 1.0, B: 1.1 }
+    const result = compareCurveModels(points((v) => eval4pl(params, v)), '1/y2')
+    const unweighted = result.rows.filter((r) => !r.weighted).map((r) => r.choice.model)
+    expect(unweighted).toEqual(['loglog', 'logitLog', 'spline', 'pointToPoint'])
+    expect(compareCurveModels(points((v) => eval4pl(params, v)), 'none').rows.some((r) => r.weighted)).toBe(false)
+  })
+
+  it('explains when no model has enough levels', () => {
+    const result = compareCurveModels([{ x: 1, y: 0.1, variance: null }], 'none')
+    expect(result.recommended).toBeNull()
+    expect(result.rationale).toMatch(/more standard levels/)
+  })
+})
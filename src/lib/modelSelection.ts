@@ -0,0 +1,175 @@
+import { curveKindFor, curveModelBadge, curveParamCount, evalCurve, type CurveModel } from './curveModels'
+import { curveWeights, type CurveWeighting, type WeightPoint } from './curveWeights'
+import type { FourPLConstraints } from './logistic4pl'
+import { fDistCdf } from './stats'
+import { fitStandardCurve, fitWeighting } from './stdCurveAutoQc'
+
+// A curve model as chosen in the UI; degree only matters for 'poly'.
+export type ModelChoice = { model: CurveModel; degree: 2 | 3 }
+
+// Recommendation applied from the comparison panel, stored with the run.
+export type ModelSelection = ModelChoice & { rationale: string }
+
+export const MODEL_CANDIDATES: ModelChoice[] = [
+  { model: 'linear', degree: 2 },
+  { model: 'poly', degree: 2 },
+  { model: 'poly', degree: 3 },
+  { model: 'loglog', degree: 2 },
+  { model: 'logitLog', degree: 2 },
+  { model: '4pl', degree: 2 },
+  { model: '5pl', degree: 2 },
+  { model: 'spline', degree: 2 },
+  { model: 'pointToPoint', degree: 2 },
+]
+
+// Pairs where the simpler model is the fuller one with a parameter fixed (5PL with E = 1 is 4PL).
+const NESTED_PAIRS: Array<[ModelChoice, ModelChoice]> = [
+  [MODEL_CANDIDATES[0], MODEL_CANDIDATES[1]],
+  [MODEL_CANDIDATES[1], MODEL_CANDIDATES[2]],
+  [MODEL_CANDIDATES[5], MODEL_CANDIDATES[6]],
+]
+
+export type ModelComparisonRow = {
+  choice: ModelChoice
+  label: string
+  // Fitted parameters; null for interpolating splines, which have no likelihood to compare.
+  params: number | null
+  // Whether the fit itself used the chosen weighting (log-log, logit-log and interpolants never do).
+  weighted: boolean
+  n: number
+  sse: number | null
+  r2: number | null
+  aic: number | null
+  bic: number | null
+  deltaAic: number | null
+}
+
+// Extra-sum-of-squares F-test of a simpler nested model against a fuller one.
+export type NestedFTest = {
+  simpler: ModelChoice
+  fuller: ModelChoice
+  f: number
+  df1: number
+  df2: number
+  p: number
+}
+
+export type ModelComparison = {
+  rows: ModelComparisonRow[]
+  fTests: NestedFTest[]
+  recommended: ModelChoice | null
+  rationale: string
+}
+
+export type ModelComparisonOptions = {
+  // Significance level for preferring a fuller nested model.
+  alpha?: number
+  // 4PL constraints of the displayed fit; fixed asymptotes are not counted as parameters.
+  constraints?: FourPLConstraints
+  // Zero-standard signal for the logit-log model, which is skipped without it.
+  b0?: number | null
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+
+export const sameChoice = (a: ModelChoice, b: ModelChoice): boolean =>
+  a.model === b.model && (a.model !== 'poly' || a.degree === b.degree)
+
+const num = (n: number) => n.toFixed(1)
+
+/**
+ * Fits every candidate model to the same standard points and ranks them by AIC.
+ *
+ * Every model is scored on the points with x > 0, in response units and with the chosen weights,
+ * so SSE, R², AIC and BIC are comparable across models (log-log fits included). Rows whose model is
+ * fitted unweighted (see fitWeighting) are still scored with the weights, and say so in `weighted`. AIC and BIC use
+ * the Gaussian likelihood, n·ln(SSE/n) plus 2k or k·ln(n), with k = parameters + 1 for the residual
+ * variance. The lowest AIC is recommended unless an F-test finds its extra parameters not significant
+ * against a nested simpler model, in which case the simpler model is preferred.
+ */
+export const compareCurveModels = (
+  points: WeightPoint[],
+  weighting: CurveWeighting,
+  options: ModelComparisonOptions = {}
+): ModelComparison => {
+  const alpha = options.alpha ?? 0.05
+  const clean = points.filter((p) => isFiniteNumber(p.x) && isFiniteNumber(p.y) && p.x > 0)
+  const w = curveWeights(weighting, clean)
+  const n = clean.length
+
+  const sumW = w.reduce((acc, v) => acc + v, 0)
+  const meanY = clean.reduce((acc, p, i) => acc + w[i] * p.y, 0) / sumW
+  const ssTot = clean.reduce((acc, p, i) => acc + w[i] * (p.y - meanY) ** 2, 0)
+
+  const rows: ModelComparisonRow[] = MODEL_CANDIDATES.map((choice) => {
+    const label = curveModelBadge(choice.model, choice.degree)
+    const kind = curveKindFor(choice.model, choice.degree, options.b0 ?? null)
+    const fit = fitStandardCurve(kind, clean, weighting, options.constraints)
+    const weighted = fitWeighting(kind, weighting) !== 'none'
+    const empty = { choice, label, params: null, weighted, n, sse: null, r2: null, aic: null, bic: null, deltaAic: null }
+    if (!fit) return empty
+
+    const sse = clean.reduce((acc, p, i) => acc + w[i] * (p.y - evalCurve(fit, p.x)) ** 2, 0)
+    if (!isFiniteNumber(sse)) return empty
+    const r2 = ssTot > 0 ? 1 - sse / ssTot : null
+    const params = curveParamCount(fit)
+    if (params === null || n <= params || !(sse > 0)) return { ...empty, params, sse, r2 }
+
+    const k = params + 1
+    const logLik = n * Math.log(sse / n)
+    return { ...empty, params, sse, r2, aic: logLik + 2 * k, bic: logLik + k * Math.log(n) }
+  })
+
+  const ranked = rows.filter((r) => r.aic !== null).sort((a, b) => (a.aic as number) - (b.aic as number))
+  const minAic = ranked.length ? (ranked[0].aic as number) : null
+  for (const r of rows) r.deltaAic = r.aic !== null && minAic !== null ? r.aic - minAic : null
+
+  const rowFor = (choice: ModelChoice) => rows.find((r) => sameChoice(r.choice, choice))
+  const fTests: NestedFTest[] = []
+  for (const [simpler, fuller] of NESTED_PAIRS) {
+    const a = rowFor(simpler)
+    const b = rowFor(fuller)
+    if (!a || !b || a.aic === null || b.aic === null || a.sse === null || b.sse === null) continue
+    if (a.params === null || b.params === null) continue
+    const df1 = b.params - a.params
+    const df2 = n - b.params
+    const f = Math.max(0, (a.sse - b.sse) / df1) / (b.sse / df2)
+    fTests.push({ simpler, fuller, f, df1, df2, p: 1 - fDistCdf(f, df1, df2) })
+  }
+
+  if (!ranked.length) {
+    return {
+      rows,
+      fTests,
+      recommended: null,
+      rationale: 'No model can be compared yet: each needs more standard levels than parameters.',
+    }
+  }
+
+  const best = ranked[0]
+  const reasons: string[] = [
+    ranked.length > 1
+      ? `${best.label} has the lowest AIC (${num(best.aic as number)}; next ${ranked[1].label}, ΔAIC ${num(ranked[1].deltaAic as number)}).`
+      : `${best.label} is the only model with enough standard levels to compare (AIC ${num(best.aic as number)}).`,
+  ]
+
+  let chosen = best
+  for (;;) {
+    const test = fTests.find((t) => sameChoice(t.fuller, chosen.choice) && t.p >= alpha)
+    const simpler = test ? rowFor(test.simpler) : undefined
+    if (!test || !simpler) break
+    reasons.push(
+      `The F-test against ${simpler.label} is not significant (F = ${test.f.toFixed(2)}, p = ${test.p.toFixed(3)}), so the simpler ${simpler.label} is preferred.`
+    )
+    chosen = simpler
+  }
+
+  const bestBic = rows
+    .filter((r) => r.bic !== null)
+    .reduce((acc, r) => ((r.bic as number) < (acc.bic as number) ? r : acc), best)
+  reasons.push(
+    sameChoice(bestBic.choice, chosen.choice) ? 'BIC agrees.' : `BIC favours ${bestBic.label} (${num(bestBic.bic as number)}).`
+  )
+
+  return { rows, fTests, recommended: chosen.choice, rationale: reasons.join(' ') }
+}
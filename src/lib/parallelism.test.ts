@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { parallelism, type DilutionWell } from './parallelism'
+
+const series = (animalId: string, dilutions: number[], concs: Array<number | null>, inRange = dilutions.map(() => true)) =>
+  dilutions.map((dilutionFactor, i): DilutionWell => ({ animalId, group: '', dilutionFactor, conc: concs[i], inRange: inRange[i] }))
+
+describe('parallelism', () => {
+  it('accepts a sample that dilutes in proportion', () => {
+    const [r] = parallelism(series('A1', [10, 10, 20, 20, 40, 40], [50, 52, 25, 26, 12.5, 12.8]))
+    expect(r.parallel).toBe(true)
+    expect(r.slope!).toBeCloseTo(1, 1)
+    expect(r.cvPct!).toBeLessThan(5)
+    expect(r.reportDilution).toBeNull()
+  })
+
+  it('flags matrix suppression and reports the highest in-range dilution', () => {
+    // Corrected values 300, 440, 560: the low dilutions read low.
+    const [r] = parallelism(series('A1', [10, 20, 40, 80], [30, 22, 14, 0.5], [true, true, true, false]))
+    expect(r.parallel).toBe(false)
+    expect(r.slope!).toBeLessThan(0.8)
+    expect(r.levels.map((l) => l.meanAdjusted)).toEqual([300, 440, 560, null])
+    expect(r.reportDilution).toBe(40)
+    expect(r.note).toContain('rise with dilution')
+  })
+
+  it('cannot assess a sample with one in-range dilution', () => {
+    const [r] = parallelism(series('A1', [1, 10], [null, 5], [false, true]))
+    expect(r.parallel).toBeNull()
+    expect(r.note).toBe('Fewer than two dilutions in range.')
+  })
+})
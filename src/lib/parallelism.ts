@@ -0,0 +1,130 @@
+// Parallelism (linearity of dilution) of samples run at several dilutions.
+//
+// If a sample behaves like the standard, its back-calculated concentration falls in proportion to
+// the dilution: dilution-corrected values agree and log(conc) against log(1/dilution) has slope 1.
+// Matrix interference shows up as a drift of the corrected values with dilution.
+
+export type ParallelismCriteria = {
+  // Largest accepted CV of the dilution-corrected means, in percent.
+  maxCvPct: number
+  // Largest accepted |slope − 1| of log(conc) against log(1/dilution).
+  slopeTolerance: number
+}
+
+export const DEFAULT_PARALLELISM_CRITERIA: ParallelismCriteria = { maxCvPct: 20, slopeTolerance: 0.2 }
+
+export type DilutionWell = {
+  animalId: string
+  group: string
+  dilutionFactor: number
+  // Back-calculated concentration before the dilution factor; null when not quantifiable.
+  conc: number | null
+  // Within LLOQ–ULOQ (or within the standards when there are no limits).
+  inRange: boolean
+}
+
+export type DilutionLevel = {
+  dilution: number
+  n: number
+  // Mean dilution-corrected concentration of the in-range wells; null when none is in range.
+  meanAdjusted: number | null
+}
+
+export type ParallelismResult = {
+  animalId: string
+  group: string
+  levels: DilutionLevel[]
+  // CV of the in-range level means; null with fewer than two in-range dilutions.
+  cvPct: number | null
+  slope: number | null
+  // null when fewer than two dilutions are in range, so parallelism cannot be assessed.
+  parallel: boolean | null
+  // Dilution to report for a non-parallel sample: the highest in-range one, where matrix effects are
+  // diluted furthest. null for parallel or unassessed samples, which report every dilution.
+  reportDilution: number | null
+  note: string
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+
+// Ordinary least-squares slope; null without spread in x.
+const olsSlope = (x: number[], y: number[]): number | null => {
+  const n = x.length
+  if (n < 2) return null
+  const mx = x.reduce((acc, v) => acc + v, 0) / n
+  const my = y.reduce((acc, v) => acc + v, 0) / n
+  let sxx = 0
+  let sxy = 0
+  for (let i = 0; i < n; i += 1) {
+    sxx += (x[i] - mx) ** 2
+    sxy += (x[i] - mx) * (y[i] - my)
+  }
+  return sxx > 0 ? sxy / sxx : null
+}
+
+/**
+ * Parallelism per animal/group. Only in-range wells with a positive concentration count. A sample is
+ * non-parallel when the CV of its dilution-corrected means exceeds `maxCvPct` or its slope is more than
+ * `slopeTolerance` from 1.
+ */
+export const parallelism = (
+  wells: DilutionWell[],
+  criteria: ParallelismCriteria = DEFAULT_PARALLELISM_CRITERIA
+): ParallelismResult[] => {
+  const groups = new Map<string, DilutionWell[]>()
+  for (const w of wells) {
+    if (!isFiniteNumber(w.dilutionFactor) || w.dilutionFactor <= 0) continue
+    const key = `${w.animalId}||${w.group}`
+    groups.set(key, [...(groups.get(key) ?? []), w])
+  }
+
+  const out: ParallelismResult[] = []
+  for (const series of groups.values()) {
+    const used = series.filter(
+      (w): w is DilutionWell & { conc: number } => w.inRange && isFiniteNumber(w.conc) && w.conc > 0
+    )
+    const dilutions = Array.from(new Set(series.map((w) => w.dilutionFactor))).sort((a, b) => a - b)
+    const levels = dilutions.map((dilution) => {
+      const vals = used.filter((w) => w.dilutionFactor === dilution).map((w) => w.conc * dilution)
+      return {
+        dilution,
+        n: series.filter((w) => w.dilutionFactor === dilution).length,
+        meanAdjusted: vals.length ? vals.reduce((acc, v) => acc + v, 0) / vals.length : null,
+      }
+    })
+    const base = { animalId: series[0].animalId, group: series[0].group, levels }
+    const means = levels.map((l) => l.meanAdjusted).filter(isFiniteNumber)
+    if (means.length < 2) {
+      const note = dilutions.length < 2 ? '' : 'Fewer than two dilutions in range.'
+      out.push({ ...base, cvPct: null, slope: null, parallel: null, reportDilution: null, note })
+      continue
+    }
+
+    const mean = means.reduce((acc, v) => acc + v, 0) / means.length
+    const sd = Math.sqrt(means.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (means.length - 1))
+    const cvPct = (100 * sd) / mean
+    const slope = olsSlope(
+      used.map((w) => -Math.log10(w.dilutionFactor)),
+      used.map((w) => Math.log10(w.conc))
+    )
+    const parallel = cvPct <= criteria.maxCvPct && slope !== null && Math.abs(slope - 1) <= criteria.slopeTolerance
+    if (parallel) {
+      out.push({ ...base, cvPct, slope, parallel, reportDilution: null, note: '' })
+      continue
+    }
+    const reportDilution = levels.filter((l) => l.meanAdjusted !== null).map((l) => l.dilution).pop() ?? null
+    // Slope below 1: corrected values rise with dilution, i.e. the matrix suppresses the low dilutions.
+    const trend =
+      slope === null ? '' : slope < 1 ? 'Corrected values rise with dilution. ' : 'Corrected values fall with dilution. '
+    out.push({
+      ...base,
+      cvPct,
+      slope,
+      parallel,
+      reportDilution,
+      note: `${trend}Non-parallel; reporting 1:${reportDilution} only.`,
+    })
+  }
+  out.sort((a, b) => a.animalId.localeCompare(b.animalId) || a.group.localeCompare(b.group))
+  return out
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PLATE_FORMATS,
+  createPlateFormat,
+  indexToWellId,
+  parseWellId,
+  plateFormatById,
+  toColumnMajorNumber,
+  toWellIndex,
+  wellRangeColumnMajor,
+} from './plateFormat'
+
+describe('plateFormat', () => {
+  const f384 = PLATE_FORMATS['384']
+
+  it('generates 384 well ids in A1..P24 order', () => {
+    expect(f384.wellIds).toHaveLength(384)
+    expect(f384.wellIds[0]).toBe('A1')
+    expect(f384.wellIds[23]).toBe('A24')
+    expect(f384.wellIds[24]).toBe('B1')
+    expect(f384.wellIds[383]).toBe('P24')
+    expect(f384.wellIdsColumnMajor[15]).toBe('P1')
+    expect(f384.wellIdsColumnMajor[16]).toBe('A2')
+  })
+
+  it('maps well ids to indices and column-major numbers', () => {
+    expect(toWellIndex(f384, 'B1')).toBe(24)
+    expect(indexToWellId(f384, 24)).toBe('B1')
+    expect(toColumnMajorNumber(f384, 'P24')).toBe(384)
+    expect(toWellIndex(PLATE_FORMATS['96'], 'I1')).toBeNull()
+  })
+
+  it('normalizes loose reader well spellings', () => {
+    expect(parseWellId(f384, 'p 07')).toBe('P7')
+    expect(parseWellId(PLATE_FORMATS['96'], 'P7')).toBeNull()
+  })
+
+  it('creates column-major ranges on 384-well plates', () => {
+    const range = wellRangeColumnMajor(f384, 'O1', 'B2')
+    expect(range).toEqual(['O1', 'P1', 'A2', 'B2'])
+  })
+
+  it('falls back to 96-well for unknown ids', () => {
+    expect(plateFormatById(undefined).id).toBe('96')
+    expect(plateFormatById('1536').id).toBe('96')
+  })
+  it('builds small-format and custom geometries', () => {
+    const f6 = PLATE_FORMATS['6']
+    expect(f6.wellIds).toEqual(['A1', 'A2', 'A3', 'B1', 'B2', 'B3'])
+    expect(wellRangeColumnMajor(f6, 'A1', 'A2')).toEqual(['A1', 'B1', 'A2'])
+
+    const strip = createPlateFormat({ rows: 8, cols: 2 })
+    expect(strip.id).toBe('8x2')
+    expect(strip.size).toBe(16)
+    expect(strip.wellIdsColumnMajor[8]).toBe('A2')
+    expect(plateFormatById('8x2').wellIds).toEqual(strip.wellIds)
+
+    expect(createPlateFormat({ rows: 4, cols: 6 }).id).toBe('24')
+  })
+})
@@ -0,0 +1,150 @@
+// Standard formats use their well count as id ("96"); other geometries use "<rows>x<cols>".
+export type PlateFormatId = string
+
+export type PlateGeometry = { rows: number; cols: number }
+
+// Well ids are plain strings ("A1", "P24"); validity depends on the plate format in use.
+export type WellId = string
+
+export type PlateFormat = {
+  id: PlateFormatId
+  label: string
+  geometry: PlateGeometry
+  rows: readonly string[]
+  cols: readonly number[]
+  size: number
+  // A1, A2, ... (plate order)
+  wellIds: WellId[]
+  // A1, B1, ... (reader order)
+  wellIdsColumnMajor: WellId[]
+}
+
+const ROW_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'
+
+export const MAX_PLATE_ROWS = ROW_LETTERS.length
+export const MAX_PLATE_COLS = 48
+
+const STANDARD_GEOMETRIES: Record<string, PlateGeometry> = {
+  '6': { rows: 2, cols: 3 },
+  '12': { rows: 3, cols: 4 },
+  '24': { rows: 4, cols: 6 },
+  '48': { rows: 6, cols: 8 },
+  '96': { rows: 8, cols: 12 },
+  '384': { rows: 16, cols: 24 },
+}
+
+const clampInt = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, Math.trunc(Number.isFinite(v) ? v : lo)))
+
+export const createPlateFormat = (geometry: PlateGeometry): PlateFormat => {
+  const rowCount = clampInt(geometry.rows, 1, MAX_PLATE_ROWS)
+  const colCount = clampInt(geometry.cols, 1, MAX_PLATE_COLS)
+  const size = rowCount * colCount
+  const standardId = Object.keys(STANDARD_GEOMETRIES).find((key) => {
+    const g = STANDARD_GEOMETRIES[key]
+    return g.rows === rowCount && g.cols === colCount
+  })
+  const id = standardId ?? `${rowCount}x${colCount}`
+  const label = standardId ? `${size}-well` : `${rowCount}×${colCount} (${size}-well)`
+
+  const rows = ROW_LETTERS.slice(0, rowCount).split('')
+  const cols = Array.from({ length: colCount }, (_, i) => i + 1)
+
+  const wellIds: WellId[] = []
+  for (const row of rows) {
+    for (const col of cols) wellIds.push(`${row}${col}`)
+  }
+
+  const wellIdsColumnMajor: WellId[] = []
+  for (const col of cols) {
+    for (const row of rows) wellIdsColumnMajor.push(`${row}${col}`)
+  }
+
+  return {
+    id,
+    label,
+    geometry: { rows: rowCount, cols: colCount },
+    rows,
+    cols,
+    size,
+    wellIds,
+    wellIdsColumnMajor,
+  }
+}
+
+export const PLATE_FORMATS: Record<PlateFormatId, PlateFormat> = Object.fromEntries(
+  Object.entries(STANDARD_GEOMETRIES).map(([id, geometry]) => [id, createPlateFormat(geometry)])
+)
+
+export const DEFAULT_PLATE_FORMAT = PLATE_FORMATS['96']
+
+export const plateFormatById = (id: string | null | undefined): PlateFormat => {
+  if (!id) return DEFAULT_PLATE_FORMAT
+  if (id in PLATE_FORMATS) return PLATE_FORMATS[id]
+  const match = /^(\d+)x(\d+)$/.exec(id)
+  if (!match) return DEFAULT_PLATE_FORMAT
+  const rows = Number(match[1])
+  const cols = Number(match[2])
+  if (rows < 1 || rows > MAX_PLATE_ROWS || cols < 1 || cols > MAX_PLATE_COLS) return DEFAULT_PLATE_FORMAT
+  return createPlateFormat({ rows, cols })
+}
+
+const splitWellId = (format: PlateFormat, raw: string): { rowIdx: number; colIdx: number } | null => {
+  const match = /^([A-Za-z])\s*0*(\d{1,2})$/.exec(raw.trim())
+  if (!match) return null
+  const rowIdx = format.rows.indexOf(match[1].toUpperCase())
+  const colIdx = format.cols.indexOf(Number(match[2]))
+  if (rowIdx < 0 || colIdx < 0) return null
+  return { rowIdx, colIdx }
+}
+
+// Accepts loose reader spellings ("a01", "B 7") and returns the canonical id, or null if off-plate.
+export const parseWellId = (format: PlateFormat, raw: string): WellId | null => {
+  const parts = splitWellId(format, raw)
+  if (!parts) return null
+  return `${format.rows[parts.rowIdx]}${format.cols[parts.colIdx]}`
+}
+
+export const toWellIndex = (format: PlateFormat, wellId: string): number | null => {
+  const parts = splitWellId(format, wellId)
+  if (!parts) return null
+  return parts.rowIdx * format.cols.length + parts.colIdx
+}
+
+export const indexToWellId = (format: PlateFormat, index: number): WellId | null => {
+  if (!Number.isFinite(index)) return null
+  const idx = Math.trunc(index)
+  if (idx < 0 || idx >= format.size) return null
+  return format.wellIds[idx] ?? null
+}
+
+export const toColumnMajorNumber = (format: PlateFormat, wellId: string): number => {
+  const parts = splitWellId(format, wellId)
+  if (!parts) return 0
+  return parts.colIdx * format.rows.length + parts.rowIdx + 1
+}
+
+export const wellRange = (format: PlateFormat, from: string, to: string): WellId[] => {
+  const a = toWellIndex(format, from)
+  const b = toWellIndex(format, to)
+  if (a === null || b === null) return []
+  return format.wellIds.slice(Math.min(a, b), Math.max(a, b) + 1)
+}
+
+export const wellRangeColumnMajor = (format: PlateFormat, from: string, to: string): WellId[] => {
+  const a = format.wellIdsColumnMajor.indexOf(from)
+  const b = format.wellIdsColumnMajor.indexOf(to)
+  if (a < 0 || b < 0) return []
+  return format.wellIdsColumnMajor.slice(Math.min(a, b), Math.max(a, b) + 1)
+}
+
+// Human-readable reader order hint, e.g. "A1..H1, A2..H2".
+export const readerOrderHint = (format: PlateFormat): string => {
+  const last = format.rows[format.rows.length - 1]
+  return `A1..${last}1, A2..${last}2`
+}
+
+export const plateOrderHint = (format: PlateFormat): string => {
+  const lastRow = format.rows[format.rows.length - 1]
+  const lastCol = format.cols[format.cols.length - 1]
+  return `A1..A${lastCol}, B1..${lastRow}${lastCol}`
+}
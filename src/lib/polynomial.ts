@@ -1,58 +1,25 @@
+import { invertMatrix, r2Score, solveLinearSystem } from './leastSquares'
+
+// Coefficient covariance s² (XᵀWX)⁻¹ with s² = SSE / df, rows and columns in coeff order.
+export type PolyStats = {
+  df: number
+  sigma: number
+  cov: number[][]
+}
+
+// With weights, r2 and sse are the weighted R² and weighted sum of squared residuals.
 export type PolyFit = {
   degree: number
   coeff: number[] // c0..cd so y = sum(c[i] * x^i)
   r2: number
+  sse: number
+  n: number
+  // Null without residual degrees of freedom.
+  stats: PolyStats | null
 }
 
 const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
 
-const r2Score = (y: number[], yHat: number[]): number => {
-  const mean = y.reduce((acc, v) => acc + v, 0) / y.length
-  let ssTot = 0
-  let ssRes = 0
-  for (let i = 0; i < y.length; i += 1) {
-    ssTot += (y[i] - mean) ** 2
-    ssRes += (y[i] - yHat[i]) ** 2
-  }
-  return ssTot === 0 ? Number.NaN : 1 - ssRes / ssTot
-}
-
-const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
-  const n = A.length
-  // Augment matrix
-  const M = A.map((row, i) => [...row, b[i]])
-
-  for (let col = 0; col < n; col += 1) {
-    // Partial pivot
-    let pivotRow = col
-    for (let r = col + 1; r < n; r += 1) {
-      if (Math.abs(M[r][col]) > Math.abs(M[pivotRow][col])) pivotRow = r
-    }
-    if (Math.abs(M[pivotRow][col]) < 1e-12) return null
-    if (pivotRow !== col) {
-      const tmp = M[col]
-      M[col] = M[pivotRow]
-      M[pivotRow] = tmp
-    }
-
-    // Normalize pivot row
-    const pivot = M[col][col]
-    for (let c = col; c <= n; c += 1) M[col][c] /= pivot
-
-    // Eliminate
-    for (let r = 0; r < n; r += 1) {
-      if (r === col) continue
-      const factor = M[r][col]
-      if (Math.abs(factor) < 1e-12) continue
-      for (let c = col; c <= n; c += 1) {
-        M[r][c] -= factor * M[col][c]
-      }
-    }
-  }
-
-  return M.map((row) => row[n])
-}
-
 export const evalPoly = (coeff: number[], x: number): number => {
   // Horner, but coeff is low-to-high
   let y = 0
@@ -62,10 +29,13 @@ export const evalPoly = (coeff: number[], x: number): number => {
   return y
 }
 
-export const fitPolynomial = (x: number[], y: number[], degree: number): PolyFit | null => {
-  const clean: Array<{ x: number; y: number }> = []
+// Weighted least squares when `weights` (aligned with x/y) are given; points with a weight <= 0 are left out.
+export const fitPolynomial = (x: number[], y: number[], degree: number, weights?: number[]): PolyFit | null => {
+  const clean: Array<{ x: number; y: number; w: number }> = []
   for (let i = 0; i < Math.min(x.length, y.length); i += 1) {
-    if (isFiniteNumber(x[i]) && isFiniteNumber(y[i])) clean.push({ x: x[i], y: y[i] })
+    const w = weights ? weights[i] : 1
+    if (!isFiniteNumber(w) || w <= 0) continue
+    if (isFiniteNumber(x[i]) && isFiniteNumber(y[i])) clean.push({ x: x[i], y: y[i], w })
   }
   if (clean.length < degree + 1) return null
 
@@ -78,9 +48,9 @@ export const fitPolynomial = (x: number[], y: number[], degree: number): PolyFit
     for (let k = 1; k <= 2 * degree; k += 1) xpows[k] = xpows[k - 1] * pt.x
     for (let row = 0; row < n; row += 1) {
       for (let col = 0; col < n; col += 1) {
-        A[row][col] += xpows[row + col]
+        A[row][col] += pt.w * xpows[row + col]
       }
-      b[row] += pt.y * xpows[row]
+      b[row] += pt.w * pt.y * xpows[row]
     }
   }
 
@@ -88,8 +58,14 @@ export const fitPolynomial = (x: number[], y: number[], degree: number): PolyFit
   if (!coeff) return null
 
   const yHat = clean.map((pt) => evalPoly(coeff, pt.x))
-  const r2 = r2Score(clean.map((pt) => pt.y), yHat)
-  return { degree, coeff, r2 }
+  const ws = clean.map((pt) => pt.w)
+  const r2 = r2Score(clean.map((pt) => pt.y), yHat, ws)
+  const sse = clean.reduce((acc, pt, i) => acc + pt.w * (pt.y - yHat[i]) ** 2, 0)
+
+  const df = clean.length - n
+  const inv = df > 0 ? invertMatrix(A) : null
+  const stats = inv ? { df, sigma: Math.sqrt(sse / df), cov: inv.map((row) => row.map((v) => (v * sse) / df)) } : null
+  return { degree, coeff, r2, sse, n: clean.length, stats }
 }
 
 export const invertPolyBySearch = (coeff: number[], y: number, minX: number, maxX: number): number | null => {
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import {
+  classifySample,
+  cutoffSignal,
+  DEFAULT_QUALITATIVE_SETTINGS,
+  formatCutoffFormula,
+  runValidity,
+  summarizeControl,
+} from './qualitative'
+
+const read = (...signals: number[]) => signals.map((signal) => ({ signal, status: 'ok' as const }))
+
+const controls = [
+  summarizeControl('Cutoff', read(0.5, 0.5)),
+  summarizeControl('Positive', read(1.9, 2.1)),
+  summarizeControl('Negative', read(0.09, 0.11)),
+]
+
+describe('qualitative', () => {
+  it('computes the cutoff from the chosen control and formula', () => {
+    expect(cutoffSignal(DEFAULT_QUALITATIVE_SETTINGS, controls)).toBeCloseTo(0.5, 10)
+    const fromNegative = { ...DEFAULT_QUALITATIVE_SETTINGS, source: 'Negative' as const, factor: 2, offset: 0.1 }
+    expect(cutoffSignal(fromNegative, controls)).toBeCloseTo(0.3, 10)
+    expect(formatCutoffFormula(fromNegative)).toBe('2 × mean(negative control) + 0.1')
+    expect(cutoffSignal(DEFAULT_QUALITATIVE_SETTINGS, controls.slice(1))).toBeNull()
+  })
+
+  it('calls samples by S/CO with an equivocal grey zone', () => {
+    const s = DEFAULT_QUALITATIVE_SETTINGS
+    expect(classifySample(0.6, 'ok', 0.5, s)).toEqual({ ratio: 1.2, call: 'Positive' })
+    expect(classifySample(0.5, 'ok', 0.5, s).call).toBe('Equivocal')
+    expect(classifySample(0.4, 'ok', 0.5, s).call).toBe('Negative')
+    expect(classifySample(null, 'saturated', 0.5, s)).toEqual({ ratio: null, call: 'Positive' })
+    expect(classifySample(null, 'belowDetection', 0.5, s)).toEqual({ ratio: null, call: 'Negative' })
+  })
+
+  it('checks run validity against the control criteria', () => {
+    const settings = { ...DEFAULT_QUALITATIVE_SETTINGS, minPositive: 1.5, maxNegative: 0.15 }
+    const ok = runValidity(settings, controls, 0.5)
+    expect(ok.valid).toBe(true)
+    expect(ok.checks.map((c) => c.label)).toContain('Positive control calls positive')
+
+    const noisyNegative = [...controls.slice(0, 2), summarizeControl('Negative', read(0.1, 0.3))]
+    const bad = runValidity(settings, noisyNegative, 0.5)
+    expect(bad.valid).toBe(false)
+    expect(bad.checks.filter((c) => !c.pass).map((c) => c.label)).toEqual([
+      'Negative control ≤ 0.15',
+      'Negative control CV ≤ 20%',
+    ])
+    expect(runValidity(settings, controls, null).valid).toBe(false)
+  })
+
+  it('judges laid-out controls even when none of their wells could be read', () => {
+    const settings = { ...DEFAULT_QUALITATIVE_SETTINGS, minPositive: 1.5 }
+    const saturated = summarizeControl('Positive', [
+      { signal: null, status: 'saturated' },
+      { signal: null, status: 'saturated' },
+    ])
+    expect(saturated).toMatchObject({ wells: 2, n: 0, saturated: 2, mean: null })
+    const stillValid = runValidity(settings, [controls[0], saturated, controls[2]], 0.5)
+    expect(stillValid.valid).toBe(true)
+    expect(stillValid.checks.find((c) => c.label === 'Positive control calls positive')?.detail).toBe('Saturated (n = 2).')
+
+    const unreadable = summarizeControl('Negative', [
+      { signal: null, status: 'invalid' },
+      { signal: null, status: 'saturated' },
+    ])
+    const invalid = runValidity(settings, [...controls.slice(0, 2), unreadable], 0.5)
+    expect(invalid.valid).toBe(false)
+    expect(invalid.checks.filter((c) => !c.pass)).toEqual([
+      { label: 'Negative control calls negative', pass: false, detail: 'No usable reading from 2 wells.' },
+    ])
+  })
+})
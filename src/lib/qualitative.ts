@@ -0,0 +1,203 @@
+import type { ReadingStatus } from './elisaReader'
+import { CONTROL_WELL_LABELS, type ControlWellType } from './layoutModel'
+
+// Qualitative (diagnostic-style) calls against a cutoff.
+//
+// The cutoff is a linear formula of one control's mean signal, e.g. 1 × cutoff calibrator or
+// negative control + 0.15. Each sample gets a signal-to-cutoff ratio (S/CO) and a call; ratios
+// inside the grey zone are equivocal. The run is valid only when every control criterion passes.
+
+export type CutoffSettings = {
+  // Control whose mean signal the cutoff is based on.
+  source: ControlWellType
+  // cutoff = factor × mean(source) + offset, in blank-corrected signal units.
+  factor: number
+  offset: number
+  // Grey zone on the S/CO scale: [equivocalLow, equivocalHigh) is equivocal.
+  equivocalLow: number
+  equivocalHigh: number
+}
+
+export type ValidityCriteria = {
+  // Limits on the control means, in blank-corrected signal units; null skips the check.
+  minPositive: number | null
+  maxNegative: number | null
+  // Largest accepted replicate CV of each control, in percent; null skips the check.
+  maxControlCvPct: number | null
+}
+
+export type QualitativeSettings = CutoffSettings & ValidityCriteria
+
+export const DEFAULT_QUALITATIVE_SETTINGS: QualitativeSettings = {
+  source: 'Cutoff',
+  factor: 1,
+  offset: 0,
+  equivocalLow: 0.9,
+  equivocalHigh: 1.1,
+  minPositive: null,
+  maxNegative: null,
+  maxControlCvPct: 20,
+}
+
+export type QualitativeCall = 'Positive' | 'Equivocal' | 'Negative'
+
+// One laid-out control well: its blank-corrected signal (null when unusable) and read status.
+export type ControlReading = {
+  signal: number | null
+  status: ReadingStatus
+}
+
+export type ControlSummary = {
+  type: ControlWellType
+  // Control wells laid out on the plate, and how many of them gave a usable signal.
+  wells: number
+  n: number
+  // Off-scale wells without a signal: still a clear call, for a positive or negative control.
+  saturated: number
+  belowDetection: number
+  mean: number | null
+  cvPct: number | null
+}
+
+export type ValidityCheck = {
+  label: string
+  pass: boolean
+  detail: string
+}
+
+export type RunValidity = {
+  valid: boolean
+  checks: ValidityCheck[]
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+
+export const summarizeControl = (type: ControlWellType, readings: ControlReading[]): ControlSummary => {
+  const vals = readings.map((r) => r.signal).filter(isFiniteNumber)
+  const n = vals.length
+  const offScale = (status: ReadingStatus) => readings.filter((r) => !isFiniteNumber(r.signal) && r.status === status).length
+  const base = { type, wells: readings.length, n, saturated: offScale('saturated'), belowDetection: offScale('belowDetection') }
+  const mean = n ? vals.reduce((acc, v) => acc + v, 0) / n : null
+  if (mean === null || n < 2 || mean === 0) return { ...base, mean, cvPct: null }
+  const sd = Math.sqrt(vals.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (n - 1))
+  return { ...base, mean, cvPct: (100 * sd) / Math.abs(mean) }
+}
+
+// Cutoff signal from the source control; null without that control or for a non-positive cutoff.
+export const cutoffSignal = (settings: CutoffSettings, controls: ControlSummary[]): number | null => {
+  const source = controls.find((c) => c.type === settings.source)
+  if (!source || source.mean === null || !isFiniteNumber(settings.factor) || !isFiniteNumber(settings.offset)) return null
+  const cutoff = settings.factor * source.mean + settings.offset
+  return cutoff > 0 ? cutoff : null
+}
+
+// Formula as shown in the card and the export header, e.g. "1 × mean(negative control) + 0.15".
+export const formatCutoffFormula = (settings: CutoffSettings): string => {
+  const base = `${settings.factor} × mean(${CONTROL_WELL_LABELS[settings.source].toLowerCase()})`
+  if (!settings.offset) return base
+  return `${base} ${settings.offset < 0 ? '−' : '+'} ${Math.abs(settings.offset)}`
+}
+
+export const callFor = (ratio: number, settings: Pick<CutoffSettings, 'equivocalLow' | 'equivocalHigh'>): QualitativeCall => {
+  if (ratio >= settings.equivocalHigh) return 'Positive'
+  if (ratio < settings.equivocalLow) return 'Negative'
+  return 'Equivocal'
+}
+
+// S/CO and call of one sample well. Off-scale reads have no ratio: saturated wells call positive,
+// below-detection wells negative.
+export const classifySample = (
+  signal: number | null,
+  status: 'ok' | 'saturated' | 'belowDetection',
+  cutoff: number,
+  settings: Pick<CutoffSettings, 'equivocalLow' | 'equivocalHigh'>
+): { ratio: number | null; call: QualitativeCall | null } => {
+  if (status === 'saturated') return { ratio: null, call: 'Positive' }
+  if (status === 'belowDetection') return { ratio: null, call: 'Negative' }
+  if (!isFiniteNumber(signal)) return { ratio: null, call: null }
+  const ratio = signal / cutoff
+  return { ratio, call: callFor(ratio, settings) }
+}
+
+// Outcome of a control that must read on one side of the cutoff. Readable wells are judged by their mean;
+// with none, wells off-scale on the expected side pass and anything else fails.
+const controlCheck = (
+  label: string,
+  control: ControlSummary,
+  expected: 'Positive' | 'Negative',
+  pass: (mean: number) => { pass: boolean; detail: string }
+): ValidityCheck => {
+  if (control.mean !== null) return { label, ...pass(control.mean) }
+  const offScale = expected === 'Positive' ? control.saturated : control.belowDetection
+  if (offScale > 0) {
+    return { label, pass: true, detail: `${expected === 'Positive' ? 'Saturated' : 'Below detection'} (n = ${offScale}).` }
+  }
+  return { label, pass: false, detail: `No usable reading from ${control.wells} well${control.wells === 1 ? '' : 's'}.` }
+}
+
+/**
+ * Run validity against the control criteria. A cutoff needs its source control; the positive control
+ * must call positive and the negative control negative whenever they are laid out on the plate, even
+ * if none of their wells could be read. Limits on the control means and CVs are checked when set.
+ */
+export const runValidity = (settings: QualitativeSettings, controls: ControlSummary[], cutoff: number | null): RunValidity => {
+  const checks: ValidityCheck[] = []
+  const byType = (type: ControlWellType) => controls.find((c) => c.type === type && c.wells > 0) ?? null
+  const pos = byType('Positive')
+  const neg = byType('Negative')
+  const fmt = (n: number) => n.toPrecision(4)
+
+  checks.push({
+    label: 'Cutoff',
+    pass: cutoff !== null,
+    detail:
+      cutoff === null
+        ? `No positive cutoff from the ${CONTROL_WELL_LABELS[settings.source].toLowerCase()} wells.`
+        : `Cutoff ${fmt(cutoff)}.`,
+  })
+  if (cutoff !== null && pos) {
+    checks.push(
+      controlCheck('Positive control calls positive', pos, 'Positive', (mean) => ({
+        pass: callFor(mean / cutoff, settings) === 'Positive',
+        detail: `S/CO ${(mean / cutoff).toFixed(2)}.`,
+      }))
+    )
+  }
+  if (cutoff !== null && neg) {
+    checks.push(
+      controlCheck('Negative control calls negative', neg, 'Negative', (mean) => ({
+        pass: callFor(mean / cutoff, settings) === 'Negative',
+        detail: `S/CO ${(mean / cutoff).toFixed(2)}.`,
+      }))
+    )
+  }
+  if (settings.minPositive !== null) {
+    const label = `Positive control ≥ ${settings.minPositive}`
+    const min = settings.minPositive
+    checks.push(
+      pos
+        ? controlCheck(label, pos, 'Positive', (mean) => ({ pass: mean >= min, detail: `Mean ${fmt(mean)}.` }))
+        : { label, pass: false, detail: 'No positive control wells.' }
+    )
+  }
+  if (settings.maxNegative !== null) {
+    const label = `Negative control ≤ ${settings.maxNegative}`
+    const max = settings.maxNegative
+    checks.push(
+      neg
+        ? controlCheck(label, neg, 'Negative', (mean) => ({ pass: mean <= max, detail: `Mean ${fmt(mean)}.` }))
+        : { label, pass: false, detail: 'No negative control wells.' }
+    )
+  }
+  if (settings.maxControlCvPct !== null) {
+    for (const c of controls) {
+      if (c.cvPct === null) continue
+      checks.push({
+        label: `${CONTROL_WELL_LABELS[c.type]} CV ≤ ${settings.maxControlCvPct}%`,
+        pass: c.cvPct <= settings.maxControlCvPct,
+        detail: `CV ${c.cvPct.toFixed(1)}% (n = ${c.n}).`,
+      })
+    }
+  }
+  return { valid: checks.every((c) => c.pass), checks }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { offScaleRange } from './assayDirection'
+import { eval4pl, invert4pl } from './logistic4pl'
+import { quantLimits, rangeLabel, reportedConc, standardRecoveries, type CurveFns } from './quantLimits'
+
+const params = { A: 0.05, D: 2.2, C: 1.0, B: 1.2 }
+const curve: CurveFns = {
+  evaluate: (x) => eval4pl(params, x),
+  invert: (y) => invert4pl(params, y, 1e-4, 1e5),
+}
+const concs = [0.1, 0.3, 1, 3, 10, 30, 100]
+
+describe('quantLimits', () => {
+  it('takes LLOQ and ULOQ from the longest run of standards meeting the criteria', () => {
+    const levels = concs.map((conc, i) => {
+      const y = eval4pl(params, conc)
+      // Std1 recovers badly and Std7 has poor replicate agreement.
+      const signals = i === 0 ? [y + 0.02, y + 0.02] : i === 6 ? [y - 0.1, y + 0.1] : [y, y]
+      return { level: `Std${i + 1}`, conc, signals }
+    })
+
+    const blanks = [0.05, 0.052, 0.048, 0.054]
+    const limits = quantLimits(blanks, levels, curve)
+    expect(limits.standards.map((s) => s.pass)).toEqual([false, true, true, true, true, true, false])
+    expect(limits.standards[2].recoveryPct).toBeCloseTo(100, 6)
+    expect(limits.lloq).toBe(0.3)
+    expect(limits.uloq).toBe(30)
+
+    // Blank mean 0.051, SD sqrt(0.00002 / 3).
+    expect(limits.lodSignal).toBeCloseTo(0.051 + 3 * Math.sqrt(0.00002 / 3), 10)
+    expect(limits.lod).toBeGreaterThan(0)
+    expect(limits.lod).toBeLessThan(limits.lloq!)
+  })
+
+  it('labels samples by signal and substitutes out-of-range values on request', () => {
+    const levels = concs.map((conc, i) => ({ level: `Std${i + 1}`, conc, signals: [eval4pl(params, conc)] }))
+    const limits = quantLimits([], levels, curve)
+    expect(limits.lloq).toBe(0.1)
+    expect(limits.uloq).toBe(100)
+    expect(limits.lod).toBeNull()
+
+    expect(rangeLabel(eval4pl(params, 5), limits, curve)).toBe('in range')
+    expect(rangeLabel(0.01, limits, curve)).toBe('<LLOQ')
+    expect(rangeLabel(2.19, limits, curve)).toBe('>ULOQ')
+
+    expect(reportedConc('in range', 5, limits, 'lloqHalf')).toBe(5)
+    expect(reportedConc('<LLOQ', null, limits, 'none')).toBeNull()
+    expect(reportedConc('<LLOQ', null, limits, 'lloqHalf')).toBe(0.05)
+    expect(reportedConc('<LLOQ', 0.08, limits, 'limit')).toBe(0.1)
+    expect(reportedConc('>ULOQ', null, limits, 'lloqHalf')).toBe(100)
+  })
+
+  it('substitutes the limit for saturated sample wells', () => {
+    const levels = concs.map((conc, i) => ({ level: `Std${i + 1}`, conc, signals: [eval4pl(params, conc)] }))
+    const limits = quantLimits([], levels, curve)
+    // A saturated 1:4 well has no signal to invert, but still reports ULOQ × dilution.
+    const range = offScaleRange('saturated', 'sandwich')
+    expect(range).toBe('>ULOQ')
+    expect(reportedConc(range, null, limits, 'limit')! * 4).toBe(400)
+    expect(reportedConc(offScaleRange('belowDetection', 'sandwich'), null, limits, 'limit')! * 4).toBeCloseTo(0.4, 10)
+    expect(reportedConc(range, null, limits, 'none')).toBeNull()
+  })
+
+  it('flips the range checks for decreasing (competitive) curves', () => {
+    const competitive = { A: 2.2, D: 0.05, C: 1.0, B: 1.2 }
+    const fns: CurveFns = {
+      evaluate: (x) => eval4pl(competitive, x),
+      invert: (y) => invert4pl(competitive, y, 1e-4, 1e5),
+    }
+    const levels = concs.map((conc, i) => ({ level: `Std${i + 1}`, conc, signals: [eval4pl(competitive, conc)] }))
+    const limits = quantLimits([2.2, 2.18, 2.21], levels, fns)
+    expect(limits.lodSignal).toBeLessThan(2.2)
+    expect(rangeLabel(2.195, limits, fns)).toBe('<LLOQ')
+    expect(rangeLabel(0.06, limits, fns)).toBe('>ULOQ')
+  })
+
+  it('accepts a wider recovery at the lowest and highest standards', () => {
+    // Every level back-calculates to 125% of nominal.
+    const levels = concs.map((conc, i) => ({ level: `Std${i + 1}`, conc, signals: [eval4pl(params, conc * 1.25)] }))
+    const standards = standardRecoveries(levels, curve)
+    expect(standards.map((s) => s.tolerancePct)).toEqual([30, 20, 20, 20, 20, 20, 30])
+    expect(standards.map((s) => s.pass)).toEqual([true, false, false, false, false, false, true])
+    standards.forEach((s) => expect(s.recoveryPct).toBeCloseTo(125, 4))
+  })
+})
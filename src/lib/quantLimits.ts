@@ -0,0 +1,174 @@
+import { evalCurve, invertCurve, type FittedCurve } from './curveModels'
+
+// Detection and quantification limits for a fitted standard curve.
+//
+// LOD comes from the blank wells (mean + 3 SD, back-calculated). LLOQ and ULOQ are the lowest and
+// highest standards of the longest run of consecutive levels whose back-calculated concentrations
+// meet the recovery and CV criteria.
+
+export type QuantCriteria = {
+  // Accepted deviation of mean back-calculated concentration from nominal, in percent.
+  recoveryTolerancePct: number
+  // Wider deviation accepted at the lowest and highest standards, the LLOQ and ULOQ candidates.
+  limitRecoveryTolerancePct: number
+  // Largest accepted CV of the replicate back-calculations, in percent.
+  maxCvPct: number
+}
+
+export const DEFAULT_QUANT_CRITERIA: QuantCriteria = { recoveryTolerancePct: 20, limitRecoveryTolerancePct: 30, maxCvPct: 20 }
+
+// The fitted curve, in blank-corrected signal units.
+export type CurveFns = {
+  evaluate: (conc: number) => number
+  // Back-calculation; null where the curve cannot be inverted.
+  invert: (signal: number) => number | null
+}
+
+// Inversion may extrapolate past the standards so LOD and off-range standards still back-calculate.
+export const curveFnsFor = (curve: FittedCurve, minConc: number, maxConc: number): CurveFns => {
+  // Polynomials turn over outside the standards, so only search from zero to twice the top standard.
+  const lo = curve.kind === 'poly' ? 0 : minConc / 1e3
+  const hi = curve.kind === 'poly' ? maxConc * 2 : maxConc * 1e3
+  return { evaluate: (x) => evalCurve(curve, x), invert: (y) => invertCurve(curve, y, lo, hi) }
+}
+
+export type StdLevelSignals = {
+  level: string
+  conc: number
+  signals: number[]
+}
+
+export type StandardRecovery = {
+  level: string
+  conc: number
+  // Back-calculated concentration of each replicate (null where the inversion failed).
+  backCalc: Array<number | null>
+  backCalcMean: number | null
+  recoveryPct: number | null
+  cvPct: number | null
+  // Recovery tolerance applied to this level (wider at the ends of the curve).
+  tolerancePct: number
+  pass: boolean
+}
+
+export type QuantLimits = {
+  lodSignal: number | null
+  lod: number | null
+  lloq: number | null
+  uloq: number | null
+  standards: StandardRecovery[]
+}
+
+export type RangeLabel = '<LLOQ' | '>ULOQ' | 'in range'
+
+// What to report for samples outside the quantifiable range.
+export type OutOfRangeSubstitute = 'none' | 'lloqHalf' | 'limit'
+
+export const DEFAULT_OUT_OF_RANGE_SUBSTITUTE: OutOfRangeSubstitute = 'none'
+
+export const OUT_OF_RANGE_SUBSTITUTE_LABELS: Record<OutOfRangeSubstitute, string> = {
+  none: 'Leave blank',
+  lloqHalf: 'LLOQ/2 and ULOQ',
+  limit: 'LLOQ and ULOQ',
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+
+const meanSd = (values: number[]): { mean: number; sd: number | null } | null => {
+  if (!values.length) return null
+  const mean = values.reduce((acc, v) => acc + v, 0) / values.length
+  if (values.length < 2) return { mean, sd: null }
+  const sd = Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (values.length - 1))
+  return { mean, sd }
+}
+
+// Signal rises with concentration (sandwich ELISA) unless the curve says otherwise (competitive).
+export const curveIncreases = (curve: CurveFns, minConc: number, maxConc: number): boolean =>
+  curve.evaluate(maxConc) >= curve.evaluate(minConc)
+
+export const standardRecoveries = (
+  levels: StdLevelSignals[],
+  curve: CurveFns,
+  criteria: QuantCriteria = DEFAULT_QUANT_CRITERIA
+): StandardRecovery[] =>
+  levels
+    .filter((l) => isFiniteNumber(l.conc) && l.conc > 0 && l.signals.length > 0)
+    .sort((a, b) => a.conc - b.conc)
+    .map((l, i, sorted) => {
+      const atLimit = i === 0 || i === sorted.length - 1
+      const tolerancePct = atLimit ? criteria.limitRecoveryTolerancePct : criteria.recoveryTolerancePct
+      const backCalc = l.signals.map((s) => {
+        const c = curve.invert(s)
+        return isFiniteNumber(c) ? c : null
+      })
+      // Every replicate has to back-calculate, otherwise the level is outside the curve.
+      const ok = backCalc.filter(isFiniteNumber)
+      const stats = ok.length === backCalc.length ? meanSd(ok) : null
+      const backCalcMean = stats ? stats.mean : null
+      const recoveryPct = backCalcMean === null ? null : (backCalcMean / l.conc) * 100
+      const cvPct = stats && stats.sd !== null && stats.mean > 0 ? (stats.sd / stats.mean) * 100 : null
+      const pass =
+        recoveryPct !== null &&
+        Math.abs(recoveryPct - 100) <= tolerancePct &&
+        (cvPct === null || cvPct <= criteria.maxCvPct)
+      return { level: l.level, conc: l.conc, backCalc, backCalcMean, recoveryPct, cvPct, tolerancePct, pass }
+    })
+
+export const quantLimits = (
+  blanks: number[],
+  levels: StdLevelSignals[],
+  curve: CurveFns,
+  criteria: QuantCriteria = DEFAULT_QUANT_CRITERIA
+): QuantLimits => {
+  const standards = standardRecoveries(levels, curve, criteria)
+
+  // Longest run of consecutive passing levels; ties go to the lower concentrations.
+  let run: [number, number] | null = null
+  let start = -1
+  for (let i = 0; i < standards.length; i += 1) {
+    if (!standards[i].pass) {
+      start = -1
+      continue
+    }
+    if (start < 0) start = i
+    if (!run || i - start > run[1] - run[0]) run = [start, i]
+  }
+  const lloq = run ? standards[run[0]].conc : null
+  const uloq = run ? standards[run[1]].conc : null
+
+  let lodSignal: number | null = null
+  let lod: number | null = null
+  const blankStats = meanSd(blanks.filter(isFiniteNumber))
+  if (blankStats && blankStats.sd !== null && standards.length >= 2) {
+    const increasing = curveIncreases(curve, standards[0].conc, standards[standards.length - 1].conc)
+    lodSignal = blankStats.mean + (increasing ? 3 : -3) * blankStats.sd
+    lod = curve.invert(lodSignal)
+  }
+
+  return { lodSignal, lod, lloq, uloq, standards }
+}
+
+// Range label from the sample's signal, so off-curve samples (no back-calculation) are labelled too.
+export const rangeLabel = (signal: number, limits: QuantLimits, curve: CurveFns): RangeLabel | null => {
+  if (!isFiniteNumber(signal) || limits.lloq === null || limits.uloq === null) return null
+  const lowSignal = curve.evaluate(limits.lloq)
+  const highSignal = curve.evaluate(limits.uloq)
+  const increasing = highSignal >= lowSignal
+  if (increasing ? signal < lowSignal : signal > lowSignal) return '<LLOQ'
+  if (increasing ? signal > highSignal : signal < highSignal) return '>ULOQ'
+  return 'in range'
+}
+
+// Concentration to report (before dilution) for a sample with the given label.
+export const reportedConc = (
+  label: RangeLabel | null,
+  conc: number | null,
+  limits: QuantLimits,
+  substitute: OutOfRangeSubstitute
+): number | null => {
+  if (label === null || label === 'in range') return conc
+  if (substitute === 'none') return null
+  if (label === '>ULOQ') return limits.uloq
+  if (limits.lloq === null) return null
+  return substitute === 'lloqHalf' ? limits.lloq / 2 : limits.lloq
+}
@@ -0,0 +1,12 @@
+// How the Step 4 card reports samples: concentrations off the standard curve, endpoint titers of
+// dilution series, or qualitative calls against a cutoff.
+
+export type QuantMode = 'curve' | 'titer' | 'qualitative'
+
+export const DEFAULT_QUANT_MODE: QuantMode = 'curve'
+
+export const QUANT_MODE_LABELS: Record<QuantMode, string> = {
+  curve: 'Concentration (standard curve)',
+  titer: 'Endpoint titer (dilution series)',
+  qualitative: 'Qualitative (signal / cutoff)',
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { parseElisaReaderText } from './elisaReader'
+import { formatIssue } from './readerDiagnostics'
+import { COLS, letteredMatrix, sideBySide } from './readerTestPlates.test-utils'
+
+describe('readerDiagnostics', () => {
+  it('maps header, blocks and well cells to pasted lines and columns', () => {
+    // Blank lines are dropped by the parsers but still count towards line numbers.
+    const text = ['', 'Run 7', '', ...sideBySide((r, c) => (r === 1 && c === 2 ? 'Err' : '1.0000'))].join('\n')
+    const plate = parseElisaReaderText(text).plates[0]
+
+    expect(plate.diagnostics.blocks.map((b) => [b.role, b.line, b.col, b.endLine, b.endCol])).toEqual([
+      ['header', 4, 1, 4, 26],
+      ['primary', 5, 2, 12, 13],
+      ['reference', 5, 15, 12, 26],
+    ])
+    expect(plate.diagnostics.cells.A1).toEqual({ primary: { line: 5, col: 2 }, reference: { line: 5, col: 15 } })
+    expect(plate.diagnostics.cells.H12?.primary).toEqual({ line: 12, col: 13 })
+
+    expect(plate.wells.B3?.status).toBe('invalid')
+    expect(plate.diagnostics.issues).toEqual([
+      { message: 'B3 (450 nm) is not a number; the well is marked invalid.', line: 6, col: 4 },
+    ])
+    expect(plate.warnings[0]).toMatch(/^Line 6, column 4: B3/)
+  })
+
+  it('points at the stacked block each value came from', () => {
+    const block = (nm: number) => letteredMatrix(() => (nm === 450 ? '1.2' : '0.1'), '', String(nm))
+    const text = ['Software Version\t3.11', 'Reader Type:\tSynergy H1', ...block(570), ...block(450)].join('\n')
+    const parsed = parseElisaReaderText(text)
+    expect(parsed.parser).toBe('gen5')
+    // The 450 nm block is second: its header is line 12, A1 sits on line 13.
+    expect(parsed.diagnostics.cells.A1).toEqual({ primary: { line: 13, col: 2 }, reference: { line: 4, col: 2 } })
+    expect(parsed.diagnostics.blocks.filter((b) => b.role === 'header').map((b) => b.line)).toEqual([12, 3])
+  })
+
+  it('explains failed parses with line and column', () => {
+    const text = ['Plate results', ['', ...COLS.slice(0, 9)].join('\t'), ['A', '1', '2'].join('\t')].join('\n')
+    const parsed = parseElisaReaderText(text)
+    expect(parsed.parser).toBeNull()
+    expect(parsed.issues[1]).toEqual({
+      message: 'The column header stops at 9; a 96-well block needs columns 1–12.',
+      line: 2,
+      col: 11,
+    })
+    expect(parsed.warnings[1]).toBe(formatIssue(parsed.issues[1]))
+
+    const rowsMissing = parseElisaReaderText(sideBySide(() => 'x1').slice(0, 4).join('\n'))
+    const messages = rowsMissing.issues.map(formatIssue)
+    expect(messages).toContain('Line 2, column 2: "x1" is not a number.')
+    expect(messages.at(-1)).toBe('Line 4: Found 3 of 8 plate rows (A–H) below the column header.')
+  })
+})
@@ -0,0 +1,256 @@
+import type { WavelengthConfig } from './elisaReader'
+import { indexToWellId, type PlateFormat, type WellId } from './plateFormat'
+import { readCell, type Matrix } from './readerGrid'
+import { splitRow, type Separator } from './tableText'
+
+// Where each reading came from in the pasted text, so bad pastes can be traced back to a line and cell.
+//
+// Parsers report positions 0-based within the lines they were handed (blank lines dropped); once
+// parseElisaReaderText maps them, `line` is the 1-based line of the pasted text and `col` the
+// 1-based column (field) on that line.
+
+export type SourceRef = {
+  line: number
+  col: number
+}
+
+// Inclusive rectangle of cells.
+export type SourceRange = SourceRef & {
+  endLine: number
+  endCol: number
+}
+
+export type SourceBlockRole = 'header' | 'primary' | 'reference'
+
+export type SourceBlock = SourceRange & {
+  role: SourceBlockRole
+  label: string
+}
+
+export type WellSource = {
+  primary: SourceRef | null
+  reference: SourceRef | null
+}
+
+// A warning pinned to the cell it is about; `col` is null when the whole line is meant.
+export type ReaderIssue = {
+  message: string
+  line: number | null
+  col: number | null
+}
+
+export type ReaderDiagnostics = {
+  blocks: SourceBlock[]
+  cells: Partial<Record<WellId, WellSource>>
+  issues: ReaderIssue[]
+}
+
+export const EMPTY_DIAGNOSTICS: ReaderDiagnostics = { blocks: [], cells: {}, issues: [] }
+
+export const formatIssue = (issue: ReaderIssue): string => {
+  if (issue.line === null) return issue.message
+  return `Line ${issue.line}${issue.col === null ? '' : `, column ${issue.col}`}: ${issue.message}`
+}
+
+export const formatSource = (ref: SourceRef): string => `line ${ref.line}, column ${ref.col}`
+
+// Bounding box of the cells a matrix was read from.
+const matrixRange = (matrix: Matrix): SourceRange | null => {
+  const refs = matrix.flatMap((row) => row.flatMap((cell) => (cell.source ? [cell.source] : [])))
+  if (!refs.length) return null
+  return {
+    line: Math.min(...refs.map((r) => r.line)),
+    col: Math.min(...refs.map((r) => r.col)),
+    endLine: Math.max(...refs.map((r) => r.line)),
+    endCol: Math.max(...refs.map((r) => r.col)),
+  }
+}
+
+/**
+ * Diagnostics for a plate read from one primary and an optional reference matrix: the header rows,
+ * the two wavelength blocks, each well's source cells, and an issue for every invalid cell.
+ */
+export const plateDiagnostics = (
+  format: PlateFormat,
+  primary: Matrix,
+  reference: Matrix | null,
+  headers: SourceRange[],
+  wavelengths: WavelengthConfig
+): ReaderDiagnostics => {
+  const blocks: SourceBlock[] = headers.map((h) => ({ ...h, role: 'header', label: 'Column header' }))
+  const primaryRange = matrixRange(primary)
+  if (primaryRange) blocks.push({ ...primaryRange, role: 'primary', label: `${wavelengths.primary} nm` })
+  const referenceRange = reference && wavelengths.reference !== null ? matrixRange(reference) : null
+  if (referenceRange) blocks.push({ ...referenceRange, role: 'reference', label: `${wavelengths.reference} nm` })
+
+  const cells: Partial<Record<WellId, WellSource>> = {}
+  const issues: ReaderIssue[] = []
+  const nCols = format.cols.length
+  for (let r = 0; r < format.rows.length; r += 1) {
+    for (let c = 0; c < nCols; c += 1) {
+      const wellId = indexToWellId(format, r * nCols + c)
+      if (!wellId) continue
+      const p = primary[r]?.[c]
+      const ref = wavelengths.reference === null ? undefined : reference?.[r]?.[c]
+      cells[wellId] = { primary: p?.source ?? null, reference: ref?.source ?? null }
+      for (const [cell, nm] of [
+        [p, wavelengths.primary],
+        [ref, wavelengths.reference],
+      ] as const) {
+        if (cell?.status !== 'invalid' || !cell.source) continue
+        issues.push({ message: `${wellId} (${nm} nm) is not a number; the well is marked invalid.`, ...cell.source })
+      }
+    }
+  }
+  return { blocks, cells, issues }
+}
+
+// Moves 0-based positions down by `lines`, for parsers that read a slice of their text.
+export const offsetDiagnostics = (diagnostics: ReaderDiagnostics, lines: number): ReaderDiagnostics => {
+  const ref = <T extends SourceRef>(r: T): T => ({ ...r, line: r.line + lines })
+  const cells: Partial<Record<WellId, WellSource>> = {}
+  for (const [wellId, source] of Object.entries(diagnostics.cells)) {
+    if (!source) continue
+    cells[wellId] = {
+      primary: source.primary && ref(source.primary),
+      reference: source.reference && ref(source.reference),
+    }
+  }
+  return {
+    blocks: diagnostics.blocks.map((b) => ({ ...ref(b), endLine: b.endLine + lines })),
+    cells,
+    issues: diagnostics.issues.map((i) => (i.line === null ? i : { ...i, line: i.line + lines })),
+  }
+}
+
+/**
+ * Maps 0-based parser positions to 1-based pasted-text positions. `lineAt` turns a parser line index
+ * into a 1-based line number of the paste.
+ */
+export const toPastedPositions = (diagnostics: ReaderDiagnostics, lineAt: (idx: number) => number): ReaderDiagnostics => {
+  const ref = <T extends SourceRef>(r: T): T => ({ ...r, line: lineAt(r.line), col: r.col + 1 })
+  const cells: Partial<Record<WellId, WellSource>> = {}
+  for (const [wellId, source] of Object.entries(diagnostics.cells)) {
+    if (!source) continue
+    cells[wellId] = {
+      primary: source.primary && ref(source.primary),
+      reference: source.reference && ref(source.reference),
+    }
+  }
+  return {
+    blocks: diagnostics.blocks.map((b) => ({ ...ref(b), endLine: lineAt(b.endLine), endCol: b.endCol + 1 })),
+    cells,
+    issues: diagnostics.issues.map((i) => ({
+      ...i,
+      line: i.line === null ? null : lineAt(i.line),
+      col: i.col === null ? null : i.col + 1,
+    })),
+  }
+}
+
+// 1-based line numbers of the non-blank lines of a paste; parsers only ever see those lines.
+export const pastedLineNumbers = (text: string): number[] =>
+  text
+    .replace(/\r/g, '')
+    .split('\n')
+    .flatMap((line, idx) => (line.trim() ? [idx + 1] : []))
+
+// Cells of every pasted line as the parsers split them (blank lines give no cells).
+export const pastedCells = (text: string, separator: Separator): string[][] => {
+  let first = true
+  return text
+    .replace(/\r/g, '')
+    .split('\n')
+    .map((line) => {
+      if (!line.trim()) return []
+      // The paste is trimmed as a whole, so only the first non-blank line loses its leading whitespace.
+      const cells = splitRow(first ? line.trim() : line.trimEnd(), separator)
+      first = false
+      return cells
+    })
+}
+
+const columnHeaderRun = (row: string[]): { start: number; length: number } => {
+  let best = { start: -1, length: 0 }
+  row.forEach((cell, idx) => {
+    if (cell.trim() !== '1') return
+    let length = 1
+    while (row[idx + length]?.trim() === String(length + 1)) length += 1
+    if (length > best.length) best = { start: idx, length }
+  })
+  return best
+}
+
+/**
+ * Explains why no parser could read the text: a missing or short "1..N" column header, missing plate
+ * rows, non-numeric cells, or a missing reference block. Positions are 0-based like parser output.
+ */
+export const explainReaderFailure = (
+  rows: string[][],
+  format: PlateFormat,
+  wavelengths: WavelengthConfig
+): ReaderIssue[] => {
+  const nCols = format.cols.length
+  const nRows = format.rows.length
+  if (!rows.length) return []
+
+  let headerIdx = -1
+  let run = { start: -1, length: 0 }
+  rows.forEach((row, idx) => {
+    const candidate = columnHeaderRun(row)
+    if (candidate.length > run.length) {
+      headerIdx = idx
+      run = candidate
+    }
+  })
+
+  if (headerIdx < 0 || run.length < 2) {
+    return [
+      {
+        message: `No column header row (1, 2, … ${nCols}) was found; each plate block needs one above its ${nRows} plate rows.`,
+        line: 0,
+        col: null,
+      },
+    ]
+  }
+  if (run.length < nCols) {
+    return [
+      {
+        message: `The column header stops at ${run.length}; a ${format.label} block needs columns 1–${nCols}.`,
+        line: headerIdx,
+        col: run.start + run.length,
+      },
+    ]
+  }
+
+  const issues: ReaderIssue[] = []
+  const runs = rows[headerIdx].filter((c, idx, all) => c.trim() === '1' && all[idx + 1]?.trim() === '2').length
+  if (wavelengths.reference !== null && runs < 2) {
+    issues.push({
+      message: `Only one wavelength block starts here; expected ${wavelengths.primary} and ${wavelengths.reference} nm blocks (or set the reference to none).`,
+      line: headerIdx,
+      col: run.start,
+    })
+  }
+
+  let dataRows = 0
+  for (let k = headerIdx + 1; k < rows.length && dataRows < nRows; k += 1) {
+    const row = rows[k]
+    const values = row.slice(run.start, run.start + nCols)
+    if (!values.some((v) => v.trim())) break
+    dataRows += 1
+    values.forEach((v, c) => {
+      if (readCell(v).status === 'invalid' && issues.length < 10) {
+        issues.push({ message: `"${v.trim()}" is not a number.`, line: k, col: run.start + c })
+      }
+    })
+  }
+  if (dataRows < nRows) {
+    issues.push({
+      message: `Found ${dataRows} of ${nRows} plate rows (${format.rows[0]}–${format.rows[nRows - 1]}) below the column header.`,
+      line: headerIdx + dataRows,
+      col: null,
+    })
+  }
+  return issues
+}
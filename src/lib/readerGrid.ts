@@ -0,0 +1,309 @@
+import type { ElisaWellReading, ReadingStatus, WavelengthConfig } from './elisaReader'
+import { indexToWellId, type PlateFormat, type WellId } from './plateFormat'
+import type { SourceRange, SourceRef } from './readerDiagnostics'
+import { detectDecimalMark, detectSeparator, parseLocaleNumber, splitRow, type DecimalMark, type Separator } from './tableText'
+
+// Low-level helpers shared by the generic and vendor-specific reader parsers.
+
+export type { Separator } from './tableText'
+
+// A single reader value. Saturated / below-detection markers keep their bound (">4.0" → 4) when one is given.
+// `source` is the line and cell the value was read from, when the parser tracks it.
+export type ReaderCell = {
+  value: number | null
+  status: ReadingStatus
+  source?: SourceRef
+}
+
+export type Matrix = ReaderCell[][]
+
+export type WavelengthBlock = {
+  wavelength: number | null
+  matrix: Matrix
+  // The block's "1..N" column header cells.
+  header: SourceRange | null
+}
+
+// Reader text reaches the parsers normalised to a '.' decimal mark (see normalizeReaderText).
+// Absorbances are never thousands-grouped, so any ',' left ("0,123", "1,500") makes the cell unreadable.
+export const toNumber = (value: string): number | null => {
+  const s = value.trim()
+  if (!s || s.includes(',')) return null
+  const up = s.toUpperCase()
+  if (['NA', 'NAN', 'INF', '#DIV/0!', 'UNDETERMINED'].includes(up)) return null
+  return parseLocaleNumber(s, '.')
+}
+
+const SATURATED_MARKER = /^(?:OVRFLW|OVERFLOW|OVFLW|OVER|OVR|SAT(?:URATED)?|HIGH|HI|\*+|>.*)$/i
+const BELOW_DETECTION_MARKER = /^(?:UNDERFLOW|UNDER|BELOW|LOW|LO|<.*)$/i
+
+const boundOf = (s: string): number | null => toNumber(s.replace(/^[<>]=?/, ''))
+
+const readCellValue = (value: string): ReaderCell => {
+  const s = value.trim()
+  if (!s) return { value: null, status: 'ok' }
+  const n = toNumber(s)
+  if (n !== null) return { value: n, status: 'ok' }
+  if (SATURATED_MARKER.test(s)) return { value: boundOf(s), status: 'saturated' }
+  if (BELOW_DETECTION_MARKER.test(s)) return { value: boundOf(s), status: 'belowDetection' }
+  return { value: null, status: 'invalid' }
+}
+
+// Like toNumber, but keeps reader markers ("OVRFLW", "*", ">4.0", "Sat", "<0.001") as a status instead of dropping them.
+export const readCell = (value: string, source?: SourceRef): ReaderCell => {
+  const cell = readCellValue(value)
+  return source ? { ...cell, source } : cell
+}
+
+// Rows of pure text (titles, notes) are not data; rows with recognised reader markers are.
+const isDataCell = (cell: ReaderCell) => cell.value !== null || cell.status === 'saturated' || cell.status === 'belowDetection'
+
+export const splitPreserve = (line: string, sep: Separator): string[] => splitRow(line, sep)
+
+// Vendor exports start with free-text metadata, so they sniff the separator over more lines.
+export const detectSep = (text: string, headLines = 5): Separator => detectSeparator(text, headLines)
+
+export const splitLines = (text: string): string[] =>
+  text
+    .replace(/\r/g, '')
+    .trim()
+    .split('\n')
+    .map((l) => l.trimEnd())
+    .filter((l) => l.trim().length > 0)
+
+export type ReaderTextOptions = {
+  separator?: Separator | 'auto'
+  decimal?: DecimalMark | 'auto'
+}
+
+/**
+ * Rewrites a reader paste as tab-separated text with '.' decimals, so every parser can stay
+ * separator- and locale-agnostic. Quoted fields are unwrapped; markers keep their prefix ("<0,01" → "<0.01").
+ */
+export const normalizeReaderText = (
+  text: string,
+  options: ReaderTextOptions = {}
+): { text: string; separator: Separator; decimal: DecimalMark } => {
+  const lines = splitLines(text)
+  const separator =
+    !options.separator || options.separator === 'auto' ? detectSeparator(lines.join('\n'), lines.length) : options.separator
+  const rows = lines.map((l) => splitRow(l, separator))
+  const decimal = !options.decimal || options.decimal === 'auto' ? detectDecimalMark(rows, separator) : options.decimal
+  const forced = !!options.separator && options.separator !== 'auto'
+  if (decimal === '.' && !forced && !text.includes('"')) return { text, separator, decimal }
+
+  const normalizeCell = (cell: string) => {
+    if (decimal === '.') return cell
+    // Grouped values ("1.500") are rewritten in '.' form ("1,500"), which toNumber rejects.
+    if (/^[+-]?\d+(\.\d{3})+(,\d*)?$/.test(cell.trim())) return cell.trim().replace(/[.,]/g, (c) => (c === '.' ? ',' : '.'))
+    const match = /^([<>]=?)?(.*)$/.exec(cell.trim())
+    const n = parseLocaleNumber(match?.[2] ?? '', ',')
+    return n === null ? cell : `${match?.[1] ?? ''}${n}`
+  }
+  return {
+    text: rows.map((r) => r.map((c) => normalizeCell(c).replace(/\t/g, ' ')).join('\t')).join('\n'),
+    separator,
+    decimal,
+  }
+}
+
+// Finds the first run of column headers 1..nCols in a row; returns its start index or -1.
+const findColumnHeaderStart = (row: string[], nCols: number): number => {
+  for (let start = 0; start + nCols <= row.length; start += 1) {
+    let ok = true
+    for (let c = 0; c < nCols; c += 1) {
+      if (row[start + c]?.trim() !== String(c + 1)) {
+        ok = false
+        break
+      }
+    }
+    if (ok) return start
+  }
+  return -1
+}
+
+/**
+ * Reads wavelength matrices stacked vertically, each laid out as a "1..N" column header
+ * followed by rows labelled A, B, C, ... `labelFor` names the wavelength of each block.
+ */
+export const readStackedBlocks = (
+  rows: string[][],
+  format: PlateFormat,
+  labelFor: (headerIdx: number, firstDataRow: string[], valuesEnd: number) => number | null
+): WavelengthBlock[] => {
+  const nRows = format.rows.length
+  const nCols = format.cols.length
+  const blocks: WavelengthBlock[] = []
+
+  let i = 0
+  while (i < rows.length) {
+    const start = findColumnHeaderStart(rows[i], nCols)
+    if (start < 0) {
+      i += 1
+      continue
+    }
+
+    const headerIdx = i
+    const matrix: Matrix = []
+    let firstDataRow: string[] = []
+    let valuesEnd = 0
+    let j = i + 1
+    while (j < rows.length && matrix.length < nRows) {
+      const letter = format.rows[matrix.length]
+      const row = rows[j]
+      const labelIdx = row.findIndex((c) => c.trim().toUpperCase() === letter)
+      if (labelIdx < 0 || labelIdx > start) break
+      if (!matrix.length) firstDataRow = row
+      valuesEnd = labelIdx + 1 + nCols
+      matrix.push(
+        Array.from({ length: nCols }, (_, c) => readCell(row[labelIdx + 1 + c] ?? '', { line: j, col: labelIdx + 1 + c }))
+      )
+      j += 1
+    }
+
+    if (matrix.length === nRows) {
+      const header = { line: headerIdx, col: start, endLine: headerIdx, endCol: start + nCols - 1 }
+      blocks.push({ wavelength: labelFor(headerIdx, firstDataRow, valuesEnd), matrix, header })
+      i = j
+    } else {
+      i += 1
+    }
+  }
+
+  return blocks
+}
+
+/**
+ * Reads the classic side-by-side layout: one header row with one "1..N" run per wavelength
+ * (primary, then reference), followed by the plate rows. `blockCount` is 1 in single-wavelength mode.
+ */
+export const readSideBySideBlocks = (
+  rows: string[][],
+  format: PlateFormat,
+  blockCount: 1 | 2 = 2
+): { matrices: Matrix[]; temperatureC: number | null; header: SourceRange } | null => {
+  const headerIdx = rows.findIndex((r) => r.some((c) => /temperature/i.test(c)))
+  const resolvedHeaderIdx =
+    headerIdx >= 0 ? headerIdx : rows.findIndex((r) => r.filter((c) => c.trim() === '1').length >= blockCount)
+  if (resolvedHeaderIdx < 0) return null
+
+  const header = rows[resolvedHeaderIdx]
+  const tempCol = header.findIndex((c) => /temperature/i.test(c))
+  const oneIndices: number[] = []
+  header.forEach((cell, idx) => {
+    if (cell.trim() === '1') oneIndices.push(idx)
+  })
+  if (oneIndices.length < blockCount) return null
+  const starts = oneIndices.slice(0, blockCount)
+  const lastStart = starts[starts.length - 1]
+  const nRows = format.rows.length
+  const nCols = format.cols.length
+
+  const matrices: Matrix[] = starts.map(() => [])
+  let temperatureC: number | null = null
+
+  for (let line = resolvedHeaderIdx + 1; line < rows.length; line += 1) {
+    const row = rows[line]
+    const padded =
+      row.length < lastStart + nCols ? [...row, ...Array.from({ length: lastStart + nCols - row.length }, () => '')] : row
+    const vals = starts.map((start) =>
+      Array.from({ length: nCols }, (_, i) => readCell(padded[start + i] ?? '', { line, col: start + i }))
+    )
+    const hasAny = vals.some((v) => v.some(isDataCell))
+    if (!hasAny) continue
+
+    if (temperatureC === null && tempCol >= 0) {
+      // Temperature sits under the Temperature header of the first data row; without that header there is none.
+      temperatureC = toNumber(padded[tempCol] ?? '') ?? null
+    }
+
+    vals.forEach((v, idx) => matrices[idx].push(v))
+    if (matrices[0].length >= nRows) break
+  }
+
+  if (matrices.some((m) => m.length < nRows)) return null
+  const headerRange = { line: resolvedHeaderIdx, col: 0, endLine: resolvedHeaderIdx, endCol: lastStart + nCols - 1 }
+  return { matrices, temperatureC, header: headerRange }
+}
+
+// Looks upwards from a block header for the closest line that names its wavelength.
+export const wavelengthAbove = (lines: string[], headerIdx: number, pattern: RegExp, maxDistance = 6): number | null => {
+  for (let k = headerIdx - 1; k >= Math.max(0, headerIdx - maxDistance); k -= 1) {
+    const match = pattern.exec(lines[k])
+    if (match) {
+      const nm = Number(match[1])
+      if (Number.isFinite(nm)) return nm
+    }
+  }
+  return null
+}
+
+export const findLabelledNumber = (lines: string[], label: RegExp): number | null => {
+  for (const line of lines) {
+    if (!label.test(line)) continue
+    const match = /[-+]?\d+(?:\.\d+)?/.exec(line.replace(label, ''))
+    if (match) return Number(match[0])
+  }
+  return null
+}
+
+// Chooses the primary and reference blocks by label, falling back to block order.
+export const pickWavelengths = (
+  blocks: WavelengthBlock[],
+  wavelengths: WavelengthConfig
+): { primary: Matrix; reference: Matrix | null; headers: SourceRange[] } | null => {
+  if (!blocks.length) return null
+  const primary = blocks.find((b) => b.wavelength === wavelengths.primary) ?? blocks.find((b) => b.wavelength === null) ?? null
+  if (!primary) return null
+  const headersOf = (...picked: Array<WavelengthBlock | null>) =>
+    picked.flatMap((b) => (b?.header ? [b.header] : [])).filter((h, idx, all) => all.findIndex((o) => o.line === h.line) === idx)
+  if (wavelengths.reference === null) return { primary: primary.matrix, reference: null, headers: headersOf(primary) }
+  const reference =
+    blocks.find((b) => b.wavelength === wavelengths.reference) ??
+    blocks.find((b) => b !== primary && b.wavelength === null) ??
+    null
+  return { primary: primary.matrix, reference: reference?.matrix ?? null, headers: headersOf(primary, reference) }
+}
+
+const STATUS_RANK: Record<ReadingStatus, number> = { ok: 0, belowDetection: 1, invalid: 2, saturated: 3 }
+
+// Most severe of several statuses; 'ok' for none.
+export const worstStatus = (statuses: ReadingStatus[]): ReadingStatus =>
+  statuses.reduce<ReadingStatus>((worst, s) => (STATUS_RANK[s] > STATUS_RANK[worst] ? s : worst), 'ok')
+
+const EMPTY_CELL: ReaderCell = { value: null, status: 'ok' }
+
+// Net is primary − reference, or just the primary reading in single-wavelength mode.
+// The status follows the primary cell. A reference below detection is background, taken at its bound
+// (or 0); only an invalid or saturated reference flags the well, and any flag leaves net empty.
+export const toReading = (
+  primary: ReaderCell,
+  reference: ReaderCell | null,
+  wavelengths: WavelengthConfig
+): ElisaWellReading => {
+  const cell = wavelengths.reference === null ? null : reference ?? EMPTY_CELL
+  const ref = cell?.status === 'belowDetection' ? { ...cell, value: cell.value ?? 0 } : cell
+  const status = ref && ref.status !== 'belowDetection' ? worstStatus([primary.status, ref.status]) : primary.status
+  if (status !== 'ok') return { primary: primary.value, reference: ref?.value ?? null, net: null, status }
+  if (!ref) return { primary: primary.value, reference: null, net: primary.value, status }
+  const net = primary.value !== null && ref.value !== null ? primary.value - ref.value : null
+  return { primary: primary.value, reference: ref.value, net, status }
+}
+
+export const matricesToWells = (
+  format: PlateFormat,
+  primary: Matrix,
+  reference: Matrix | null,
+  wavelengths: WavelengthConfig
+): Partial<Record<WellId, ElisaWellReading>> => {
+  const nCols = format.cols.length
+  const wells: Partial<Record<WellId, ElisaWellReading>> = {}
+  for (let r = 0; r < format.rows.length; r += 1) {
+    for (let c = 0; c < nCols; c += 1) {
+      const well = indexToWellId(format, r * nCols + c)
+      if (!well) continue
+      wells[well] = toReading(primary[r]?.[c] ?? EMPTY_CELL, reference?.[r]?.[c] ?? null, wavelengths)
+    }
+  }
+  return wells
+}
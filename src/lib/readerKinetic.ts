@@ -0,0 +1,170 @@
+import type { ElisaPlateResult, ElisaWellReading, KineticSeries, ReaderParser, ReadingStatus } from './elisaReader'
+import { parseTimeSec } from './kinetic'
+import { indexToWellId, parseWellId, type PlateFormat, type WellId } from './plateFormat'
+import { plateDiagnostics, type ReaderDiagnostics, type SourceRange, type SourceRef } from './readerDiagnostics'
+import {
+  detectSep,
+  readCell,
+  readStackedBlocks,
+  splitLines,
+  splitPreserve,
+  toNumber,
+  worstStatus,
+  type Matrix,
+  type ReaderCell,
+} from './readerGrid'
+
+// Flagged cells carry no trace value, so the Vmax fit never runs on an overflow bound.
+const traceValue = (cell: ReaderCell | undefined) => (cell?.status === 'ok' ? cell.value : null)
+const hasReading = (cell: ReaderCell | undefined) => cell !== undefined && (cell.value !== null || cell.status !== 'ok')
+
+const TIME_LABEL = /^\s*(?:read\s+|kinetic\s+)?time\b\s*(?:\[[^\]]*\]|\([^)]*\))?\s*[:=]?\s*(.*)$/i
+
+type TraceRead = {
+  series: KineticSeries
+  temperatureC: number | null
+  // Cell of each well's last reading, and the header row(s) above the traces.
+  sources: Partial<Record<WellId, SourceRef>>
+  headers: SourceRange[]
+}
+
+// Well-per-column table: a "Time" header followed by well ids, one row per read (Gen5 / MARS kinetic style).
+const readTraceTable = (rows: string[][], format: PlateFormat): TraceRead | null => {
+  for (let i = 0; i < rows.length; i += 1) {
+    const header = rows[i]
+    const timeCol = header.findIndex((c) => /^time\b/i.test(c.trim()))
+    if (timeCol < 0) continue
+    const wellCols = header
+      .map((c, idx) => ({ idx, wellId: idx === timeCol ? null : parseWellId(format, c) }))
+      .filter((c): c is { idx: number; wellId: WellId } => c.wellId !== null)
+    if (!wellCols.length) continue
+    const tempCol = header.findIndex((c) => /^(?:T°|temp)/i.test(c.trim()))
+
+    const timesSec: number[] = []
+    const traces: Record<WellId, (number | null)[]> = {}
+    const statuses: Record<WellId, ReadingStatus[]> = {}
+    const sources: Partial<Record<WellId, SourceRef>> = {}
+    wellCols.forEach((c) => {
+      traces[c.wellId] = []
+      statuses[c.wellId] = []
+    })
+    let temperatureC: number | null = null
+
+    for (let line = i + 1; line < rows.length; line += 1) {
+      const row = rows[line]
+      const t = parseTimeSec(row[timeCol] ?? '')
+      if (t === null) break
+      timesSec.push(t)
+      wellCols.forEach((c) => {
+        const cell = readCell(row[c.idx] ?? '', { line, col: c.idx })
+        traces[c.wellId].push(traceValue(cell))
+        statuses[c.wellId].push(cell.status)
+        if (hasReading(cell)) sources[c.wellId] = cell.source
+      })
+      if (temperatureC === null && tempCol >= 0) temperatureC = toNumber(row[tempCol] ?? '')
+    }
+
+    const headers = [{ line: i, col: 0, endLine: i, endCol: header.length - 1 }]
+    if (timesSec.length >= 2) return { series: { timesSec, traces, statuses }, temperatureC, sources, headers }
+  }
+  return null
+}
+
+// One full plate matrix per read, each titled "Time: 0:00:30" (or similar) just above its header.
+const readTraceBlocks = (
+  lines: string[],
+  rows: string[][],
+  format: PlateFormat
+): TraceRead | null => {
+  const timeAbove = (headerIdx: number) => {
+    for (let k = headerIdx - 1; k >= Math.max(0, headerIdx - 3); k -= 1) {
+      const match = TIME_LABEL.exec(lines[k])
+      if (match) return parseTimeSec(match[1].split(/\t|,|;/)[0] ?? '')
+    }
+    return null
+  }
+
+  // The block label slot carries the read time here rather than a wavelength.
+  const blocks = readStackedBlocks(rows, format, (headerIdx) => timeAbove(headerIdx))
+  if (blocks.length < 2 || blocks.some((b) => b.wavelength === null)) return null
+  const ordered = blocks.map((b) => ({ timeSec: b.wavelength as number, matrix: b.matrix }))
+  ordered.sort((a, b) => a.timeSec - b.timeSec)
+
+  const nCols = format.cols.length
+  const traces: Record<WellId, (number | null)[]> = {}
+  const statuses: Record<WellId, ReadingStatus[]> = {}
+  const sources: Partial<Record<WellId, SourceRef>> = {}
+  format.wellIds.forEach((wellId, idx) => {
+    const r = Math.floor(idx / nCols)
+    const c = idx % nCols
+    const cells = ordered.map((b) => b.matrix[r]?.[c])
+    traces[wellId] = cells.map(traceValue)
+    statuses[wellId] = cells.map((cell) => cell?.status ?? 'ok')
+    sources[wellId] = [...cells].reverse().find(hasReading)?.source
+  })
+  const headers = blocks.flatMap((b) => (b.header ? [b.header] : []))
+  const series = { timesSec: ordered.map((b) => b.timeSec), traces, statuses }
+  return { series, temperatureC: null, sources, headers }
+}
+
+// The endpoint reading of each well is its last value; point the diagnostics at that cell.
+const traceDiagnostics = (
+  format: PlateFormat,
+  sources: Partial<Record<WellId, SourceRef>>,
+  headers: SourceRange[],
+  primary: number
+): ReaderDiagnostics => {
+  const nCols = format.cols.length
+  const matrix: Matrix = format.rows.map((_, r) =>
+    format.cols.map((_, c) => {
+      const source = sources[indexToWellId(format, r * nCols + c) ?? '']
+      return source ? { value: null, status: 'ok', source } : { value: null, status: 'ok' }
+    })
+  )
+  return plateDiagnostics(format, matrix, null, headers, { primary, reference: null })
+}
+
+// Endpoint view of a kinetic read: the last reading of each trace, flagged with the worst status of
+// the trace so a well that overflowed mid-read is not reported as a normal one.
+const lastReadings = (series: KineticSeries): Partial<Record<WellId, ElisaWellReading>> => {
+  const wells: Partial<Record<WellId, ElisaWellReading>> = {}
+  for (const [wellId, trace] of Object.entries(series.traces)) {
+    if (!trace) continue
+    const last = [...trace].reverse().find((v) => v !== null) ?? null
+    const status = worstStatus(series.statuses[wellId] ?? [])
+    wells[wellId] = { primary: last, reference: null, net: status === 'ok' ? last : null, status }
+  }
+  return wells
+}
+
+export const kineticParser: ReaderParser = {
+  id: 'kinetic',
+  label: 'Kinetic time series',
+  detect: (text) => /^\s*(?:read\s+|kinetic\s+)?time\b/im.test(text) || /\bkinetic\b/i.test(text),
+  parse: (text, format, wavelengths): ElisaPlateResult | null => {
+    const lines = splitLines(text)
+    if (!lines.length) return null
+    const sep = detectSep(lines.join('\n'), lines.length)
+    const rows = lines.map((l) => splitPreserve(l, sep))
+
+    const read = readTraceTable(rows, format) ?? readTraceBlocks(lines, rows, format)
+    if (!read) return null
+    const { series } = read
+
+    const warnings: string[] = []
+    if (wavelengths.reference !== null) {
+      warnings.push(`Kinetic traces use the ${wavelengths.primary} nm reading only; no reference correction is applied.`)
+    }
+
+    return {
+      wells: lastReadings(series),
+      temperatureC: read.temperatureC,
+      warnings,
+      format: 'kinetic',
+      wavelengths,
+      parser: 'kinetic',
+      kinetic: series,
+      diagnostics: traceDiagnostics(format, read.sources, read.headers, wavelengths.primary),
+    }
+  },
+}
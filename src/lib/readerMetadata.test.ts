@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { parseElisaReaderText } from './elisaReader'
+import { DEFAULT_TEMPERATURE_RANGE, extractReaderMetadata, metadataEntries, temperatureWarning } from './readerMetadata'
+import { sideBySide } from './readerTestPlates.test-utils'
+
+describe('readerMetadata', () => {
+  it('pulls Gen5-style header fields', () => {
+    const meta = extractReaderMetadata(
+      ['Barcode\tIL6-0042', 'Date\t12/10/2025', 'Time\t10:32:05 AM', 'Actual Temperature:\t23.4'],
+      [
+        'Software Version\t3.11.19',
+        'Experiment File Path:\tC:\\Gen5\\Experiments\\IL6 sandwich.xpt',
+        'Reader Type:\tSynergy H1',
+        'Reader Serial Number:\t21041516',
+      ]
+    )
+    expect(meta).toEqual({
+      barcode: 'IL6-0042',
+      readTime: '12/10/2025 10:32:05 AM',
+      instrument: 'Synergy H1',
+      instrumentSerial: '21041516',
+      protocol: 'IL6 sandwich.xpt',
+      temperatureC: 23.4,
+    })
+    expect(metadataEntries(meta).map(([label]) => label)).toContain('Instrument serial')
+  })
+
+  it('warns only outside the accepted temperature range', () => {
+    expect(temperatureWarning(22, DEFAULT_TEMPERATURE_RANGE)).toBeNull()
+    expect(temperatureWarning(null, DEFAULT_TEMPERATURE_RANGE)).toBeNull()
+    expect(temperatureWarning(31.5, DEFAULT_TEMPERATURE_RANGE)).toContain('31.5 °C')
+    expect(temperatureWarning(17, { minC: 20, maxC: 25 })).toContain('20–25 °C')
+  })
+
+  it('attaches metadata to each parsed plate', () => {
+    const parsed = parseElisaReaderText(['Plate barcode: P-17', ...sideBySide(() => '1.0000', '29.5')].join('\n'))
+    expect(parsed.plates[0].metadata.barcode).toBe('P-17')
+    expect(parsed.plates[0].metadata.temperatureC).toBeCloseTo(29.5, 6)
+  })
+})
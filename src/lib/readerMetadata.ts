@@ -0,0 +1,134 @@
+// Run metadata that reader exports print around the plate matrices.
+
+export type ReaderMetadata = {
+  barcode: string | null
+  readTime: string | null
+  instrument: string | null
+  instrumentSerial: string | null
+  protocol: string | null
+  temperatureC: number | null
+}
+
+export type TemperatureRange = {
+  minC: number
+  maxC: number
+}
+
+// Typical bench range for colorimetric ELISA reads.
+export const DEFAULT_TEMPERATURE_RANGE: TemperatureRange = { minC: 18, maxC: 28 }
+
+export const EMPTY_METADATA: ReaderMetadata = {
+  barcode: null,
+  readTime: null,
+  instrument: null,
+  instrumentSerial: null,
+  protocol: null,
+  temperatureC: null,
+}
+
+export const TEMPERATURE_LABEL = /^\s*(?:actual\s+)?temperature\b[^:\d-]*:?/i
+
+const READ_TIME_LABEL =
+  /^\s*(read\s+(?:date\/)?time|date\/time|measurement\s+(?:date|time)|start\s+time|date|time)\s*[:\t]\s*(.+)$/i
+const LOOKS_LIKE_TIMESTAMP = /\d{1,4}[:/.-]\d{1,2}/
+
+// Label patterns per field, matched against the whole label ("Reader Serial Number:" → instrumentSerial).
+const FIELD_LABELS: Array<[Exclude<keyof ReaderMetadata, 'readTime' | 'temperatureC'>, RegExp]> = [
+  ['barcode', /^(?:plate\s*)?bar\s*code(?:\s*\d)?$|^plate\s*id$/i],
+  ['instrumentSerial', /^(?:reader\s+|instrument\s+|device\s+)?(?:serial(?:\s*(?:number|no\.?|#))?|s\/n)$/i],
+  ['instrument', /^(?:reader|instrument|device)(?:\s*(?:type|name|model))?$|^model$/i],
+  [
+    'protocol',
+    /^(?:protocol|procedure|method|assay|test|experiment)(?:\s*(?:name|file(?:\s*path)?|file\s*name))?$|^experiment\s+file\s+path$/i,
+  ],
+]
+
+const cellsOf = (line: string) => line.split(/\t|,|;/).map((c) => c.trim())
+
+// Gen5 splits the stamp over "Date" and "Time" lines; join them when both are present.
+export const readTimeIn = (lines: string[]): string | null => {
+  let date: string | null = null
+  let time: string | null = null
+  for (const line of lines) {
+    const match = READ_TIME_LABEL.exec(line)
+    if (!match) continue
+    const value = cellsOf(match[2]).filter(Boolean).join(' ')
+    if (!LOOKS_LIKE_TIMESTAMP.test(value)) continue
+    const label = match[1].toLowerCase()
+    if (label.includes('date') && label.includes('time')) return value
+    if (label.includes('date')) date = date ?? value
+    else time = time ?? value
+  }
+  if (date && time) return `${date} ${time}`
+  return date ?? time
+}
+
+// "Label: value" or "Label<TAB>value"; the colon wins when it comes before the first tab.
+const labelled = (line: string): { label: string; value: string } | null => {
+  const colon = line.indexOf(':')
+  const tab = line.indexOf('\t')
+  const cut = colon >= 0 && (tab < 0 || colon < tab) ? colon : tab
+  if (cut <= 0) return null
+  const label = line.slice(0, cut).trim()
+  const value = cellsOf(line.slice(cut + 1)).filter(Boolean).join(' ')
+  if (!label || !value || label.length > 40) return null
+  return { label, value }
+}
+
+const findLabelledTemperature = (lines: string[]): number | null => {
+  for (const line of lines) {
+    if (!TEMPERATURE_LABEL.test(line)) continue
+    const match = /[-+]?\d+(?:\.\d+)?/.exec(line.replace(TEMPERATURE_LABEL, ''))
+    if (match) return Number(match[0])
+  }
+  return null
+}
+
+/**
+ * Pulls the run metadata out of a plate's text. `body` (the plate's own lines) is searched before
+ * `preamble` (lines shared by every plate), so per-plate barcodes win over file-level ones.
+ * `parsedTemperatureC` is what the parser read from the block header, preferred over labelled lines.
+ */
+export const extractReaderMetadata = (
+  body: string[],
+  preamble: string[] = [],
+  parsedTemperatureC: number | null = null
+): ReaderMetadata => {
+  const lines = [...body, ...preamble]
+  const meta: ReaderMetadata = {
+    ...EMPTY_METADATA,
+    readTime: readTimeIn(body) ?? readTimeIn(preamble),
+    temperatureC: parsedTemperatureC ?? findLabelledTemperature(lines),
+  }
+
+  for (const line of lines) {
+    const entry = labelled(line)
+    if (!entry) continue
+    for (const [field, pattern] of FIELD_LABELS) {
+      if (meta[field] !== null || !pattern.test(entry.label)) continue
+      // Protocol file paths are shortened to the file name.
+      meta[field] = field === 'protocol' ? entry.value.split(/[\\/]/).pop() ?? entry.value : entry.value
+      break
+    }
+  }
+  return meta
+}
+
+export const temperatureWarning = (temperatureC: number | null, range: TemperatureRange): string | null => {
+  if (temperatureC === null || !Number.isFinite(temperatureC)) return null
+  if (temperatureC >= range.minC && temperatureC <= range.maxC) return null
+  return `Read temperature ${temperatureC} °C is outside the accepted ${range.minC}–${range.maxC} °C range.`
+}
+
+// Label/value pairs for display and export headers; unknown fields are left out.
+export const metadataEntries = (meta: ReaderMetadata): Array<[string, string]> => {
+  const entries: Array<[string, string | null]> = [
+    ['Barcode', meta.barcode],
+    ['Read time', meta.readTime],
+    ['Instrument', meta.instrument],
+    ['Instrument serial', meta.instrumentSerial],
+    ['Protocol', meta.protocol],
+    ['Temperature', meta.temperatureC === null ? null : `${meta.temperatureC} °C`],
+  ]
+  return entries.filter((e): e is [string, string] => e[1] !== null)
+}
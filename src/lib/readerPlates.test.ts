@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { parseElisaReaderText } from './elisaReader'
+import { splitPlateSections } from './readerPlates'
+import { sideBySide } from './readerTestPlates.test-utils'
+
+// One plate whose every 450 value is `a450`.
+const plate = (a450: number) => sideBySide(() => a450.toFixed(4)).join('\n')
+
+describe('readerPlates', () => {
+  it('splits unmarked back-to-back plate blocks instead of dropping later plates', () => {
+    const parsed = parseElisaReaderText([plate(1.1), '', plate(0.6), '', plate(0.3)].join('\n'))
+    expect(parsed.plates).toHaveLength(3)
+    expect(parsed.plates.map((p) => p.plateId)).toEqual(['Plate 1', 'Plate 2', 'Plate 3'])
+    expect(parsed.plates[1].wells.H12?.net).toBeCloseTo(0.5, 6)
+    expect(parsed.plates[2].wells.A1?.net).toBeCloseTo(0.2, 6)
+    // Top-level fields mirror the first plate.
+    expect(parsed.wells.A1?.net).toBeCloseTo(1, 6)
+  })
+
+  it('uses plate markers for ids and read times', () => {
+    const text = [
+      'Software Version\t3.11.19',
+      'Plate Number\tIL6 run A',
+      'Date\t12/10/2025',
+      'Time\t10:32:05 AM',
+      plate(1.0),
+      'Plate Number\tIL6 run B',
+      'Date\t12/10/2025',
+      'Time\t10:41:17 AM',
+      plate(0.5),
+    ].join('\n')
+
+    const sections = splitPlateSections(text)
+    expect(sections.map((s) => s.plateId)).toEqual(['IL6 run A', 'IL6 run B'])
+    // The shared preamble stays with every plate so vendor detection still works.
+    expect(sections[1].text).toContain('Software Version')
+
+    const parsed = parseElisaReaderText(text)
+    expect(parsed.plates).toHaveLength(2)
+    expect(parsed.plates[1].wells.D4?.net).toBeCloseTo(0.4, 6)
+    expect(parsed.plates[1].metadata.readTime).toBe('12/10/2025 10:41:17 AM')
+  })
+
+  it('treats several marker lines of one plate as a single plate', () => {
+    const text = [
+      'Plate Number\tPlate 1',
+      'Plate ID\tIL6-A',
+      'Plate name\tSerum run',
+      plate(1.0),
+      'Plate Number\tPlate 2',
+      'Plate ID\tIL6-B',
+      plate(0.5),
+    ].join('\n')
+
+    expect(splitPlateSections(text).map((s) => s.plateId)).toEqual(['Plate 1', 'Plate 2'])
+    const parsed = parseElisaReaderText(text)
+    expect(parsed.plates).toHaveLength(2)
+    expect(parsed.warnings.filter((w) => /could not be parsed/i.test(w))).toEqual([])
+  })
+
+  it('keeps a single marked plate whole', () => {
+    const sections = splitPlateSections(['Plate:\tPlate1\t1.3\tEndpoint\t1\t12\t96\t1\t8', plate(1.0)].join('\n'))
+    expect(sections).toHaveLength(1)
+    expect(sections[0].plateId).toBe('Plate1')
+  })
+})
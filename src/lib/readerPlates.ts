@@ -0,0 +1,82 @@
+import { splitLines } from './readerGrid'
+
+// Splits a whole-session reader export into one text section per plate.
+
+export type PlateSection = {
+  plateId: string
+  text: string
+  // The plate's own lines, and the shared lines before the first plate (both also in `text`).
+  body: string[]
+  preamble: string[]
+  // Index of the first body line among the non-blank lines of the whole export.
+  bodyStart: number
+}
+
+// "Plate:" (SoftMax, generic), "Plate Number" / "Plate ID" (Gen5), "Plate 2" / "Plate #2". Not "Plate Type".
+const PLATE_MARKER = /^\s*plate(?:\s*:|\s*(?:number|no\.?|id|name)\b|\s*#?\s*\d+\b)/i
+const cellsOf = (line: string) => line.split(/\t|,|;/).map((c) => c.trim())
+
+// The plate name is the first cell after the marker label that is not a bare number ("Plate:\tPlate1\t1.3" → "Plate1").
+const plateIdFrom = (line: string, fallback: string): string => {
+  const cells = cellsOf(line).filter(Boolean)
+  const inline = /^\s*plate\s*#?\s*(\d+)\b/i.exec(cells[0] ?? '')
+  if (inline && cells.length === 1) return `Plate ${inline[1]}`
+  const rest = cells.slice(1)
+  const label = rest.find((c) => /[A-Za-z]/.test(c)) ?? rest[0]
+  if (label) return label
+  const colon = /^\s*plate[^:]*:\s*(.+)$/i.exec(line)
+  return colon ? colon[1].trim() : fallback
+}
+
+// Lines with two or more numeric cells carry plate data; marker and metadata lines do not.
+const isDataLine = (line: string) => cellsOf(line).filter((c) => /^[-+]?\d*\.?\d+(?:e[-+]?\d+)?$/i.test(c)).length >= 2
+
+// A plate can carry several marker lines ("Plate Number", then "Plate ID"); only a marker with plate
+// data since the previous one starts a new plate.
+const plateStarts = (lines: string[]): number[] => {
+  const starts: number[] = []
+  lines.forEach((line, idx) => {
+    if (!PLATE_MARKER.test(line)) return
+    const prev = starts[starts.length - 1]
+    if (prev === undefined || lines.slice(prev + 1, idx).some(isDataLine)) starts.push(idx)
+  })
+  return starts
+}
+
+// Rows that start a side-by-side plate block: a Temperature header, or two or more "1, 2, ..." column header runs.
+const isSideBySideHeader = (line: string) => {
+  const cells = cellsOf(line)
+  const runs = cells.filter((c, idx) => c === '1' && cells[idx + 1] === '2').length
+  return cells.some((c) => /temperature/i.test(c)) || runs >= 2
+}
+
+const toSections = (lines: string[], starts: number[], idFor: (line: string, idx: number) => string): PlateSection[] => {
+  // Lines before the first plate (software version, reader model, ...) are shared by every plate.
+  const preamble = lines.slice(0, starts[0])
+  return starts.map((start, idx) => {
+    const body = lines.slice(start, starts[idx + 1] ?? lines.length)
+    return {
+      plateId: idFor(lines[start], idx),
+      text: [...preamble, ...body].join('\n'),
+      body,
+      preamble,
+      bodyStart: start,
+    }
+  })
+}
+
+export const splitPlateSections = (text: string): PlateSection[] => {
+  const lines = splitLines(text)
+  const single = [{ plateId: 'Plate 1', text, body: lines, preamble: [] as string[], bodyStart: 0 }]
+  if (!lines.length) return single
+
+  const markers = plateStarts(lines)
+  if (markers.length >= 2) return toSections(lines, markers, (line, idx) => plateIdFrom(line, `Plate ${idx + 1}`))
+  if (markers.length === 1) return [{ ...single[0], plateId: plateIdFrom(lines[markers[0]], 'Plate 1') }]
+
+  // Unmarked pastes of the classic layout: every repeated block header begins a new plate.
+  const headers = lines.flatMap((line, idx) => (isSideBySideHeader(line) ? [idx] : []))
+  if (headers.length >= 2) return toSections(lines, headers, (_, idx) => `Plate ${idx + 1}`)
+
+  return single
+}
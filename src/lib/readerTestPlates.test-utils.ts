@@ -0,0 +1,23 @@
+import { PLATE_FORMATS } from './plateFormat'
+
+// 96-well reader text shared by the reader parser tests.
+
+const PLATE_96 = PLATE_FORMATS['96']
+
+export const ROWS = [...PLATE_96.rows]
+export const COLS = PLATE_96.cols.map(String)
+export const WELL_IDS = PLATE_96.wellIds
+
+// Classic side-by-side 450 | 570 block, temperature in the first row and a flat 0.1000 at 570 nm.
+export const sideBySide = (a450: (r: number, c: number) => string, temperature = '24.0'): string[] => [
+  ['Temperature(°C)', ...COLS, '', ...COLS].join('\t'),
+  ...ROWS.map((_, r) =>
+    [r === 0 ? temperature : '', ...COLS.map((_, c) => a450(r, c)), '', ...COLS.map(() => '0.1000')].join('\t')
+  ),
+]
+
+// Row-lettered matrix under a "1..12" header; `trailing` is an extra cell on every row (Gen5 read label).
+export const letteredMatrix = (value: (r: number, c: number) => string, corner = '', trailing = ''): string[] => [
+  [corner, ...COLS].join('\t'),
+  ...ROWS.map((row, r) => [row, ...COLS.map((_, c) => value(r, c)), ...(trailing ? [trailing] : [])].join('\t')),
+]
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { parseElisaReaderText } from './elisaReader'
+import { COLS, letteredMatrix, ROWS } from './readerTestPlates.test-utils'
+
+// A450 rises along the plate; A570 is a flat 0.05 background.
+const value = (nm: number, r: number, c: number) => (nm === 450 ? 0.1 + r * 0.2 + c * 0.01 : 0.05).toFixed(4)
+
+const matrix = (nm: number, corner: string, trailing = '') =>
+  letteredMatrix((r, c) => value(nm, r, c), corner, trailing).join('\n')
+
+describe('reader vendor parsers', () => {
+  it('parses BioTek Gen5 exports with trailing read labels', () => {
+    const text = [
+      'Software Version\t3.11.19',
+      'Experiment File Path:\tC:\\Data\\IL6.xpt',
+      'Plate Number\tPlate 1',
+      'Reader Type:\tSynergy H1',
+      'Actual Temperature:\t24.6',
+      '',
+      'Results',
+      matrix(450, '', '450'),
+      '',
+      matrix(570, '', '570'),
+    ].join('\n')
+
+    const parsed = parseElisaReaderText(text)
+    expect(parsed.parser).toBe('gen5')
+    expect(parsed.temperatureC).toBeCloseTo(24.6, 6)
+    expect(parsed.wells.H12?.primary).toBeCloseTo(1.61, 6)
+    expect(parsed.wells.H12?.net).toBeCloseTo(1.56, 6)
+  })
+
+  it('parses SoftMax Pro plain-text exports and honours wavelength order', () => {
+    const header = ['', 'Temperature(¡C)', ...COLS, '', ...COLS].join('\t')
+    const rows = ROWS.map((_, r) =>
+      ['', r === 0 ? '23.9' : '', ...COLS.map((_, c) => value(570, r, c)), '', ...COLS.map((_, c) => value(450, r, c))].join('\t')
+    )
+    const text = [
+      '##BLOCKS= 1',
+      'Plate:\tPlate1\t1.3\tPlateFormat\tEndpoint\tAbsorbance\tRaw\tFALSE\t1\t\t\t\t\t\t2\t570 450\t1\t12\t96\t1\t8',
+      header,
+      ...rows,
+      '~End',
+    ].join('\n')
+
+    const parsed = parseElisaReaderText(text)
+    expect(parsed.parser).toBe('softmax')
+    expect(parsed.temperatureC).toBeCloseTo(23.9, 6)
+    expect(parsed.wells.A1?.primary).toBeCloseTo(0.1, 6)
+    expect(parsed.wells.A1?.reference).toBeCloseTo(0.05, 6)
+  })
+
+  it('parses Tecan Magellan exports with stacked wavelength blocks', () => {
+    const text = [
+      'Magellan V7.2',
+      'Device: infinite 200Pro',
+      'Temperature: 25.1 °C',
+      'Wavelength: 570 nm',
+      matrix(570, '<>'),
+      '',
+      'Wavelength: 450 nm',
+      matrix(450, '<>'),
+    ].join('\n')
+
+    const parsed = parseElisaReaderText(text)
+    expect(parsed.parser).toBe('magellan')
+    expect(parsed.temperatureC).toBeCloseTo(25.1, 6)
+    expect(parsed.wells.B3?.primary).toBeCloseTo(0.32, 6)
+    expect(parsed.wells.B3?.reference).toBeCloseTo(0.05, 6)
+  })
+
+  it('parses BMG MARS table exports', () => {
+    const text = [
+      'User: USER',
+      'Test Name: IL6 ELISA',
+      'Date: 12/10/2025',
+      'Absorbance',
+      'Raw Data (450)',
+      matrix(450, ''),
+      'Raw Data (570)',
+      matrix(570, ''),
+    ].join('\n')
+
+    const parsed = parseElisaReaderText(text)
+    expect(parsed.parser).toBe('mars')
+    expect(Object.keys(parsed.wells)).toHaveLength(96)
+    expect(parsed.wells.C1?.net).toBeCloseTo(0.45, 6)
+  })
+
+  it('reports a forced parser that does not match', () => {
+    const parsed = parseElisaReaderText('Well\t450\t570\nA1\t1\t0.1', { parser: 'mars' })
+    expect(parsed.parser).toBeNull()
+    expect(parsed.warnings[0]).toContain('BMG MARS')
+  })
+})
@@ -0,0 +1,140 @@
+import type { ElisaPlateResult, ReaderParser, ReaderParserId, WavelengthConfig } from './elisaReader'
+import type { PlateFormat } from './plateFormat'
+import { offsetDiagnostics, plateDiagnostics } from './readerDiagnostics'
+import {
+  detectSep,
+  findLabelledNumber,
+  matricesToWells,
+  pickWavelengths,
+  readSideBySideBlocks,
+  readStackedBlocks,
+  splitLines,
+  splitPreserve,
+  wavelengthAbove,
+  type WavelengthBlock,
+} from './readerGrid'
+import { TEMPERATURE_LABEL } from './readerMetadata'
+
+const stackedResult = (
+  parser: ReaderParserId,
+  format: PlateFormat,
+  wavelengths: WavelengthConfig,
+  blocks: WavelengthBlock[],
+  temperatureC: number | null
+): ElisaPlateResult | null => {
+  const picked = pickWavelengths(blocks, wavelengths)
+  if (!picked) return null
+  const warnings: string[] = []
+  if (wavelengths.reference !== null && !picked.reference) {
+    warnings.push(`No ${wavelengths.reference} nm block was found; net absorbance needs the reference reading.`)
+  }
+  return {
+    wells: matricesToWells(format, picked.primary, picked.reference, wavelengths),
+    temperatureC,
+    warnings,
+    format: 'plateBlocks',
+    wavelengths,
+    parser,
+    kinetic: null,
+    diagnostics: plateDiagnostics(format, picked.primary, picked.reference, picked.headers, wavelengths),
+  }
+}
+
+const toRows = (text: string) => {
+  const lines = splitLines(text)
+  // Scan the whole file: metadata headers would otherwise dominate separator detection.
+  const sep = detectSep(lines.join('\n'), lines.length)
+  return { lines, rows: lines.map((l) => splitPreserve(l, sep)) }
+}
+
+// BioTek Gen5: metadata header, then one "1..12" matrix per read, each row ending with the read label ("450").
+export const gen5Parser: ReaderParser = {
+  id: 'gen5',
+  label: 'BioTek Gen5',
+  detect: (text) => /\bGen5\b|BioTek|\bSynergy\b|\bEpoch\b|\bELx\d+/i.test(text),
+  parse: (text, format, wavelengths) => {
+    const { lines, rows } = toRows(text)
+    const blocks = readStackedBlocks(rows, format, (headerIdx, firstRow, valuesEnd) => {
+      const trailing = firstRow.slice(valuesEnd).find((c) => c.trim())
+      const match = trailing ? /(\d{3})\s*(?:nm)?\s*$/i.exec(trailing) : null
+      if (match) return Number(match[1])
+      return wavelengthAbove(lines, headerIdx, /(?:^|[:\s])(\d{3})\s*(?:nm)?\s*$/i, 3)
+    })
+    return stackedResult('gen5', format, wavelengths, blocks, findLabelledNumber(lines, TEMPERATURE_LABEL))
+  },
+}
+
+// SoftMax Pro plain text: "##BLOCKS=" file header and a "Plate:" section ending in "~End".
+// Wavelength blocks sit side by side under a Temperature header.
+export const softMaxParser: ReaderParser = {
+  id: 'softmax',
+  label: 'SoftMax Pro',
+  detect: (text) => /##BLOCKS\s*=/i.test(text) || /^\s*Plate:\s/im.test(text),
+  parse: (text, format, wavelengths) => {
+    const { rows } = toRows(text)
+    const plateIdx = rows.findIndex((r) => /^Plate:$/i.test(r[0] ?? ''))
+    if (plateIdx < 0) return null
+    const endIdx = rows.findIndex((r, idx) => idx > plateIdx && /^~End$/i.test(r[0] ?? ''))
+    const section = rows.slice(plateIdx + 1, endIdx < 0 ? rows.length : endIdx)
+
+    // The Plate: line lists the wavelengths in block order, e.g. "450 570".
+    const wavelengthCell = rows[plateIdx].find((c) => /^\d{3}(\s+\d{3})*$/.test(c.trim()))
+    const listed = wavelengthCell ? wavelengthCell.trim().split(/\s+/).map(Number) : []
+    const blockCount = listed.length ? Math.min(listed.length, 2) : wavelengths.reference === null ? 1 : 2
+    const read = readSideBySideBlocks(section, format, blockCount as 1 | 2)
+    if (!read) return null
+
+    const blocks: WavelengthBlock[] = read.matrices.map((matrix, idx) => ({
+      wavelength: listed[idx] ?? null,
+      matrix,
+      header: read.header,
+    }))
+    const picked = pickWavelengths(blocks, wavelengths)
+    if (!picked) return null
+
+    return {
+      wells: matricesToWells(format, picked.primary, picked.reference, wavelengths),
+      temperatureC: read.temperatureC,
+      warnings: [],
+      format: 'plateBlocks',
+      wavelengths,
+      parser: 'softmax',
+      kinetic: null,
+      // Blocks were read from the rows after the Plate: line.
+      diagnostics: offsetDiagnostics(
+        plateDiagnostics(format, picked.primary, picked.reference, picked.headers, wavelengths),
+        plateIdx + 1
+      ),
+    }
+  },
+}
+
+// Tecan Magellan: "Wavelength: 450 nm" title above each matrix; matrices use a "<>" corner cell.
+export const magellanParser: ReaderParser = {
+  id: 'magellan',
+  label: 'Tecan Magellan',
+  detect: (text) => /Magellan|\bTecan\b|\bInfinite\b|\bSunrise\b/i.test(text) || /^\s*<>/m.test(text),
+  parse: (text, format, wavelengths) => {
+    const { lines, rows } = toRows(text)
+    const blocks = readStackedBlocks(rows, format, (headerIdx) =>
+      wavelengthAbove(lines, headerIdx, /wavelength[^\d]*(\d{3})/i)
+    )
+    return stackedResult('magellan', format, wavelengths, blocks, findLabelledNumber(lines, TEMPERATURE_LABEL))
+  },
+}
+
+// BMG LABTECH MARS: table export with "Raw Data (450)" style titles above each matrix.
+export const marsParser: ReaderParser = {
+  id: 'mars',
+  label: 'BMG MARS',
+  detect: (text) => /\bMARS\b|BMG\s*LABTECH|CLARIOstar|SPECTROstar|PHERAstar|FLUOstar/i.test(text) || /Raw Data\s*\(/i.test(text),
+  parse: (text, format, wavelengths) => {
+    const { lines, rows } = toRows(text)
+    const blocks = readStackedBlocks(rows, format, (headerIdx) =>
+      wavelengthAbove(lines, headerIdx, /(?:raw data|abs(?:orbance)?)[^\d]*(\d{3})/i)
+    )
+    return stackedResult('mars', format, wavelengths, blocks, findLabelledNumber(lines, TEMPERATURE_LABEL))
+  },
+}
+
+export const VENDOR_PARSERS: ReaderParser[] = [gen5Parser, softMaxParser, magellanParser, marsParser]
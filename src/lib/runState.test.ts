@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PARALLELISM_CRITERIA } from './parallelism'
+import { DEFAULT_QUANT_CRITERIA } from './quantLimits'
+import { hydrateRun, type PersistedStateV1 } from './runState'
+import { AUTO_TEXT_FORMAT } from './tableText'
+
+const saved = (patch: Partial<PersistedStateV1>): PersistedStateV1 => ({
+  v: 1,
+  tab: 'analysis',
+  sampleText: '',
+  sampleHasHeader: false,
+  animalIdCol: 0,
+  groupCol: -1,
+  readerText: 'Well;450\nA1;1,250',
+  ...patch,
+})
+
+// What a reload sees: the run as written to local storage and read back.
+const reload = (state: PersistedStateV1) => hydrateRun(JSON.parse(JSON.stringify(state)) as PersistedStateV1)
+
+describe('runState', () => {
+  it('restores the reader parser and text format the run was saved with', () => {
+    const run = reload(saved({ readerParser: 'generic-list', readerTextFormat: { separator: 'semicolon', decimal: ',' } }))
+    expect(run.readerParser).toBe('generic-list')
+    expect(run.readerTextFormat).toEqual({ separator: 'semicolon', decimal: ',' })
+  })
+
+  it('restores the quantification criteria, out-of-range substitute and Auto-QC acceptance switch', () => {
+    const quantCriteria = { recoveryTolerancePct: 15, limitRecoveryTolerancePct: 25, maxCvPct: 10 }
+    const run = reload(saved({ quantCriteria, outOfRangeSubstitute: 'limit', useAcceptanceInAutoQc: true }))
+    expect(run.quantCriteria).toEqual(quantCriteria)
+    expect(run.outOfRangeSubstitute).toBe('limit')
+    expect(run.useAcceptanceInAutoQc).toBe(true)
+
+    const older = reload(saved({ outOfRangeSubstitute: 'retired' as PersistedStateV1['outOfRangeSubstitute'] }))
+    expect(older.quantCriteria).toEqual(DEFAULT_QUANT_CRITERIA)
+    expect(older.outOfRangeSubstitute).toBe('none')
+    expect(older.useAcceptanceInAutoQc).toBe(false)
+  })
+
+  it('restores the parallelism criteria', () => {
+    expect(reload(saved({ parallelismCriteria: { maxCvPct: 30, slopeTolerance: 0.1 } })).parallelismCriteria).toEqual({
+      maxCvPct: 30,
+      slopeTolerance: 0.1,
+    })
+    expect(reload(saved({})).parallelismCriteria).toEqual(DEFAULT_PARALLELISM_CRITERIA)
+  })
+
+  it('restores the dilution selection mode', () => {
+    expect(reload(saved({ dilutionSelection: 'best' })).dilutionSelection).toBe('best')
+    expect(reload(saved({})).dilutionSelection).toBe('average')
+  })
+
+  it('falls back to detection for older saves and unknown parsers', () => {
+    const older = reload(saved({}))
+    expect(older.readerParser).toBe('auto')
+    expect(older.readerTextFormat).toEqual(AUTO_TEXT_FORMAT)
+    expect(older.format.id).toBe('96')
+    expect(older.plates).toHaveLength(1)
+
+    const unknown = reload(saved({ readerParser: 'retired' as PersistedStateV1['readerParser'] }))
+    expect(unknown.readerParser).toBe('auto')
+  })
+})
@@ -0,0 +1,129 @@
+import type { AssayDirection } from './assayDirection'
+import type { CurveConstraintSettings } from './curveConstraints'
+import type { CurveModel } from './curveModels'
+import type { CurveWeighting } from './curveWeights'
+import { DEFAULT_DILUTION_SELECTION, DILUTION_SELECTION_LABELS, type DilutionSelectionMode } from './dilutionSelection'
+import type { TiterSettings } from './endpointTiter'
+import { READER_PARSERS, type ReaderParserId, type WavelengthConfig } from './elisaReader'
+import { emptyLayout, type PlateLayout, type RunPlate, type WellAssignment } from './layoutModel'
+import type { ModelSelection } from './modelSelection'
+import { createPlateFormat, plateFormatById, type PlateFormat, type PlateGeometry } from './plateFormat'
+import { DEFAULT_PARALLELISM_CRITERIA, type ParallelismCriteria } from './parallelism'
+import type { QualitativeSettings } from './qualitative'
+import {
+  DEFAULT_OUT_OF_RANGE_SUBSTITUTE,
+  DEFAULT_QUANT_CRITERIA,
+  OUT_OF_RANGE_SUBSTITUTE_LABELS,
+  type OutOfRangeSubstitute,
+  type QuantCriteria,
+} from './quantLimits'
+import type { QuantMode } from './quantMode'
+import type { ReaderMetadata, TemperatureRange } from './readerMetadata'
+import { AUTO_TEXT_FORMAT, type TextFormatOptions } from './tableText'
+
+// The run as saved in local storage, and how a saved run is read back.
+
+export type ActiveTab = 'layout' | 'analysis'
+
+export type PersistedStateV1 = {
+  v: 1
+  tab: ActiveTab
+  // Plate geometry of the run. Older saves only carry a format id, or nothing at all (96-well).
+  plate?: PlateGeometry
+  plateFormat?: string
+  sampleText: string
+  sampleHasHeader: boolean
+  animalIdCol: number
+  groupCol: number
+  dilutionCol?: number
+  sampleTextFormat?: TextFormatOptions
+  // Multi-plate runs. Older saves carry a single plate's `wells` instead.
+  plates?: Array<{
+    name: string
+    wells: Record<string, WellAssignment>
+    readerBlock?: number | null
+    readerMetadata?: ReaderMetadata | null
+  }>
+  activePlate?: number
+  wells?: Record<string, WellAssignment>
+  readerText: string
+  // Parser and separator/decimal overrides the reader text was read with.
+  readerParser?: ReaderParserId | 'auto'
+  readerTextFormat?: TextFormatOptions
+  wavelengths?: WavelengthConfig
+  temperatureRange?: TemperatureRange
+  curveWeighting?: CurveWeighting
+  assayDirection?: AssayDirection
+  curveConstraints?: CurveConstraintSettings
+  curveModel?: CurveModel
+  curveDegree?: 2 | 3
+  // Set when the model comparison's recommendation was applied; cleared by a manual model change.
+  modelSelection?: ModelSelection | null
+  quantMode?: QuantMode
+  titerSettings?: TiterSettings
+  qualitativeSettings?: QualitativeSettings
+  quantCriteria?: QuantCriteria
+  outOfRangeSubstitute?: OutOfRangeSubstitute
+  useAcceptanceInAutoQc?: boolean
+  parallelismCriteria?: ParallelismCriteria
+  dilutionSelection?: DilutionSelectionMode
+}
+
+export type HydratedRun = {
+  format: PlateFormat
+  plates: RunPlate[]
+  readerParser: ReaderParserId | 'auto'
+  readerTextFormat: TextFormatOptions
+  quantCriteria: QuantCriteria
+  outOfRangeSubstitute: OutOfRangeSubstitute
+  useAcceptanceInAutoQc: boolean
+  parallelismCriteria: ParallelismCriteria
+  dilutionSelection: DilutionSelectionMode
+}
+
+const hydrateWells = (format: PlateFormat, raw: Record<string, WellAssignment> | undefined): PlateLayout => {
+  const base = emptyLayout(format)
+  if (!raw) return base
+  for (const wellId of format.wellIds) {
+    const maybe = raw[wellId]
+    if (!maybe) continue
+    base[wellId] = {
+      ...base[wellId],
+      ...maybe,
+      wellId,
+      keep: typeof maybe.keep === 'boolean' ? maybe.keep : true,
+      type: maybe.type ?? base[wellId].type,
+    }
+  }
+  return base
+}
+
+// A saved option that is not (or no longer) offered falls back to its default.
+const oneOf = <T extends string>(labels: Record<T, string>, value: string | undefined, fallback: T): T =>
+  value !== undefined && Object.prototype.hasOwnProperty.call(labels, value) ? (value as T) : fallback
+
+// A parser that is no longer registered falls back to detection.
+const hydrateParser = (id: string | undefined): ReaderParserId | 'auto' =>
+  READER_PARSERS.find((p) => p.id === id)?.id ?? 'auto'
+
+export const hydrateRun = (persisted: Partial<PersistedStateV1> | null | undefined): HydratedRun => {
+  const format = persisted?.plate ? createPlateFormat(persisted.plate) : plateFormatById(persisted?.plateFormat)
+  const saved = persisted?.plates?.length ? persisted.plates : [{ name: 'Plate 1', wells: persisted?.wells ?? {} }]
+  const plates = saved.map((p, idx) => ({
+    name: p.name || `Plate ${idx + 1}`,
+    wells: hydrateWells(format, p.wells),
+    readerBlock: typeof p.readerBlock === 'number' ? p.readerBlock : null,
+    readerMetadata: p.readerMetadata ?? null,
+  }))
+  return {
+    format,
+    plates,
+    readerParser: hydrateParser(persisted?.readerParser),
+    readerTextFormat: { ...AUTO_TEXT_FORMAT, ...persisted?.readerTextFormat },
+    quantCriteria: { ...DEFAULT_QUANT_CRITERIA, ...persisted?.quantCriteria },
+    outOfRangeSubstitute: oneOf(OUT_OF_RANGE_SUBSTITUTE_LABELS, persisted?.outOfRangeSubstitute, DEFAULT_OUT_OF_RANGE_SUBSTITUTE),
+    useAcceptanceInAutoQc: persisted?.useAcceptanceInAutoQc === true,
+    parallelismCriteria: { ...DEFAULT_PARALLELISM_CRITERIA, ...persisted?.parallelismCriteria },
+    dilutionSelection: oneOf(DILUTION_SELECTION_LABELS, persisted?.dilutionSelection, DEFAULT_DILUTION_SELECTION),
+  }
+}
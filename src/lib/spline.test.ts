@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { eval4pl } from './logistic4pl'
+import { evalSpline, fitSpline, invertSpline } from './spline'
+
+const params = { A: 0.05, D: 2.2, C: 1.0, B: 1.2 }
+const x = [0.1, 0.3, 1, 3, 10, 30, 100]
+const y = x.map((v) => eval4pl(params, v))
+
+describe('spline', () => {
+  it('passes through every standard', () => {
+    for (const method of ['cubic', 'linear'] as const) {
+      const fit = fitSpline(x, y, method)!
+      expect(fit.sse).toBeCloseTo(0, 12)
+      x.forEach((v, i) => expect(evalSpline(fit, v)).toBeCloseTo(y[i], 12))
+    }
+  })
+
+  it('interpolates point-to-point linearly in log concentration', () => {
+    const fit = fitSpline(x, y, 'linear')!
+    const mid = Math.sqrt(3 * 10)
+    expect(evalSpline(fit, mid)).toBeCloseTo((y[3] + y[4]) / 2, 12)
+  })
+
+  it('tracks a smooth curve between standards and inverts within range', () => {
+    const fit = fitSpline(x, y, 'cubic')!
+    expect(evalSpline(fit, 5)).toBeCloseTo(eval4pl(params, 5), 1)
+
+    const conc = invertSpline(fit, eval4pl(params, 5), 0.1, 100)
+    expect(conc).not.toBeNull()
+    expect(evalSpline(fit, conc!)).toBeCloseTo(eval4pl(params, 5), 8)
+    expect(invertSpline(fit, 5, 0.1, 100)).toBeNull()
+  })
+
+  it('averages replicates at one concentration and needs enough levels', () => {
+    const fit = fitSpline([1, 1, 10, 100], [0.2, 0.4, 1, 2], 'linear')!
+    expect(fit.knots[0].y).toBeCloseTo(0.3, 12)
+    expect(fit.sse).toBeCloseTo(0.02, 12)
+    expect(fitSpline([1, 10], [0.2, 1], 'cubic')).toBeNull()
+  })
+})
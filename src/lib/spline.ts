@@ -0,0 +1,141 @@
+// Interpolating standard curves on log10 concentration: point-to-point (piecewise linear) or a
+// natural cubic spline through the level means. Both pass through every standard, so r2/sse only
+// reflect replicate levels that share a concentration.
+
+export type SplineMethod = 'cubic' | 'linear'
+
+export type SplineFit = {
+  method: SplineMethod
+  // Knots at log10 concentration, sorted by u.
+  knots: Array<{ u: number; y: number }>
+  // Second derivatives at the knots (all zero for point-to-point).
+  m: number[]
+  r2: number
+  sse: number
+  n: number
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
+
+// Natural spline: solve the tridiagonal system for the second derivatives, with m = 0 at both ends.
+const naturalSecondDerivatives = (u: number[], y: number[]): number[] => {
+  const n = u.length
+  const m = Array.from({ length: n }, () => 0)
+  if (n < 3) return m
+  const c: number[] = Array.from({ length: n }, () => 0)
+  const d: number[] = Array.from({ length: n }, () => 0)
+  for (let i = 1; i < n - 1; i += 1) {
+    const h0 = u[i] - u[i - 1]
+    const h1 = u[i + 1] - u[i]
+    const a = h0 / 6
+    const b = (h0 + h1) / 3
+    const cc = h1 / 6
+    const r = (y[i + 1] - y[i]) / h1 - (y[i] - y[i - 1]) / h0
+    // Forward sweep (Thomas algorithm).
+    const denom = b - a * c[i - 1]
+    c[i] = cc / denom
+    d[i] = (r - a * d[i - 1]) / denom
+  }
+  for (let i = n - 2; i >= 1; i -= 1) m[i] = d[i] - c[i] * m[i + 1]
+  return m
+}
+
+const evalAtU = (fit: SplineFit, u: number): number => {
+  const { knots, m } = fit
+  const last = knots.length - 1
+  if (last === 0) return knots[0].y
+
+  // Linear extrapolation beyond the end knots, along the end slopes.
+  if (u <= knots[0].u || u >= knots[last].u) {
+    const atStart = u <= knots[0].u
+    const i = atStart ? 0 : last - 1
+    const h = knots[i + 1].u - knots[i].u
+    const secant = (knots[i + 1].y - knots[i].y) / h
+    const slope = atStart ? secant - (h * m[1]) / 6 : secant + (h * m[last - 1]) / 6
+    const k = atStart ? knots[0] : knots[last]
+    return k.y + slope * (u - k.u)
+  }
+
+  let i = 0
+  while (i < last - 1 && u > knots[i + 1].u) i += 1
+  const h = knots[i + 1].u - knots[i].u
+  const a = (knots[i + 1].u - u) / h
+  const b = (u - knots[i].u) / h
+  return a * knots[i].y + b * knots[i + 1].y + (((a ** 3 - a) * m[i] + (b ** 3 - b) * m[i + 1]) * h * h) / 6
+}
+
+export const evalSpline = (fit: SplineFit, xConc: number): number => evalAtU(fit, Math.log10(xConc > 0 ? xConc : 1e-12))
+
+/**
+ * Concentration within [minConc, maxConc] where the curve reaches y. Scans for the first sign
+ * change and bisects; null when the curve never reaches y in that range.
+ */
+export const invertSpline = (fit: SplineFit, y: number, minConc: number, maxConc: number): number | null => {
+  if (!isFiniteNumber(y) || !(minConc > 0) || !isFiniteNumber(maxConc) || maxConc <= minConc) return null
+  const lo = Math.log10(minConc)
+  const hi = Math.log10(maxConc)
+  const steps = 400
+  const f = (u: number) => evalAtU(fit, u) - y
+
+  let u0 = lo
+  let f0 = f(u0)
+  if (f0 === 0) return minConc
+  for (let s = 1; s <= steps; s += 1) {
+    const u1 = lo + (s / steps) * (hi - lo)
+    const f1 = f(u1)
+    if (f1 === 0) return 10 ** u1
+    if (Math.sign(f0) !== Math.sign(f1)) {
+      let a = u0
+      let b = u1
+      let fa = f0
+      for (let iter = 0; iter < 60; iter += 1) {
+        const mid = (a + b) / 2
+        const fm = f(mid)
+        if (Math.sign(fm) === Math.sign(fa)) {
+          a = mid
+          fa = fm
+        } else {
+          b = mid
+        }
+      }
+      return 10 ** ((a + b) / 2)
+    }
+    u0 = u1
+    f0 = f1
+  }
+  return null
+}
+
+// Needs at least 2 distinct concentrations (3 for a cubic); replicates at one concentration are averaged.
+export const fitSpline = (xConc: number[], y: number[], method: SplineMethod): SplineFit | null => {
+  const byU = new Map<number, number[]>()
+  const clean: Array<{ u: number; y: number }> = []
+  for (let i = 0; i < Math.min(xConc.length, y.length); i += 1) {
+    if (!isFiniteNumber(xConc[i]) || xConc[i] <= 0 || !isFiniteNumber(y[i])) continue
+    const u = Math.log10(xConc[i])
+    clean.push({ u, y: y[i] })
+    byU.set(u, [...(byU.get(u) ?? []), y[i]])
+  }
+  const knots = Array.from(byU.entries())
+    .map(([u, ys]) => ({ u, y: ys.reduce((acc, v) => acc + v, 0) / ys.length }))
+    .sort((a, b) => a.u - b.u)
+  if (knots.length < (method === 'cubic' ? 3 : 2)) return null
+
+  const m =
+    method === 'cubic'
+      ? naturalSecondDerivatives(
+          knots.map((k) => k.u),
+          knots.map((k) => k.y)
+        )
+      : knots.map(() => 0)
+  const fit: SplineFit = { method, knots, m, r2: Number.NaN, sse: 0, n: clean.length }
+
+  const mean = clean.reduce((acc, p) => acc + p.y, 0) / clean.length
+  let ssTot = 0
+  for (const p of clean) {
+    fit.sse += (p.y - evalAtU(fit, p.u)) ** 2
+    ssTot += (p.y - mean) ** 2
+  }
+  fit.r2 = ssTot === 0 ? Number.NaN : 1 - fit.sse / ssTot
+  return fit
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { fDistCdf, incompleteBeta, median, studentTQuantile } from './stats'
+
+describe('stats', () => {
+  it('takes the median of finite values', () => {
+    expect(median([3, Number.NaN, 1, 2])).toBe(2)
+    expect(median([4, 1, 3, 2])).toBe(2.5)
+    expect(median([])).toBeNull()
+  })
+
+  it('matches tabulated two-sided 95% t quantiles', () => {
+    expect(studentTQuantile(0.975, 1)).toBeCloseTo(12.7062, 3)
+    expect(studentTQuantile(0.975, 3)).toBeCloseTo(3.1824, 3)
+    expect(studentTQuantile(0.975, 10)).toBeCloseTo(2.2281, 3)
+    expect(studentTQuantile(0.975, 120)).toBeCloseTo(1.9799, 3)
+    expect(studentTQuantile(0.025, 10)).toBeCloseTo(-2.2281, 3)
+    expect(studentTQuantile(0.975, 0)).toBeNull()
+  })
+
+  it('evaluates the regularized incomplete beta', () => {
+    // I_x(1, 1) = x and I_x(a, b) = 1 - I_(1-x)(b, a).
+    expect(incompleteBeta(0.3, 1, 1)).toBeCloseTo(0.3, 12)
+    expect(incompleteBeta(0.4, 2.5, 3)).toBeCloseTo(1 - incompleteBeta(0.6, 3, 2.5), 12)
+  })
+
+  it('matches tabulated F critical values', () => {
+    expect(fDistCdf(4.96, 1, 10)).toBeCloseTo(0.95, 3)
+    expect(fDistCdf(3.48, 4, 10)).toBeCloseTo(0.95, 3)
+    expect(fDistCdf(0, 2, 5)).toBe(0)
+  })
+})
@@ -6,3 +6,82 @@ export const median = (values: number[]): number | null => {
   return (clean[mid - 1] + clean[mid]) / 2
 }
 
+
+// Lanczos approximation (g = 7, n = 9), accurate to ~15 digits for x > 0.
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+]
+
+export const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x)
+  const z = x - 1
+  let a = LANCZOS[0]
+  const t = z + 7.5
+  for (let i = 1; i < LANCZOS.length; i += 1) a += LANCZOS[i] / (z + i)
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(a)
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz).
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const tiny = 1e-300
+  let c = 1
+  let d = 1 - ((a + b) * x) / (a + 1)
+  if (Math.abs(d) < tiny) d = tiny
+  d = 1 / d
+  let h = d
+  for (let m = 1; m <= 300; m += 1) {
+    const m2 = 2 * m
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2))
+    d = 1 + aa * d
+    if (Math.abs(d) < tiny) d = tiny
+    c = 1 + aa / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    h *= d * c
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1))
+    d = 1 + aa * d
+    if (Math.abs(d) < tiny) d = tiny
+    c = 1 + aa / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const del = d * c
+    h *= del
+    if (Math.abs(del - 1) < 1e-14) break
+  }
+  return h
+}
+
+// Regularized incomplete beta I_x(a, b).
+export const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x))
+  if (x < (a + 1) / (a + b + 2)) return (front * betaContinuedFraction(a, b, x)) / a
+  return 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b
+}
+
+export const studentTCdf = (t: number, df: number): number => {
+  const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5)
+  return t >= 0 ? 1 - tail : tail
+}
+
+// Quantile of Student's t by bisection on the CDF; null for df <= 0.
+export const studentTQuantile = (p: number, df: number): number | null => {
+  if (!(df > 0) || !(p > 0 && p < 1)) return null
+  if (p === 0.5) return 0
+  let lo = -1e3
+  let hi = 1e3
+  for (let i = 0; i < 200 && hi - lo > 1e-12; i += 1) {
+    const mid = (lo + hi) / 2
+    if (studentTCdf(mid, df) < p) lo = mid
+    else hi = mid
+  }
+  return (lo + hi) / 2
+}
+
+// CDF of the F distribution with (d1, d2) degrees of freedom.
+export const fDistCdf = (f: number, d1: number, d2: number): number => {
+  if (!(f > 0)) return 0
+  return incompleteBeta((d1 * f) / (d1 * f + d2), d1 / 2, d2 / 2)
+}
@@ -1,6 +1,8 @@
 import { describe, expect, it } from 'vitest'
 import { eval4pl } from './logistic4pl'
-import { suggestStandardCurveExclusions, type StdLevelInput } from './stdCurveAutoQc'
+import { eval5pl } from './logistic5pl'
+import { DEFAULT_QUANT_CRITERIA } from './quantLimits'
+import { fitStandardCurve, suggestStandardCurveExclusions, type StdLevelInput } from './stdCurveAutoQc'
 
 const mkLevel = (level: string, conc: number, reps: Array<{ wellId: string; y: number }>): StdLevelInput => ({
   level,
@@ -79,5 +81,63 @@ describe('stdCurveAutoQc', () => {
     expect(s.baseline).not.toBeNull()
     expect(s.actions).toHaveLength(0)
   })
-})
 
+  it('runs on asymmetric curves with the 5PL model', () => {
+    const trueParams = { A: 0.08, D: 2.6, C: 1.4, B: 1.1, E: 0.45 }
+    const xs = [0.1, 0.3, 1, 3, 10, 30, 100, 300]
+
+    const levels: StdLevelInput[] = xs.map((x, idx) =>
+      mkLevel(`Std${idx + 1}`, x, [
+        { wellId: `A${idx + 1}`, y: eval5pl(trueParams, x) },
+        { wellId: `B${idx + 1}`, y: eval5pl(trueParams, x) + (idx === 4 ? 0.7 : 0) },
+      ])
+    )
+
+    const s = suggestStandardCurveExclusions(levels, { kind: '5pl' }, { maxActions: 1, minScoreImprove: 1e-6 })
+    expect(s.baseline).not.toBeNull()
+    expect(s.excludedWellIds).toEqual(['B5'])
+    expect(s.suggested!.r2).toBeCloseTo(1, 4)
+  })
+
+  it('uses standard acceptance limits as a criterion when asked', () => {
+    const trueParams = { A: 0.05, D: 2.2, C: 1.0, B: 1.2 }
+    const xs = [0.1, 0.3, 1, 3, 10, 30, 100]
+
+    // Std4 replicates straddle the curve: the mean fits perfectly, but the replicate CV is far too high.
+    const levels: StdLevelInput[] = xs.map((x, idx) => {
+      const y = eval4pl(trueParams, x)
+      const spread = idx === 3 ? 0.3 : 0
+      return mkLevel(`Std${idx + 1}`, x, [
+        { wellId: `A${idx + 1}`, y: y - spread },
+        { wellId: `B${idx + 1}`, y: y + spread },
+      ])
+    })
+
+    const plain = suggestStandardCurveExclusions(levels, { kind: '4pl' }, { maxActions: 1 })
+    expect(plain.actions).toHaveLength(0)
+    expect(plain.baseline!.failingLevels).toBeNull()
+
+    const s = suggestStandardCurveExclusions(levels, { kind: '4pl' }, { maxActions: 1, acceptance: DEFAULT_QUANT_CRITERIA })
+    expect(s.baseline!.failingLevels).toBe(1)
+    expect(s.actions).toHaveLength(1)
+    expect(s.actions[0].reason).toContain('Standards outside acceptance: 1 → 0')
+    expect(s.suggested!.failingLevels).toBe(0)
+  })
+
+  it('passes the curve direction to 5PL fits', () => {
+    const params = { A: 2.2, D: 0.05, C: 1.0, B: 1.2, E: 0.7 }
+    const points = [0.1, 0.3, 1, 3, 10, 30, 100].map((x) => ({ x, y: eval5pl(params, x), variance: null }))
+    const up = fitStandardCurve({ kind: '5pl' }, points, 'none', { direction: 'increasing' })
+    expect(up?.kind === '5pl' && up.fit.params.D >= up.fit.params.A).toBe(true)
+  })
+
+  it('fits log-log curves unweighted whatever the signal-scale weighting', () => {
+    const points = [1, 3, 10, 30, 100].map((x, i) => ({ x, y: 0.02 * x ** 0.9 * (1 + 0.03 * (i % 2 ? 1 : -1)), variance: null }))
+    const weighted = fitStandardCurve({ kind: 'loglog' }, points, '1/y2')
+    const unweighted = fitStandardCurve({ kind: 'loglog' }, points, 'none')
+    expect(weighted?.kind).toBe('loglog')
+    expect(weighted?.kind === 'loglog' && weighted.fit.params).toEqual(
+      unweighted?.kind === 'loglog' && unweighted.fit.params
+    )
+  })
+})
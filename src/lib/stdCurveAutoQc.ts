@@ -1,7 +1,21 @@
-import { fit4pl } from './logistic4pl'
-import { evalPoly, fitPolynomial } from './polynomial'
-
-export type CurveKind = { kind: '4pl' } | { kind: 'poly'; degree: 2 | 3 }
+import { type FittedCurve } from './curveModels'
+import { curveWeights, sampleVariance, type CurveWeighting, type WeightPoint } from './curveWeights'
+import { fit4pl, type FourPLConstraints } from './logistic4pl'
+import { fit5pl } from './logistic5pl'
+import { fitLogitLog } from './logitLog'
+import { fitLogLog } from './logLog'
+import { fitPolynomial } from './polynomial'
+import { curveFnsFor, standardRecoveries, type QuantCriteria } from './quantLimits'
+import { fitSpline, type SplineMethod } from './spline'
+
+export type CurveKind =
+  | { kind: '4pl' }
+  | { kind: '5pl' }
+  | { kind: 'poly'; degree: 1 | 2 | 3 }
+  | { kind: 'loglog' }
+  // b0 is the zero-standard signal (B0); the model cannot be fitted without it.
+  | { kind: 'logitlog'; b0: number | null }
+  | { kind: 'spline'; method: SplineMethod }
 
 export type StdLevelInput = {
   level: string
@@ -17,8 +31,8 @@ export type AutoQcSuggestion = {
   excludedWellIds: string[]
   droppedLevels: string[]
   actions: AutoQcAction[]
-  baseline: { r2: number; sse: number; nLevels: number } | null
-  suggested: { r2: number; sse: number; nLevels: number } | null
+  baseline: FitSummary | null
+  suggested: FitSummary | null
 }
 
 export type AutoQcOptions = {
@@ -28,6 +42,13 @@ export type AutoQcOptions = {
   replicatePenalty?: number
   levelPenalty?: number
   minScoreImprove?: number
+  // Same weighting as the displayed fit, so scores compare like with like.
+  weighting?: CurveWeighting
+  // Standard acceptance limits; when given, each level whose back-calculation fails them costs `acceptancePenalty`.
+  acceptance?: QuantCriteria
+  acceptancePenalty?: number
+  // 4PL constraints of the displayed fit, so refits stay within them.
+  constraints?: FourPLConstraints
 }
 
 const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n)
@@ -38,55 +59,124 @@ const mean = (values: number[]): number | null => {
   return clean.reduce((acc, v) => acc + v, 0) / clean.length
 }
 
-type FitSummary = { r2: number; sse: number; nLevels: number }
-type Point = { level: string; x: number; y: number; n: number }
+// failingLevels counts standards outside the acceptance limits (null without limits).
+export type FitSummary = { r2: number; sse: number; nLevels: number; failingLevels: number | null }
+type Point = { level: string; x: number; y: number; n: number; variance: number | null; signals: number[] }
 
-const fitForPoints = (points: Point[], curve: CurveKind): FitSummary | null => {
+const countFailing = (points: Point[], fitted: FittedCurve, acceptance: QuantCriteria | undefined): number | null => {
+  if (!acceptance) return null
   const xs = points.map((p) => p.x)
-  const ys = points.map((p) => p.y)
-
-  if (curve.kind === '4pl') {
-    const clean: Array<{ x: number; y: number }> = []
-    for (let i = 0; i < xs.length; i += 1) {
-      const x = xs[i]
-      const y = ys[i]
-      if (!isFiniteNumber(x) || x <= 0) continue
-      if (!isFiniteNumber(y)) continue
-      clean.push({ x, y })
-    }
-    if (clean.length < 4) return null
-    const fit = fit4pl(
-      clean.map((p) => p.x),
-      clean.map((p) => p.y),
-      { restarts: 3 }
-    )
-    if (!fit) return null
-    return { r2: fit.r2, sse: fit.sse, nLevels: clean.length }
+  const curve = curveFnsFor(fitted, Math.min(...xs), Math.max(...xs))
+  const levels = points.map((p) => ({ level: p.level, conc: p.x, signals: p.signals }))
+  return standardRecoveries(levels, curve, acceptance).filter((s) => !s.pass).length
+}
+
+// Fewest standard levels each model can be fitted to.
+export const minLevelsFor = (curve: CurveKind): number => {
+  switch (curve.kind) {
+    case '4pl':
+      return 4
+    case '5pl':
+      return 5
+    case 'poly':
+      return curve.degree + 1
+    case 'loglog':
+    case 'logitlog':
+      return 2
+    case 'spline':
+      return curve.method === 'cubic' ? 3 : 2
   }
+}
 
-  const degree = curve.degree
-  const clean: Array<{ x: number; y: number }> = []
-  for (let i = 0; i < xs.length; i += 1) {
-    const x = xs[i]
-    const y = ys[i]
-    if (!isFiniteNumber(x)) continue
-    if (!isFiniteNumber(y)) continue
-    clean.push({ x, y })
+const fitCurve = (
+  curve: CurveKind,
+  x: number[],
+  y: number[],
+  w: number[],
+  constraints: FourPLConstraints | undefined
+): FittedCurve | null => {
+  switch (curve.kind) {
+    case '4pl': {
+      const fit = fit4pl(x, y, { restarts: 3, weights: w, constraints })
+      return fit ? { kind: '4pl', fit } : null
+    }
+    case '5pl': {
+      const fit = fit5pl(x, y, { restarts: 3, weights: w, direction: constraints?.direction })
+      return fit ? { kind: '5pl', fit } : null
+    }
+    case 'poly': {
+      const fit = fitPolynomial(x, y, curve.degree, w)
+      return fit ? { kind: 'poly', fit } : null
+    }
+    case 'loglog': {
+      const fit = fitLogLog(x, y, w)
+      return fit ? { kind: 'loglog', fit } : null
+    }
+    case 'logitlog': {
+      const fit = curve.b0 === null ? null : fitLogitLog(x, y, curve.b0, w)
+      return fit ? { kind: 'logitlog', fit } : null
+    }
+    case 'spline': {
+      // Interpolants pass through every level, so weighting does not apply.
+      const fit = fitSpline(x, y, curve.method)
+      return fit ? { kind: 'spline', fit } : null
+    }
   }
-  if (clean.length < degree + 1) return null
-  const fit = fitPolynomial(
+}
+
+// Weighting schemes are defined on the signal scale. Log-log and logit-log fit transformed signals,
+// whose log already evens out a proportional spread, so they are fitted unweighted; interpolating
+// splines pass through every level and take no weights either.
+export const fitWeighting = (curve: CurveKind, weighting: CurveWeighting): CurveWeighting =>
+  curve.kind === 'loglog' || curve.kind === 'logitlog' || curve.kind === 'spline' ? 'none' : weighting
+
+// The points a model can be fitted through, which are also the ones its weights are scaled over.
+export const curveFitPoints = (curve: CurveKind, points: WeightPoint[]): WeightPoint[] =>
+  points.filter(
+    (p) =>
+      isFiniteNumber(p.x) &&
+      isFiniteNumber(p.y) &&
+      (curve.kind === 'poly' || p.x > 0) &&
+      (curve.kind !== 'loglog' || p.y > 0)
+  )
+
+/**
+ * Fits one standard curve through level means with the chosen weighting. Only polynomials are
+ * fitted on linear x; every other model needs x > 0, and log-log also y > 0. Constraints apply to 4PL
+ * only, apart from the curve direction, which 5PL also keeps.
+ */
+export const fitStandardCurve = (
+  curve: CurveKind,
+  points: Array<WeightPoint>,
+  weighting: CurveWeighting,
+  constraints?: FourPLConstraints
+): FittedCurve | null => {
+  const clean = curveFitPoints(curve, points)
+  if (clean.length < minLevelsFor(curve)) return null
+  return fitCurve(
+    curve,
     clean.map((p) => p.x),
     clean.map((p) => p.y),
-    degree
+    curveWeights(fitWeighting(curve, weighting), clean),
+    constraints
   )
-  if (!fit) return null
-  let sse = 0
-  for (const pt of clean) {
-    const yHat = evalPoly(fit.coeff, pt.x)
-    const r = pt.y - yHat
-    sse += r * r
+}
+
+const fitForPoints = (
+  points: Point[],
+  curve: CurveKind,
+  weighting: CurveWeighting,
+  acceptance: QuantCriteria | undefined,
+  constraints: FourPLConstraints | undefined
+): FitSummary | null => {
+  const fitted = fitStandardCurve(curve, points, weighting, constraints)
+  if (!fitted) return null
+  return {
+    r2: fitted.fit.r2,
+    sse: fitted.fit.sse,
+    nLevels: fitted.fit.n,
+    failingLevels: countFailing(points, fitted, acceptance),
   }
-  return { r2: fit.r2, sse, nLevels: clean.length }
 }
 
 const calcScore = (
@@ -94,10 +184,22 @@ const calcScore = (
   excludedWellIdsCount: number,
   droppedLevelCount: number,
   replicatePenalty: number,
-  levelPenalty: number
+  levelPenalty: number,
+  acceptancePenalty: number
 ): number => {
   const r2 = Number.isFinite(fit.r2) ? fit.r2 : -Infinity
-  return r2 - excludedWellIdsCount * replicatePenalty - droppedLevelCount * levelPenalty
+  return (
+    r2 -
+    excludedWellIdsCount * replicatePenalty -
+    droppedLevelCount * levelPenalty -
+    (fit.failingLevels ?? 0) * acceptancePenalty
+  )
+}
+
+const improvementReason = (next: FitSummary, current: FitSummary): string => {
+  const reason = `Improves fit (ΔR² ${(next.r2 - current.r2).toFixed(4)}).`
+  if (next.failingLevels === null || current.failingLevels === null || next.failingLevels === current.failingLevels) return reason
+  return `${reason} Standards outside acceptance: ${current.failingLevels} → ${next.failingLevels}.`
 }
 
 export const suggestStandardCurveExclusions = (
@@ -111,6 +213,10 @@ export const suggestStandardCurveExclusions = (
   const replicatePenalty = opts.replicatePenalty ?? 0.005
   const levelPenalty = opts.levelPenalty ?? 0.01
   const minScoreImprove = opts.minScoreImprove ?? 0.001
+  const weighting = opts.weighting ?? 'none'
+  const acceptance = opts.acceptance
+  const acceptancePenalty = opts.acceptancePenalty ?? 0.02
+  const constraints = opts.constraints
 
   // Normalize + filter unusable data early.
   const levels: StdLevelInput[] = inputs
@@ -135,19 +241,20 @@ export const suggestStandardCurveExclusions = (
       if (!reps.length) continue
       const y = mean(reps.map((r) => r.y))
       if (y === null) continue
-      pts.push({ level: lvl.level, x: lvl.conc, y, n: reps.length })
+      const signals = reps.map((r) => r.y)
+      pts.push({ level: lvl.level, x: lvl.conc, y, n: reps.length, variance: sampleVariance(signals), signals })
     }
     return pts
   }
 
   const baselinePoints = buildPoints()
-  const baselineFit = fitForPoints(baselinePoints, curve)
+  const baselineFit = fitForPoints(baselinePoints, curve, weighting, acceptance, constraints)
   if (!baselineFit) {
     return { excludedWellIds: [], droppedLevels: [], actions: [], baseline: null, suggested: null }
   }
 
   let curFit = baselineFit
-  let curScore = calcScore(curFit, excludedWellIds.size, droppedLevels.size, replicatePenalty, levelPenalty)
+  let curScore = calcScore(curFit, excludedWellIds.size, droppedLevels.size, replicatePenalty, levelPenalty, acceptancePenalty)
 
   for (let step = 0; step < maxActions; step += 1) {
     let best:
@@ -161,7 +268,7 @@ export const suggestStandardCurveExclusions = (
       | null = null
 
     const currentPoints = buildPoints()
-    const currentFit = fitForPoints(currentPoints, curve)
+    const currentFit = fitForPoints(currentPoints, curve, weighting, acceptance, constraints)
     if (!currentFit) break
 
     // Candidate: exclude a single replicate (must leave at least 1 replicate in that level).
@@ -184,12 +291,13 @@ export const suggestStandardCurveExclusions = (
           if (!reps2.length) continue
           const y2 = mean(reps2.map((r) => r.y))
           if (y2 === null) continue
-          pts.push({ level: l2.level, x: l2.conc, y: y2, n: reps2.length })
+          const signals = reps2.map((r) => r.y)
+          pts.push({ level: l2.level, x: l2.conc, y: y2, n: reps2.length, variance: sampleVariance(signals), signals })
         }
 
-        const fit2 = fitForPoints(pts, curve)
+        const fit2 = fitForPoints(pts, curve, weighting, acceptance, constraints)
         if (!fit2) continue
-        const score2 = calcScore(fit2, nextExcluded.size, droppedLevels.size, replicatePenalty, levelPenalty)
+        const score2 = calcScore(fit2, nextExcluded.size, droppedLevels.size, replicatePenalty, levelPenalty, acceptancePenalty)
 
         if (!best || score2 > best.score) {
           best = {
@@ -201,7 +309,7 @@ export const suggestStandardCurveExclusions = (
               type: 'exclude-replicate',
               level: lvl.level,
               wellId: rep.wellId,
-              reason: `Improves fit (ΔR² ${(fit2.r2 - currentFit.r2).toFixed(4)}).`,
+              reason: improvementReason(fit2, currentFit),
             },
           }
         }
@@ -223,12 +331,13 @@ export const suggestStandardCurveExclusions = (
         if (!reps2.length) continue
         const y2 = mean(reps2.map((r) => r.y))
         if (y2 === null) continue
-        pts.push({ level: l2.level, x: l2.conc, y: y2, n: reps2.length })
+        const signals = reps2.map((r) => r.y)
+        pts.push({ level: l2.level, x: l2.conc, y: y2, n: reps2.length, variance: sampleVariance(signals), signals })
       }
 
-      const fit2 = fitForPoints(pts, curve)
+      const fit2 = fitForPoints(pts, curve, weighting, acceptance, constraints)
       if (!fit2) continue
-      const score2 = calcScore(fit2, excludedWellIds.size, nextDropped.size, replicatePenalty, levelPenalty)
+      const score2 = calcScore(fit2, excludedWellIds.size, nextDropped.size, replicatePenalty, levelPenalty, acceptancePenalty)
 
       if (!best || score2 > best.score) {
         best = {
@@ -236,7 +345,7 @@ export const suggestStandardCurveExclusions = (
           nextDropped,
           fit: fit2,
           score: score2,
-          action: { type: 'drop-level', level: lvl.level, reason: `Improves fit (ΔR² ${(fit2.r2 - currentFit.r2).toFixed(4)}).` },
+          action: { type: 'drop-level', level: lvl.level, reason: improvementReason(fit2, currentFit) },
         }
       }
     }
@@ -257,7 +366,7 @@ export const suggestStandardCurveExclusions = (
   const excludedList = Array.from(excludedWellIds)
   const droppedList = Array.from(droppedLevels)
   const suggestedPoints = buildPoints()
-  const suggestedFit = fitForPoints(suggestedPoints, curve)
+  const suggestedFit = fitForPoints(suggestedPoints, curve, weighting, acceptance, constraints)
 
   return {
     excludedWellIds: excludedList,
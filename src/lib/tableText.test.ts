@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { detectSeparator, parseLocaleNumber, parseTableText, tokenizeDelimited } from './tableText'
+
+describe('tableText', () => {
+  it('keeps separators and quotes inside quoted CSV fields', () => {
+    const text = ['Animal,Owner,Note', 'C571,"Smith, J","says ""hi"""', 'C572,"Doe, A","two', 'lines"'].join('\n')
+    const table = parseTableText(text, { hasHeader: true })
+    expect(table.separator).toBe('comma')
+    expect(table.rows).toEqual([
+      ['C571', 'Smith, J', 'says "hi"'],
+      ['C572', 'Doe, A', 'two\nlines'],
+    ])
+  })
+
+  it('reads semicolon exports with decimal commas', () => {
+    const text = ['Animal;Dilution;OD', 'C571;2,5;1,234', 'C572;10;0,5'].join('\n')
+    const table = parseTableText(text, { hasHeader: true })
+    expect(table.separator).toBe('semicolon')
+    expect(table.decimal).toBe(',')
+    expect(parseLocaleNumber(table.rows[0][2], table.decimal)).toBeCloseTo(1.234, 6)
+  })
+
+  it('honours separator and decimal overrides', () => {
+    const table = parseTableText('a|b;c\n1|2;3', { hasHeader: false, separator: 'pipe', decimal: ',' })
+    expect(table.rows[0]).toEqual(['a', 'b;c'])
+    expect(table.decimal).toBe(',')
+    expect(detectSeparator('x\t1,5\t2,5\ny\t3,5\t4,5')).toBe('tab')
+    expect(tokenizeDelimited('"a"  ,b', 'comma')).toEqual([['a', 'b']])
+  })
+
+  it('parses numbers for either decimal mark', () => {
+    expect(parseLocaleNumber('1,234', ',')).toBeCloseTo(1.234, 9)
+    expect(parseLocaleNumber('1.234,5', ',')).toBeCloseTo(1234.5, 9)
+    expect(parseLocaleNumber('1,234.5', '.')).toBeCloseTo(1234.5, 9)
+    expect(parseLocaleNumber('1,5', '.')).toBeNull()
+    expect(parseLocaleNumber('0,123', '.')).toBeNull()
+    expect(parseLocaleNumber('0.123', ',')).toBeCloseTo(0.123, 9)
+    expect(parseLocaleNumber('0x10', '.')).toBeNull()
+    expect(parseLocaleNumber('1e-3', '.')).toBeCloseTo(0.001, 9)
+  })
+})
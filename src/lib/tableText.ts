@@ -1,49 +1,182 @@
+export type Separator = 'tab' | 'comma' | 'semicolon' | 'pipe' | 'whitespace'
+
+// '.' for 1.5 (en-US style), ',' for 1,5 (most European locales).
+export type DecimalMark = '.' | ','
+
 export type TableText = {
   headers: string[]
   rows: string[][]
   maxColumns: number
   warnings: string[]
-  separator: 'tab' | 'comma' | 'semicolon' | 'pipe' | 'whitespace'
+  separator: Separator
+  decimal: DecimalMark
+}
+
+// User overrides for pasted text; 'auto' sniffs the value from the paste.
+export type TextFormatOptions = {
+  separator: Separator | 'auto'
+  decimal: DecimalMark | 'auto'
 }
 
-type ParseOptions = {
+export const AUTO_TEXT_FORMAT: TextFormatOptions = { separator: 'auto', decimal: 'auto' }
+
+type ParseOptions = Partial<TextFormatOptions> & {
   hasHeader: boolean
 }
 
-const detectSeparator = (text: string): TableText['separator'] => {
-  const head = text.split(/\r?\n/).slice(0, 5).join('\n')
+export const SEPARATOR_LABELS: Record<Separator, string> = {
+  tab: 'Tab',
+  comma: 'Comma (,)',
+  semicolon: 'Semicolon (;)',
+  pipe: 'Pipe (|)',
+  whitespace: 'Whitespace',
+}
+
+const SEPARATOR_CHARS: Record<Exclude<Separator, 'whitespace'>, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+}
+
+// Quoted fields are masked first so "Smith, J" does not count as a separator.
+export const detectSeparator = (text: string, headLines = 5): Separator => {
+  const head = text
+    .split(/\r?\n/)
+    .slice(0, headLines)
+    .join('\n')
+    .replace(/"(?:[^"]|"")*"/g, '""')
   const counts = {
     tab: (head.match(/\t/g) ?? []).length,
     comma: (head.match(/,/g) ?? []).length,
     semicolon: (head.match(/;/g) ?? []).length,
     pipe: (head.match(/\|/g) ?? []).length,
   }
-  const best = (Object.entries(counts).sort((a, b) => b[1] - a[1])[0]?.[0] ??
-    'whitespace') as keyof typeof counts
-  return counts[best] > 0 ? (best as TableText['separator']) : 'whitespace'
+  // Decimal commas inflate the comma count of tab and semicolon exports; prefer those when they split most lines.
+  const lines = head.split('\n').filter((l) => l.trim())
+  if (counts.tab > 0 && lines.filter((l) => l.includes('\t')).length * 2 >= lines.length) return 'tab'
+  if (counts.semicolon > 0 && counts.tab === 0 && lines.every((l) => l.includes(';'))) return 'semicolon'
+  const best = (Object.entries(counts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'whitespace') as keyof typeof counts
+  return counts[best] > 0 ? best : 'whitespace'
+}
+
+/**
+ * RFC 4180 tokenizer: fields may be wrapped in double quotes, quoted fields may contain the
+ * separator and line breaks, and "" inside quotes is a literal quote. Cells are trimmed.
+ */
+export const tokenizeDelimited = (text: string, sep: Separator): string[][] => {
+  if (sep === 'whitespace') {
+    return text
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => line.trim().split(/\s+/))
+  }
+
+  const sepChar = SEPARATOR_CHARS[sep]
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  let wasQuoted = false
+
+  const endCell = () => {
+    row.push(wasQuoted ? cell : cell.trim())
+    cell = ''
+    wasQuoted = false
+  }
+
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i += 1
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+      continue
+    }
+    if (ch === '"' && !cell.trim()) {
+      quoted = true
+      wasQuoted = true
+      cell = ''
+    } else if (ch === sepChar) {
+      endCell()
+    } else if (ch === '\n') {
+      endCell()
+      rows.push(row)
+      row = []
+    } else if (ch !== '\r' && !(wasQuoted && !quoted)) {
+      // Characters after a closing quote (other than the separator) are ignored.
+      cell += ch
+    }
+  }
+  endCell()
+  rows.push(row)
+
+  return rows.filter((r) => r.some((c) => c.trim()))
 }
 
-const splitRow = (line: string, sep: TableText['separator']): string[] => {
-  if (sep === 'tab') return line.split('\t').map((c) => c.trim())
-  if (sep === 'comma') return line.split(',').map((c) => c.trim())
-  if (sep === 'semicolon') return line.split(';').map((c) => c.trim())
-  if (sep === 'pipe') return line.split('|').map((c) => c.trim())
-  return line.trim().split(/\s+/).map((c) => c.trim())
+// Single-line variant for the reader parsers, which work line by line.
+export const splitRow = (line: string, sep: Separator): string[] => {
+  if (sep === 'whitespace') return line.trim().split(/\s+/).map((c) => c.trim())
+  if (!line.includes('"')) return line.split(SEPARATOR_CHARS[sep]).map((c) => c.trim())
+  return tokenizeDelimited(line, sep)[0] ?? []
+}
+
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i
+
+/**
+ * Locale-aware number parsing. With a ',' decimal mark, '.' and spaces are thousands separators
+ * ("1.234,5" → 1234.5); with '.', only well-formed ',' grouping is accepted ("1,234.5"). A leading
+ * group of 0 is never grouping: "0,123" is a decimal in the other locale and does not parse.
+ */
+export const parseLocaleNumber = (raw: string, decimal: DecimalMark = '.'): number | null => {
+  let s = raw.trim().replace(/[\s\u00a0\u202f']/g, '')
+  if (!s) return null
+  if (decimal === ',') {
+    if (/^[+-]?[1-9]\d{0,2}(\.\d{3})+(,\d*)?$/.test(s)) s = s.replace(/\./g, '')
+    s = s.replace(',', '.')
+  } else if (/^[+-]?[1-9]\d{0,2}(,\d{3})+(\.\d*)?$/.test(s)) {
+    s = s.replace(/,/g, '')
+  }
+  if (!NUMBER_PATTERN.test(s)) return null
+  const n = Number(s)
+  return Number.isFinite(n) ? n : null
+}
+
+// A ',' decimal mark is only possible when ',' is not the separator; decide by majority of numeric-looking cells.
+export const detectDecimalMark = (rows: string[][], sep: Separator): DecimalMark => {
+  if (sep === 'comma') return '.'
+  let comma = 0
+  let point = 0
+  for (const row of rows) {
+    for (const cell of row) {
+      const c = cell.trim().replace(/^[<>]=?/, '')
+      if (/^[+-]?\d*,\d+$/.test(c)) comma += 1
+      else if (/^[+-]?\d*\.\d+$/.test(c)) point += 1
+    }
+  }
+  return comma > point ? ',' : '.'
 }
 
 export const parseTableText = (text: string, options: ParseOptions): TableText => {
   const trimmed = text.replace(/\r/g, '').trim()
   if (!trimmed) {
-    return { headers: [], rows: [], maxColumns: 0, warnings: [], separator: 'whitespace' }
+    return { headers: [], rows: [], maxColumns: 0, warnings: [], separator: 'whitespace', decimal: '.' }
   }
 
-  const separator = detectSeparator(trimmed)
-  const rawLines = trimmed
-    .split('\n')
-    .map((line) => line.trimEnd())
-    .filter((line) => line.trim().length > 0)
-
-  const rawRows = rawLines.map((line) => splitRow(line, separator))
+  const separator = !options.separator || options.separator === 'auto' ? detectSeparator(trimmed) : options.separator
+  const rawRows = tokenizeDelimited(
+    trimmed
+      .split('\n')
+      .map((line) => line.trimEnd())
+      .join('\n'),
+    separator
+  )
+  const decimal = !options.decimal || options.decimal === 'auto' ? detectDecimalMark(rawRows, separator) : options.decimal
   const maxColumns = rawRows.reduce((max, row) => Math.max(max, row.length), 0)
 
   const normalized = rawRows.map((row) => {
@@ -61,7 +194,7 @@ export const parseTableText = (text: string, options: ParseOptions): TableText =
     : Array.from({ length: maxColumns }, (_, idx) => `Column ${idx + 1}`)
 
   const rows = options.hasHeader ? normalized.slice(1) : normalized
-  return { headers, rows, maxColumns, warnings, separator }
+  return { headers, rows, maxColumns, warnings, separator, decimal }
 }
 
 export const guessColumnIndex = (
@@ -84,10 +217,10 @@ export const guessColumnIndex = (
 
     // Heuristic: prefer columns that look like "10", "2", "1:10", "1/10", "10x", etc.
     const dilutionLike = (v: string) =>
-      /^\s*\d+(\.\d+)?\s*$/.test(v) ||
-      /^\s*1\s*[:/]\s*\d+(\.\d+)?\s*$/.test(v) ||
-      /^\s*\d+(\.\d+)?\s*x\s*$/i.test(v) ||
-      /^\s*x\s*\d+(\.\d+)?\s*$/i.test(v)
+      /^\s*\d+([.,]\d+)?\s*$/.test(v) ||
+      /^\s*1\s*[:/]\s*\d+([.,]\d+)?\s*$/.test(v) ||
+      /^\s*\d+([.,]\d+)?\s*x\s*$/i.test(v) ||
+      /^\s*x\s*\d+([.,]\d+)?\s*$/i.test(v)
 
     const scores = table.headers.map((_, colIdx) => {
       const values = table.rows.map((r) => (r[colIdx] ?? '').trim()).filter(Boolean)
@@ -110,7 +243,7 @@ export const guessColumnIndex = (
   const colScores = table.headers.map((_, colIdx) => {
     const values = table.rows.map((r) => r[colIdx] ?? '').filter(Boolean)
     if (!values.length) return -1
-    const numeric = values.filter((v) => /^[+-]?\d+(\.\d+)?$/.test(v.trim())).length
+    const numeric = values.filter((v) => /^[+-]?\d+([.,]\d+)?$/.test(v.trim())).length
     const alpha = values.filter((v) => /[A-Za-z]/.test(v)).length
     const avgLen = values.reduce((acc, v) => acc + v.length, 0) / values.length
     // prefer "mostly non-numeric", has letters, and not too short
@@ -1,58 +1,382 @@
-import { useMemo, useState } from 'react'
-import { parseElisaReaderText } from '../lib/elisaReader'
-import { type WellAssignment } from '../lib/layoutModel'
-import { plate96WellIds, plate96WellIdsColumnMajor, toColumnMajorNumber96, type WellId96 } from '../lib/plate96'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  netLabel,
+  parseElisaReaderText,
+  READER_PARSERS,
+  READING_STATUS_LABELS,
+  readerParserLabel,
+  WAVELENGTH_PRESETS,
+  type ElisaWellReading,
+  type ReaderParserId,
+  type ReadingStatus,
+  type WavelengthConfig,
+} from '../lib/elisaReader'
+import {
+  CONTROL_WELL_LABELS,
+  isControlWell,
+  type ControlWellType,
+  type PlateLayout,
+  type WellAssignment,
+} from '../lib/layoutModel'
+import { plateOrderHint, readerOrderHint, toColumnMajorNumber, type PlateFormat, type WellId } from '../lib/plateFormat'
 import { CurvePlot } from '../components/CurvePlot'
-import { fitPolynomial, invertPolyBySearch, type PolyFit } from '../lib/polynomial'
-import { fit4pl, invert4pl, type FourPLFit } from '../lib/logistic4pl'
+import { FitStatsTable } from '../components/FitStatsTable'
+import { KineticTracePlot } from '../components/KineticTracePlot'
+import { ModelComparisonTable } from '../components/ModelComparisonTable'
+import { ParallelismTable } from '../components/ParallelismTable'
+import { QualitativeTable } from '../components/QualitativeTable'
+import { ReaderSourceView } from '../components/ReaderSourceView'
+import { ResidualPlot } from '../components/ResidualPlot'
+import { StdRecoveryTable } from '../components/StdRecoveryTable'
+import { TiterTable } from '../components/TiterTable'
+import { TextFormatControls } from '../components/TextFormatControls'
+import { defaultKineticWindow, kineticRates, rateReadings, type KineticWindow } from '../lib/kinetic'
+import { concInterval, type ConcInterval } from '../lib/concInterval'
+import { curveDiagnostics } from '../lib/curveDiagnostics'
+import {
+  CURVE_MODEL_LABELS,
+  curveKindFor,
+  curveModelBadge,
+  curveUsesLogX,
+  invertCurve,
+  type CurveModel,
+  type FittedCurve,
+} from '../lib/curveModels'
+import {
+  BOTTOM_CONSTRAINT_LABELS,
+  constraintSummary,
+  fourPlConstraints,
+  type BottomConstraint,
+  type CurveConstraintSettings,
+} from '../lib/curveConstraints'
+import { CURVE_WEIGHTING_LABELS, readingWeight, sampleVariance, type CurveWeighting } from '../lib/curveWeights'
+import {
+  ASSAY_DIRECTION_LABELS,
+  curveDirection,
+  offScaleRange,
+  percentBB0,
+  zeroStandardSignals,
+  type AssayDirection,
+} from '../lib/assayDirection'
+import {
+  endpointTiters,
+  formatTiter,
+  TITER_CUTOFF_LABELS,
+  TITER_METHOD_LABELS,
+  titerCutoff,
+  type TiterCutoffMode,
+  type TiterMethod,
+  type TiterSettings,
+  type TiterWell,
+} from '../lib/endpointTiter'
+import { formatSource } from '../lib/readerDiagnostics'
+import { DILUTION_SELECTION_LABELS, selectBestDilution, type DilutionSelectionMode } from '../lib/dilutionSelection'
+import { parallelism, type ParallelismCriteria } from '../lib/parallelism'
+import {
+  classifySample,
+  cutoffSignal,
+  formatCutoffFormula,
+  runValidity,
+  summarizeControl,
+  type ControlReading,
+  type QualitativeCall,
+  type QualitativeSettings,
+} from '../lib/qualitative'
+import { QUANT_MODE_LABELS, type QuantMode } from '../lib/quantMode'
+import {
+  metadataEntries,
+  temperatureWarning,
+  type ReaderMetadata,
+  type TemperatureRange,
+} from '../lib/readerMetadata'
+import {
+  curveFnsFor,
+  OUT_OF_RANGE_SUBSTITUTE_LABELS,
+  quantLimits,
+  rangeLabel,
+  reportedConc,
+  type CurveFns,
+  type OutOfRangeSubstitute,
+  type QuantCriteria,
+  type RangeLabel,
+} from '../lib/quantLimits'
+import { compareCurveModels, type ModelSelection } from '../lib/modelSelection'
 import { median } from '../lib/stats'
-import { suggestStandardCurveExclusions } from '../lib/stdCurveAutoQc'
+import type { TextFormatOptions } from '../lib/tableText'
+import {
+  curveFitPoints,
+  fitStandardCurve,
+  fitWeighting,
+  minLevelsFor,
+  suggestStandardCurveExclusions,
+} from '../lib/stdCurveAutoQc'
 
 export type AnalysisTabProps = {
+  format: PlateFormat
   readerText: string
   onChangeReaderText: (next: string) => void
-  wells: Record<WellId96, WellAssignment>
-  onChangeWells: (next: Record<WellId96, WellAssignment>) => void
+  // Parser choice and separator/decimal overrides for the reader text, saved with the run.
+  readerParser: ReaderParserId | 'auto'
+  onChangeReaderParser: (next: ReaderParserId | 'auto') => void
+  readerTextFormat: TextFormatOptions
+  onChangeReaderTextFormat: (next: TextFormatOptions) => void
+  wavelengths: WavelengthConfig
+  onChangeWavelengths: (next: WavelengthConfig) => void
+  plateName: string
+  // Which plate block of the reader file this plate is analysed against.
+  readerBlock: number
+  onChangeReaderBlock: (next: number) => void
+  // Keeps the assigned block's metadata on the run record.
+  onChangeReaderMetadata: (next: ReaderMetadata | null) => void
+  temperatureRange: TemperatureRange
+  onChangeTemperatureRange: (next: TemperatureRange) => void
+  // Run-level regression weighting, shared by the fit and Auto-QC.
+  curveWeighting: CurveWeighting
+  onChangeCurveWeighting: (next: CurveWeighting) => void
+  // Run-level assay direction; competitive assays lose signal as concentration rises.
+  assayDirection: AssayDirection
+  onChangeAssayDirection: (next: AssayDirection) => void
+  // Run-level 4PL constraints, honoured by the fit and Auto-QC.
+  curveConstraints: CurveConstraintSettings
+  onChangeCurveConstraints: (next: CurveConstraintSettings) => void
+  // Run-level curve model; the degree only applies to 'poly'.
+  curveModel: CurveModel
+  onChangeCurveModel: (next: CurveModel) => void
+  curveDegree: 2 | 3
+  onChangeCurveDegree: (next: 2 | 3) => void
+  // Applied model-comparison recommendation and its rationale, stored with the run.
+  modelSelection: ModelSelection | null
+  onChangeModelSelection: (next: ModelSelection | null) => void
+  // Run-level Step 4 mode: standard-curve concentrations or endpoint titers of dilution series.
+  quantMode: QuantMode
+  onChangeQuantMode: (next: QuantMode) => void
+  titerSettings: TiterSettings
+  onChangeTiterSettings: (next: TiterSettings) => void
+  qualitativeSettings: QualitativeSettings
+  onChangeQualitativeSettings: (next: QualitativeSettings) => void
+  // Standard recovery and CV criteria behind LLOQ/ULOQ and the recovery table.
+  quantCriteria: QuantCriteria
+  onChangeQuantCriteria: (next: QuantCriteria) => void
+  // Value reported for samples outside LLOQ–ULOQ.
+  outOfRangeSubstitute: OutOfRangeSubstitute
+  onChangeOutOfRangeSubstitute: (next: OutOfRangeSubstitute) => void
+  // Whether Auto-QC also scores standards against the acceptance limits.
+  useAcceptanceInAutoQc: boolean
+  onChangeUseAcceptanceInAutoQc: (next: boolean) => void
+  // Dilution-series CV and slope limits for the parallelism check.
+  parallelismCriteria: ParallelismCriteria
+  onChangeParallelismCriteria: (next: ParallelismCriteria) => void
+  // How animal means combine wells run at several dilutions.
+  dilutionSelection: DilutionSelectionMode
+  onChangeDilutionSelection: (next: DilutionSelectionMode) => void
+  wells: PlateLayout
+  onChangeWells: (next: PlateLayout) => void
 }
 
 type Row = {
-  wellId: WellId96
+  wellId: WellId
   type: WellAssignment['type']
   animalId: string
   group: string
   dilutionFactor: number | null
-  a450: number | null
-  a570: number | null
+  primary: number | null
+  reference: number | null
   net: number | null
+  status: ReadingStatus
   keep: boolean
   outlier: boolean
   delta: number | null
 }
 
 const fmt = (n: number | null) => (n === null ? '' : n.toFixed(4))
+const fmtPct = (n: number | null) => (n === null ? '' : `${n.toFixed(1)}%`)
+// Empty or non-numeric input clears an optional setting.
+const optionalNumber = (v: string): number | null => (v.trim() !== '' && Number.isFinite(Number(v)) ? Number(v) : null)
 
-type CurveModel = '4pl' | 'poly'
-type CurveFit = { kind: 'poly'; fit: PolyFit } | { kind: '4pl'; fit: FourPLFit }
+type SignalMode = 'rate' | 'endpoint'
+type SampleFlag = '' | '>ULOQ' | '<LOD'
 
-export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWells }: AnalysisTabProps) {
+const QUANT_MODE_HEADINGS: Record<QuantMode, { title: string; blurb: string }> = {
+  curve: {
+    title: 'Sample concentrations',
+    blurb:
+      'Concentrations are computed by inverting the fitted curve within the standard range, then multiplying by the well’s dilution factor.',
+  },
+  titer: {
+    title: 'Endpoint titers',
+    blurb: 'Each animal’s wells form a dilution series; the titer is the reciprocal dilution at which the signal falls to the cutoff.',
+  },
+  qualitative: {
+    title: 'Qualitative calls',
+    blurb: 'Each sample’s signal is divided by the cutoff from the controls (S/CO) and called positive, equivocal or negative.',
+  },
+}
+
+const CURVE_MODELS = Object.keys(CURVE_MODEL_LABELS) as CurveModel[]
+// Standardised residuals beyond this are highlighted.
+const RESIDUAL_LIMIT = 2.5
+
+const fitTitle = (curve: FittedCurve): string => {
+  switch (curve.kind) {
+    case 'poly':
+      return curve.fit.degree === 1 ? 'Linear fit' : `Polynomial fit (deg ${curve.fit.degree})`
+    case 'loglog':
+      return 'Log-log linear fit (log scale)'
+    case 'logitlog':
+      return 'Logit-log fit (log scale)'
+    case 'spline':
+      return `${curve.fit.method === 'cubic' ? 'Cubic spline' : 'Point-to-point'} (log scale)`
+    default:
+      return `${curve.kind.toUpperCase()} fit (log scale)`
+  }
+}
+
+export function AnalysisTab({
+  format,
+  readerText,
+  onChangeReaderText,
+  readerParser,
+  onChangeReaderParser,
+  readerTextFormat,
+  onChangeReaderTextFormat,
+  wavelengths,
+  onChangeWavelengths,
+  plateName,
+  readerBlock,
+  onChangeReaderBlock,
+  onChangeReaderMetadata,
+  temperatureRange,
+  onChangeTemperatureRange,
+  curveWeighting,
+  onChangeCurveWeighting,
+  assayDirection,
+  onChangeAssayDirection,
+  curveConstraints,
+  onChangeCurveConstraints,
+  curveModel,
+  onChangeCurveModel,
+  curveDegree,
+  onChangeCurveDegree,
+  modelSelection,
+  onChangeModelSelection,
+  quantMode,
+  onChangeQuantMode,
+  titerSettings,
+  onChangeTiterSettings,
+  qualitativeSettings,
+  onChangeQualitativeSettings,
+  quantCriteria,
+  onChangeQuantCriteria,
+  outOfRangeSubstitute,
+  onChangeOutOfRangeSubstitute,
+  useAcceptanceInAutoQc,
+  onChangeUseAcceptanceInAutoQc,
+  parallelismCriteria,
+  onChangeParallelismCriteria,
+  dilutionSelection,
+  onChangeDilutionSelection,
+  wells,
+  onChangeWells,
+}: AnalysisTabProps) {
   const [showOnlyAssigned, setShowOnlyAssigned] = useState(true)
   const [tableOrder, setTableOrder] = useState<'columnMajor' | 'rowMajor'>('columnMajor')
   const [blankSubtract, setBlankSubtract] = useState(true)
   const [outlierThreshold, setOutlierThreshold] = useState(0.15)
-  const [curveModel, setCurveModel] = useState<CurveModel>('4pl')
-  const [curveDegree, setCurveDegree] = useState<2 | 3>(2)
   const [useSuggestedStdExclusions, setUseSuggestedStdExclusions] = useState(false)
   const [serialTop, setSerialTop] = useState<number>(1000)
   const [serialFactor, setSerialFactor] = useState<number>(2)
   const [serialOrder, setSerialOrder] = useState<'highToLow' | 'lowToHigh'>('highToLow')
+  const [signalMode, setSignalMode] = useState<SignalMode>('rate')
+  const [kineticStart, setKineticStart] = useState<number | null>(null)
+  const [kineticEnd, setKineticEnd] = useState<number | null>(null)
+  const [traceWell, setTraceWell] = useState<WellId | null>(null)
+  const [includeSaturated, setIncludeSaturated] = useState(false)
+  const [showSource, setShowSource] = useState(false)
+  const [residualMode, setResidualMode] = useState<'raw' | 'standardized'>('standardized')
+  const [hoverWell, setHoverWell] = useState<WellId | null>(null)
+
+  const parsed = useMemo(
+    () => parseElisaReaderText(readerText, { format, parser: readerParser, wavelengths, ...readerTextFormat }),
+    [format, readerParser, readerText, readerTextFormat, wavelengths]
+  )
+  const primaryLabel = String(wavelengths.primary)
+  const referenceLabel = wavelengths.reference === null ? null : String(wavelengths.reference)
+  const netHeader = netLabel(wavelengths)
+
+  const readerPlate = parsed.plates[readerBlock] ?? null
+  const plateWells = useMemo(() => readerPlate?.wells ?? {}, [readerPlate])
+  const kinetic = readerPlate?.kinetic ?? null
+  const metadata = readerPlate?.metadata ?? null
+  const diagnostics = readerPlate?.diagnostics ?? parsed.diagnostics
+  const tempWarning = temperatureWarning(metadata?.temperatureC ?? null, temperatureRange)
+  const readerWarnings = tempWarning ? [...parsed.warnings, tempWarning] : parsed.warnings
 
-  const parsed = useMemo(() => parseElisaReaderText(readerText), [readerText])
+  useEffect(() => {
+    onChangeReaderMetadata(metadata)
+  }, [metadata, onChangeReaderMetadata])
+
+  const sourceTitle = (wellId: WellId): string | undefined => {
+    const source = diagnostics.cells[wellId]
+    const parts = [
+      source?.primary ? `${primaryLabel} nm from ${formatSource(source.primary)}` : null,
+      source?.reference && referenceLabel !== null ? `${referenceLabel} nm from ${formatSource(source.reference)}` : null,
+    ].filter(Boolean)
+    return parts.length ? parts.join(' · ') : undefined
+  }
+
+  // Every TSV export starts with the plate name and reader metadata, then a blank line.
+  const exportHeader = (extra: string[] = []) => [
+    `Plate\t${plateName}`,
+    ...(metadata ? metadataEntries(metadata).map(([label, value]) => `${label}\t${value}`) : []),
+    `Assay direction\t${ASSAY_DIRECTION_LABELS[assayDirection]}`,
+    `Curve model\t${curveModelBadge(curveModel, curveDegree)}`,
+    ...(modelSelection ? [`Model selection\t${modelSelection.rationale}`] : []),
+    `Curve weighting\t${CURVE_WEIGHTING_LABELS[curveWeighting]}`,
+    ...(constraintText ? [`Curve constraints\t${constraintText}`] : []),
+    ...extra,
+    '',
+  ]
+  const useRate = kinetic !== null && signalMode === 'rate'
+  const kineticWindow: KineticWindow | null = useMemo(() => {
+    if (!kinetic) return null
+    const full = defaultKineticWindow(kinetic)
+    return { startSec: kineticStart ?? full.startSec, endSec: kineticEnd ?? full.endSec }
+  }, [kinetic, kineticEnd, kineticStart])
+  const rates = useMemo(
+    () => (kinetic && kineticWindow ? kineticRates(kinetic, kineticWindow) : {}),
+    [kinetic, kineticWindow]
+  )
+  // Downstream signal per well: endpoint net OD, or the kinetic rate (Vmax) when analysing a kinetic read.
+  const readings = useMemo(
+    () => (useRate && kinetic && kineticWindow ? rateReadings(plateWells, rates, kinetic, kineticWindow) : plateWells),
+    [kinetic, kineticWindow, plateWells, rates, useRate]
+  )
+  const signalHeader = useRate ? 'Vmax (OD/min)' : `Net (${netHeader})`
+  const traceWellIds = useMemo(() => {
+    if (!kinetic) return []
+    const withTrace = format.wellIds.filter((wellId) => kinetic.traces[wellId])
+    const assigned = withTrace.filter((wellId) => wells[wellId] && wells[wellId].type !== 'Empty')
+    return assigned.length ? assigned : withTrace
+  }, [format, kinetic, wells])
+  const shownTraceWell = traceWell && traceWellIds.includes(traceWell) ? traceWell : traceWellIds[0] ?? null
+
+  // Standards signal for the curve fit. Saturated wells stay out unless explicitly included at their reported bound.
+  const fitSignal = useCallback(
+    (reading: ElisaWellReading | undefined): number | null => {
+      if (!reading) return null
+      if (reading.status === 'saturated' && includeSaturated && reading.primary !== null) {
+        return reading.primary - (reading.reference ?? 0)
+      }
+      return reading.status === 'ok' ? reading.net : null
+    },
+    [includeSaturated]
+  )
 
   const standardLevels = useMemo(() => {
     const levels = new Set<string>()
-    for (const wellId of plate96WellIds) {
+    for (const wellId of format.wellIds) {
       const w = wells[wellId]
-      if (w.type !== 'Standard') continue
+      if (w?.type !== 'Standard') continue
       const lvl = (w.standardLevel ?? '').trim()
       if (lvl) levels.add(lvl)
     }
@@ -70,7 +394,7 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
       return a.localeCompare(b)
     })
     return list
-  }, [wells])
+  }, [format, wells])
 
   const [stdConcMap, setStdConcMap] = useState<Record<string, number>>(() => {
     const base: Record<string, number> = {}
@@ -104,23 +428,23 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
 
   const blanks = useMemo(() => {
     const vals: number[] = []
-    for (const wellId of plate96WellIds) {
+    for (const wellId of format.wellIds) {
       const w = wells[wellId]
-      if (w.type !== 'Blank' || !w.keep) continue
-      const net = parsed.wells[wellId]?.net ?? null
+      if (w?.type !== 'Blank' || !w.keep) continue
+      const net = readings[wellId]?.net ?? null
       if (typeof net === 'number' && Number.isFinite(net)) vals.push(net)
     }
     return vals
-  }, [parsed.wells, wells])
+  }, [format, readings, wells])
 
   const blankMedian = useMemo(() => median(blanks), [blanks])
   const blankOffset = blankSubtract && blankMedian !== null ? blankMedian : 0
 
   const rows: Row[] = useMemo(() => {
-    const wellOrder = tableOrder === 'columnMajor' ? plate96WellIdsColumnMajor : plate96WellIds
-    const items: Row[] = wellOrder.map((wellId) => {
+    const wellOrder = tableOrder === 'columnMajor' ? format.wellIdsColumnMajor : format.wellIds
+    const items: Row[] = wellOrder.filter((wellId) => wells[wellId]).map((wellId) => {
       const w = wells[wellId]
-      const reading = parsed.wells[wellId]
+      const reading = readings[wellId]
       const net = reading?.net ?? null
       return {
         wellId,
@@ -128,9 +452,10 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
         animalId: w.type === 'Sample' ? w.animalId ?? '' : '',
         group: w.type === 'Sample' ? w.group ?? '' : w.type === 'Standard' ? w.standardLevel ?? '' : '',
         dilutionFactor: w.type === 'Sample' ? w.dilutionFactor ?? 1 : null,
-        a450: reading?.a450 ?? null,
-        a570: reading?.a570 ?? null,
+        primary: reading?.primary ?? null,
+        reference: reading?.reference ?? null,
         net,
+        status: reading?.status ?? 'ok',
         keep: w.keep,
         outlier: false,
         delta: null,
@@ -140,7 +465,8 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
     // Outlier detection on blank-corrected net, within replicate groups.
     const groupMap = new Map<string, { idx: number; value: number }[]>()
     items.forEach((row, idx) => {
-      if (!row.keep) return
+      // Flagged reads have no trustworthy net value, so they never join (or skew) a replicate group.
+      if (!row.keep || row.status !== 'ok') return
       const val = row.net === null ? null : row.net - blankOffset
       if (val === null || !Number.isFinite(val)) return
 
@@ -148,6 +474,7 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
       if (row.type === 'Standard') key = `STD||${row.group}`
       if (row.type === 'Sample') key = `SAMPLE||${row.animalId}||${row.dilutionFactor ?? 1}`
       if (row.type === 'Blank') key = 'BLANK'
+      if (isControlWell(row.type)) key = `CTRL||${row.type}`
 
       const arr = groupMap.get(key) ?? []
       arr.push({ idx, value: val })
@@ -166,7 +493,7 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
     }
 
     return items
-  }, [wells, parsed.wells, blankOffset, outlierThreshold, tableOrder])
+  }, [format, wells, readings, blankOffset, outlierThreshold, tableOrder])
 
   const filteredRows = useMemo(() => {
     if (!showOnlyAssigned) return rows
@@ -180,21 +507,23 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
     const blanksCount = rows.filter((r) => r.type === 'Blank').length
     const outliers = rows.filter((r) => r.outlier && r.keep).length
     const kept = rows.filter((r) => r.keep && r.type !== 'Empty').length
-    return { assigned, samples, standards, blanks: blanksCount, outliers, kept }
+    const saturated = rows.filter((r) => r.status === 'saturated').length
+    const flagged = rows.filter((r) => r.status !== 'ok').length
+    return { assigned, samples, standards, blanks: blanksCount, outliers, kept, saturated, flagged }
   }, [rows])
 
-  const toggleKeep = (wellId: WellId96, keep: boolean) => {
+  const toggleKeep = (wellId: WellId, keep: boolean) => {
     onChangeWells({ ...wells, [wellId]: { ...wells[wellId], keep } })
   }
 
   const stdLevels = useMemo(() => {
-    const byLevel = new Map<string, Array<{ wellId: WellId96; y: number }>>()
-    for (const wellId of plate96WellIds) {
+    const byLevel = new Map<string, Array<{ wellId: WellId; y: number }>>()
+    for (const wellId of format.wellIds) {
       const w = wells[wellId]
-      if (w.type !== 'Standard' || !w.keep) continue
+      if (w?.type !== 'Standard' || !w.keep) continue
       const lvl = (w.standardLevel ?? '').trim()
       if (!lvl) continue
-      const net = parsed.wells[wellId]?.net ?? null
+      const net = fitSignal(readings[wellId])
       if (net === null || !Number.isFinite(net)) continue
       const y = net - blankOffset
       if (!Number.isFinite(y)) continue
@@ -209,16 +538,26 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
       const replicates = byLevel.get(lvl) ?? []
       return { level: lvl, conc, replicates }
     })
-  }, [blankOffset, parsed.wells, standardLevels, stdConcMap, wells])
+  }, [blankOffset, fitSignal, format, readings, standardLevels, stdConcMap, wells])
+
+  const competitive = assayDirection === 'competitive'
+  // B0: mean zero-standard signal, the reference for %B/B0 and the logit-log model.
+  const zeroSignals = useMemo(() => zeroStandardSignals(stdLevels), [stdLevels])
+  const b0 = zeroSignals.length ? zeroSignals.reduce((acc, v) => acc + v, 0) / zeroSignals.length : null
+  const curveKind = useMemo(() => curveKindFor(curveModel, curveDegree, b0), [b0, curveDegree, curveModel])
+  // The weighting the fit actually uses; log-log, logit-log and spline fits are always unweighted.
+  const appliedWeighting = fitWeighting(curveKind, curveWeighting)
 
   const stdPoints = useMemo(() => {
     const byLevel = new Map<string, number[]>()
-    for (const wellId of plate96WellIds) {
+    const saturatedByLevel = new Map<string, number>()
+    for (const wellId of format.wellIds) {
       const w = wells[wellId]
-      if (w.type !== 'Standard' || !w.keep) continue
+      if (w?.type !== 'Standard' || !w.keep) continue
       const lvl = (w.standardLevel ?? '').trim()
       if (!lvl) continue
-      const net = parsed.wells[wellId]?.net ?? null
+      if (readings[wellId]?.status === 'saturated') saturatedByLevel.set(lvl, (saturatedByLevel.get(lvl) ?? 0) + 1)
+      const net = fitSignal(readings[wellId])
       if (net === null || !Number.isFinite(net)) continue
       const corrected = net - blankOffset
       const arr = byLevel.get(lvl) ?? []
@@ -236,10 +575,35 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
           : null
       const concRaw = stdConcMap[lvl]
       const conc = Number.isFinite(concRaw) ? concRaw : null
-      return { level: lvl, conc, n, mean, sd }
+      return { level: lvl, conc, n, mean, sd, saturated: saturatedByLevel.get(lvl) ?? 0 }
     })
     return points
-  }, [blankOffset, parsed.wells, wells, standardLevels, stdConcMap])
+  }, [blankOffset, fitSignal, format, readings, wells, standardLevels, stdConcMap])
+
+  const blankSignals = useMemo(() => {
+    const vals: number[] = []
+    for (const wellId of format.wellIds) {
+      const w = wells[wellId]
+      if (w?.type !== 'Blank' || !w.keep) continue
+      const signal = fitSignal(readings[wellId])
+      if (signal !== null && Number.isFinite(signal)) vals.push(signal - blankOffset)
+    }
+    return vals
+  }, [blankOffset, fitSignal, format, readings, wells])
+
+  // 4PL constraints of the run; a blank-fixed bottom uses the mean blank on the fit's scale.
+  const resolvedConstraints = useMemo(
+    () =>
+      fourPlConstraints(
+        curveConstraints,
+        blankSignals.length ? blankSignals.reduce((acc, v) => acc + v, 0) / blankSignals.length : null,
+        curveDirection(assayDirection)
+      ),
+    [assayDirection, blankSignals, curveConstraints]
+  )
+  // Saved constraints stay with the run but only bind the 4PL.
+  const savedConstraintText = constraintSummary(curveConstraints, resolvedConstraints)
+  const constraintText = curveKind.kind === '4pl' ? savedConstraintText : ''
 
   const stdAutoQc = useMemo(() => {
     const inputs = stdLevels
@@ -251,9 +615,12 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
         replicates: l.replicates.map((r) => ({ wellId: r.wellId, y: r.y })),
       }))
 
-    const curveKind = curveModel === '4pl' ? ({ kind: '4pl' } as const) : ({ kind: 'poly', degree: curveDegree } as const)
-    return suggestStandardCurveExclusions(inputs, curveKind)
-  }, [curveDegree, curveModel, stdLevels])
+    return suggestStandardCurveExclusions(inputs, curveKind, {
+      weighting: curveWeighting,
+      acceptance: useAcceptanceInAutoQc ? quantCriteria : undefined,
+      constraints: resolvedConstraints,
+    })
+  }, [curveKind, curveWeighting, quantCriteria, resolvedConstraints, stdLevels, useAcceptanceInAutoQc])
 
   const hasSuggestedExclusions = stdAutoQc.actions.length > 0 && stdAutoQc.suggested !== null
   const canToggleSuggested = hasSuggestedExclusions || useSuggestedStdExclusions
@@ -263,42 +630,88 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
     const excluded = applySuggested ? new Set(stdAutoQc.excludedWellIds) : new Set<string>()
     const dropped = applySuggested ? new Set(stdAutoQc.droppedLevels) : new Set<string>()
 
-    const out: Array<{ level: string; conc: number; n: number; mean: number }> = []
+    const out: Array<{ level: string; conc: number; n: number; mean: number; variance: number | null; signals: number[] }> = []
     for (const l of stdLevels) {
       if (l.conc === null || !Number.isFinite(l.conc)) continue
       if (dropped.has(l.level)) continue
       const reps = l.replicates.filter((r) => !excluded.has(r.wellId))
       if (!reps.length) continue
       const mean = reps.reduce((acc, v) => acc + v.y, 0) / reps.length
-      out.push({ level: l.level, conc: l.conc, n: reps.length, mean })
+      const signals = reps.map((r) => r.y)
+      out.push({ level: l.level, conc: l.conc, n: reps.length, mean, variance: sampleVariance(signals), signals })
     }
     return out
   }, [applySuggested, stdAutoQc.droppedLevels, stdAutoQc.excludedWellIds, stdLevels])
 
-  const curveFit: CurveFit | null = useMemo(() => {
-    const usable = stdFitPoints
-      .map((p) => ({ x: p.conc, y: p.mean }))
-      .filter((p) => Number.isFinite(p.x) && Number.isFinite(p.y))
-
-    if (curveModel === '4pl') {
-      const clean = usable.filter((p) => p.x > 0)
-      if (clean.length < 4) return null
-      const fit = fit4pl(
-        clean.map((p) => p.x),
-        clean.map((p) => p.y),
-        { restarts: 3 }
-      )
-      return fit ? { kind: '4pl', fit } : null
-    }
+  const curveFit: FittedCurve | null = useMemo(
+    () =>
+      fitStandardCurve(
+        curveKind,
+        stdFitPoints.map((p) => ({ x: p.conc, y: p.mean, variance: p.variance })),
+        curveWeighting,
+        resolvedConstraints
+      ),
+    [curveKind, curveWeighting, resolvedConstraints, stdFitPoints]
+  )
 
-    if (usable.length < curveDegree + 1) return null
-    const fit = fitPolynomial(
-      usable.map((p) => p.x),
-      usable.map((p) => p.y),
-      curveDegree
-    )
-    return fit ? { kind: 'poly', fit } : null
-  }, [curveDegree, curveModel, stdFitPoints])
+  const residualDiagnostics = useMemo(
+    () =>
+      curveFit
+        ? curveDiagnostics(
+            curveFit,
+            stdFitPoints.map((p) => ({ level: p.level, conc: p.conc, signals: p.signals, variance: p.variance })),
+            curveWeighting,
+            { outlierZ: RESIDUAL_LIMIT, constraints: resolvedConstraints }
+          )
+        : null,
+    [curveFit, curveWeighting, resolvedConstraints, stdFitPoints]
+  )
+
+  const modelComparison = useMemo(
+    () =>
+      compareCurveModels(
+        stdFitPoints.map((p) => ({ x: p.conc, y: p.mean, variance: p.variance })),
+        curveWeighting,
+        { constraints: resolvedConstraints, b0 }
+      ),
+    [b0, curveWeighting, resolvedConstraints, stdFitPoints]
+  )
+
+  // A manual model change drops the stored comparison rationale, which no longer describes the choice.
+  const chooseCurveModel = (model: CurveModel, degree: 2 | 3) => {
+    onChangeCurveModel(model)
+    onChangeCurveDegree(degree)
+    onChangeModelSelection(null)
+  }
+
+  const applyRecommendedModel = () => {
+    const recommended = modelComparison.recommended
+    if (!recommended) return
+    onChangeCurveModel(recommended.model)
+    if (recommended.model === 'poly') onChangeCurveDegree(recommended.degree)
+    onChangeModelSelection({ ...recommended, rationale: modelComparison.rationale })
+  }
+
+  const curveFns: CurveFns | null = useMemo(() => {
+    if (!curveFit) return null
+    const xVals = stdFitPoints.map((p) => p.conc).filter((v) => Number.isFinite(v) && v > 0)
+    if (!xVals.length) return null
+    return curveFnsFor(curveFit, Math.min(...xVals), Math.max(...xVals))
+  }, [curveFit, stdFitPoints])
+
+  const limits = useMemo(
+    () =>
+      curveFns
+        ? quantLimits(
+            // A competitive assay's LOD sits 3 SD below B0 rather than above the blanks.
+            competitive ? zeroSignals : blankSignals,
+            stdFitPoints.map((p) => ({ level: p.level, conc: p.conc, signals: p.signals })),
+            curveFns,
+            quantCriteria
+          )
+        : null,
+    [blankSignals, competitive, curveFns, quantCriteria, stdFitPoints, zeroSignals]
+  )
 
   const sampleQuant = useMemo(() => {
     if (!curveFit) return []
@@ -306,30 +719,67 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
     if (!xVals.length) return []
     const minX = Math.min(...xVals)
     const maxX = Math.max(...xVals)
+    // Weighted fits: the interval uses the residual variance at the weight of the sample's own response.
+    const weightPoints = curveFitPoints(
+      curveKind,
+      stdFitPoints.map((p) => ({ x: p.conc, y: p.mean, variance: p.variance }))
+    )
 
     const out: Array<{
-      wellId: WellId96
+      wellId: WellId
       animalId: string
       group: string
       dilutionFactor: number
       netBlank: number | null
+      // Signal as % of B0, for competitive assays.
+      bb0: number | null
       conc: number | null
       concAdjusted: number | null
+      // 95% inverse-prediction interval, before and after the dilution factor.
+      ci: ConcInterval | null
+      ciAdjusted: ConcInterval | null
+      range: RangeLabel | null
+      // Concentration × dilution to report: in-range values, or the chosen out-of-range substitute.
+      reportedAdjusted: number | null
+      flag: SampleFlag
     }> = []
 
-    for (const wellId of plate96WellIds) {
+    for (const wellId of format.wellIds) {
       const w = wells[wellId]
-      if (w.type !== 'Sample' || !w.keep) continue
-      const net = parsed.wells[wellId]?.net ?? null
+      if (w?.type !== 'Sample' || !w.keep) continue
+      const dilution = w.dilutionFactor && Number.isFinite(w.dilutionFactor) && w.dilutionFactor > 0 ? w.dilutionFactor : 1
+      const status = readings[wellId]?.status ?? 'ok'
+      if (status === 'saturated' || status === 'belowDetection') {
+        // Off-scale reads cannot be inverted; report them as censored instead of dropping them.
+        const range = offScaleRange(status, assayDirection)
+        const reported = limits ? reportedConc(range, null, limits, outOfRangeSubstitute) : null
+        out.push({
+          wellId,
+          animalId: w.animalId ?? '',
+          group: w.group ?? '',
+          dilutionFactor: dilution,
+          netBlank: null,
+          bb0: null,
+          conc: null,
+          concAdjusted: null,
+          ci: null,
+          ciAdjusted: null,
+          range: limits ? range : null,
+          reportedAdjusted: reported === null ? null : reported * dilution,
+          flag: range === '>ULOQ' ? '>ULOQ' : '<LOD',
+        })
+        continue
+      }
+      const net = readings[wellId]?.net ?? null
       if (net === null || !Number.isFinite(net)) continue
 
       const netBlank = net - blankOffset
-      const conc =
-        curveFit.kind === 'poly'
-          ? invertPolyBySearch(curveFit.fit.coeff, netBlank, minX, maxX)
-          : invert4pl(curveFit.fit.params, netBlank, minX, maxX)
-      const dilution = w.dilutionFactor && Number.isFinite(w.dilutionFactor) && w.dilutionFactor > 0 ? w.dilutionFactor : 1
+      const conc = invertCurve(curveFit, netBlank, minX, maxX)
       const concAdjusted = conc === null ? null : conc * dilution
+      const weight = readingWeight(fitWeighting(curveKind, curveWeighting), weightPoints, conc ?? 0, netBlank)
+      const ci = conc === null ? null : concInterval(curveFit, conc, weight)
+      const range = limits && curveFns ? rangeLabel(netBlank, limits, curveFns) : null
+      const reported = limits ? reportedConc(range, conc, limits, outOfRangeSubstitute) : conc
 
       out.push({
         wellId,
@@ -337,36 +787,182 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
         group: w.group ?? '',
         dilutionFactor: dilution,
         netBlank,
+        bb0: percentBB0(netBlank, b0),
         conc,
         concAdjusted,
+        ci,
+        ciAdjusted: ci ? { lower: ci.lower * dilution, upper: ci.upper * dilution } : null,
+        range,
+        reportedAdjusted: reported === null ? null : reported * dilution,
+        flag: '',
       })
     }
 
     return out
-  }, [curveFit, stdFitPoints, wells, parsed.wells, blankOffset])
+  }, [
+    assayDirection,
+    b0,
+    curveFit,
+    curveFns,
+    curveKind,
+    curveWeighting,
+    limits,
+    outOfRangeSubstitute,
+    stdFitPoints,
+    format,
+    wells,
+    readings,
+    blankOffset,
+  ])
+
+  const parallelismResults = useMemo(
+    () =>
+      parallelism(
+        sampleQuant.map((r) => ({
+          animalId: r.animalId,
+          group: r.group,
+          dilutionFactor: r.dilutionFactor,
+          conc: r.conc,
+          inRange: r.conc !== null && (r.range === null || r.range === 'in range'),
+        })),
+        parallelismCriteria
+      ),
+    [parallelismCriteria, sampleQuant]
+  )
+
+  // Mid-curve concentration for the best-dilution rule: the geometric centre of LLOQ–ULOQ, or of the standards.
+  const midConc = useMemo(() => {
+    if (limits?.lloq && limits.uloq) return Math.sqrt(limits.lloq * limits.uloq)
+    const xVals = stdFitPoints.map((p) => p.conc).filter((v) => Number.isFinite(v) && v > 0)
+    return xVals.length ? Math.sqrt(Math.min(...xVals) * Math.max(...xVals)) : null
+  }, [limits, stdFitPoints])
 
   const sampleSummary = useMemo(() => {
-    type Agg = { key: string; animalId: string; group: string; values: number[] }
-    const map = new Map<string, Agg>()
+    // A non-parallel sample is reported from its highest in-range dilution only, whatever the mode.
+    const reportDilution = new Map(
+      parallelismResults.filter((p) => p.parallel === false).map((p) => [`${p.animalId}||${p.group}`, p.reportDilution])
+    )
+    const byAnimal = new Map<string, typeof sampleQuant>()
     sampleQuant.forEach((row) => {
-      if (row.concAdjusted === null || !Number.isFinite(row.concAdjusted)) return
       const key = `${row.animalId}||${row.group}`
-      const cur = map.get(key) ?? { key, animalId: row.animalId, group: row.group, values: [] }
-      cur.values.push(row.concAdjusted)
-      map.set(key, cur)
+      byAnimal.set(key, [...(byAnimal.get(key) ?? []), row])
     })
-    const out = Array.from(map.values()).map((a) => {
-      const n = a.values.length
-      const mean = n ? a.values.reduce((acc, v) => acc + v, 0) / n : null
+    const out = Array.from(byAnimal.entries()).map(([key, rows]) => {
+      const flags = new Set<SampleFlag | 'non-parallel'>(rows.map((r) => r.flag).filter(Boolean))
+      const forced = reportDilution.get(key)
+      if (forced !== undefined) flags.add('non-parallel')
+      const candidates = forced === undefined ? rows : rows.filter((r) => r.dilutionFactor === forced)
+      const reportable = candidates.filter((r) => r.reportedAdjusted !== null && Number.isFinite(r.reportedAdjusted))
+      let used = reportable
+      let basis = forced === undefined ? 'All dilutions' : `1:${forced}, non-parallel`
+      if (dilutionSelection === 'best' && forced === undefined) {
+        const choice = selectBestDilution(candidates, midConc)
+        used = reportable.filter((r) => choice.wellIds.includes(r.wellId))
+        basis = choice.reason
+      }
+      const values = used.map((r) => r.reportedAdjusted as number)
+      const n = values.length
+      const mean = n ? values.reduce((acc, v) => acc + v, 0) / n : null
       const sd =
         n > 1
-          ? Math.sqrt(a.values.reduce((acc, v) => acc + (v - (mean ?? 0)) ** 2, 0) / (n - 1))
+          ? Math.sqrt(values.reduce((acc, v) => acc + (v - (mean ?? 0)) ** 2, 0) / (n - 1))
           : null
-      return { animalId: a.animalId, group: a.group, n, mean, sd }
+      return {
+        animalId: rows[0].animalId,
+        group: rows[0].group,
+        n,
+        mean,
+        sd,
+        flags: Array.from(flags).join(' '),
+        wellIds: used.map((r) => r.wellId),
+        basis,
+      }
     })
     out.sort((a, b) => a.animalId.localeCompare(b.animalId))
     return out
-  }, [sampleQuant])
+  }, [dilutionSelection, midConc, parallelismResults, sampleQuant])
+
+  // Titer mode reads every kept sample well as part of its animal's dilution series.
+  const cutoff = useMemo(() => titerCutoff(titerSettings, blankSignals), [blankSignals, titerSettings])
+  const titers = useMemo(() => {
+    if (quantMode !== 'titer' || cutoff === null) return []
+    const series: TiterWell[] = []
+    for (const wellId of format.wellIds) {
+      const w = wells[wellId]
+      if (w?.type !== 'Sample' || !w.keep) continue
+      const reading = readings[wellId]
+      const status = reading?.status ?? 'ok'
+      if (status === 'invalid') continue
+      const net = reading?.net ?? null
+      series.push({
+        animalId: w.animalId ?? '',
+        group: w.group ?? '',
+        dilutionFactor: w.dilutionFactor ?? 1,
+        signal: status === 'ok' && net !== null && Number.isFinite(net) ? net - blankOffset : null,
+        status,
+      })
+    }
+    return endpointTiters(series, cutoff, titerSettings.method)
+  }, [blankOffset, cutoff, format, quantMode, readings, titerSettings.method, wells])
+
+  // Qualitative mode: control summaries, the cutoff they define, run validity and a call per sample well.
+  // Every laid-out control well counts, so a control that could not be read still fails its check.
+  const controlSummaries = useMemo(() => {
+    const byType = new Map<ControlWellType, ControlReading[]>()
+    for (const wellId of format.wellIds) {
+      const w = wells[wellId]
+      if (!w || !isControlWell(w.type) || !w.keep) continue
+      const signal = fitSignal(readings[wellId])
+      const reading: ControlReading = {
+        signal: signal !== null && Number.isFinite(signal) ? signal - blankOffset : null,
+        status: readings[wellId]?.status ?? 'ok',
+      }
+      byType.set(w.type, [...(byType.get(w.type) ?? []), reading])
+    }
+    return (Object.keys(CONTROL_WELL_LABELS) as ControlWellType[])
+      .filter((type) => byType.has(type))
+      .map((type) => summarizeControl(type, byType.get(type) ?? []))
+  }, [blankOffset, fitSignal, format, readings, wells])
+  const qualCutoff = cutoffSignal(qualitativeSettings, controlSummaries)
+  const validity = useMemo(
+    () => runValidity(qualitativeSettings, controlSummaries, qualCutoff),
+    [controlSummaries, qualCutoff, qualitativeSettings]
+  )
+  const qualitativeCalls = useMemo(() => {
+    if (quantMode !== 'qualitative' || qualCutoff === null) return []
+    const out: Array<{
+      wellId: WellId
+      animalId: string
+      group: string
+      netBlank: number | null
+      ratio: number | null
+      call: QualitativeCall | null
+    }> = []
+    for (const wellId of format.wellIds) {
+      const w = wells[wellId]
+      if (w?.type !== 'Sample' || !w.keep) continue
+      const reading = readings[wellId]
+      const status = reading?.status ?? 'ok'
+      if (status === 'invalid') continue
+      const net = reading?.net ?? null
+      const netBlank = status === 'ok' && net !== null && Number.isFinite(net) ? net - blankOffset : null
+      out.push({
+        wellId,
+        animalId: w.animalId ?? '',
+        group: w.group ?? '',
+        netBlank,
+        ...classifySample(netBlank, status, qualCutoff, qualitativeSettings),
+      })
+    }
+    return out
+  }, [blankOffset, format, qualCutoff, qualitativeSettings, quantMode, readings, wells])
+  const callCounts = useMemo(() => {
+    const counts: Record<QualitativeCall, number> = { Positive: 0, Equivocal: 0, Negative: 0 }
+    qualitativeCalls.forEach((r) => {
+      if (r.call) counts[r.call] += 1
+    })
+    return counts
+  }, [qualitativeCalls])
 
   const fillStdSerialDilution = () => {
     const levels = standardLevels
@@ -381,34 +977,59 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
   }
 
   const copyNetTsv = async () => {
-    const headers = ['Idx', 'Well', '450', '570', '450-570', '450-570(blankMedian)']
-    const lines = [headers.join('\t')]
+    const headers = [
+      'Idx',
+      'Well',
+      primaryLabel,
+      ...(referenceLabel === null ? [] : [referenceLabel]),
+      useRate ? 'Vmax(OD/min)' : `Net(${netHeader})`,
+      useRate ? 'Vmax(OD/min)(blankMedian)' : `Net(${netHeader})(blankMedian)`,
+      'Status',
+    ]
+    const lines = [...exportHeader(), headers.join('\t')]
 
     const blankForExport = blankMedian ?? 0
-    for (let i = 0; i < plate96WellIdsColumnMajor.length; i += 1) {
-      const wellId = plate96WellIdsColumnMajor[i]
-      const reading = parsed.wells[wellId]
+    for (let i = 0; i < format.wellIdsColumnMajor.length; i += 1) {
+      const wellId = format.wellIdsColumnMajor[i]
+      const reading = readings[wellId]
       const net = reading?.net ?? null
       const corrected = net === null ? null : net - blankForExport
       lines.push(
         [
           String(i + 1),
           wellId,
-          fmt(reading?.a450 ?? null),
-          fmt(reading?.a570 ?? null),
+          fmt(reading?.primary ?? null),
+          ...(referenceLabel === null ? [] : [fmt(reading?.reference ?? null)]),
           fmt(net),
           fmt(corrected),
+          reading ? READING_STATUS_LABELS[reading.status] : '',
         ].join('\t')
       )
     }
 
     await navigator.clipboard.writeText(lines.join('\n'))
-    alert('Net absorbance copied (TSV).')
+    alert(useRate ? 'Per-well rates copied (TSV).' : 'Net absorbance copied (TSV).')
   }
 
   const copyQuantTsv = async () => {
-    const headers = ['Well', 'AnimalId', 'Group', 'DilutionFactor', 'Net(blank)', 'Conc', 'ConcAdjusted']
-    const lines = [headers.join('\t')]
+    const headers = [
+      'Well',
+      'AnimalId',
+      'Group',
+      'DilutionFactor',
+      'Net(blank)',
+      ...(competitive ? ['PctB/B0'] : []),
+      'Conc',
+      'ConcLow95',
+      'ConcHigh95',
+      'ConcAdjusted',
+      'ConcAdjustedLow95',
+      'ConcAdjustedHigh95',
+      'Range',
+      'ReportedAdjusted',
+      'Flag',
+    ]
+    const lines = [...exportHeader(), headers.join('\t')]
     sampleQuant.forEach((r) => {
       lines.push(
         [
@@ -417,8 +1038,16 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
           r.group,
           String(r.dilutionFactor),
           r.netBlank === null ? '' : r.netBlank.toFixed(4),
+          ...(competitive ? [r.bb0 === null ? '' : r.bb0.toFixed(2)] : []),
           r.conc === null ? '' : r.conc.toFixed(6),
+          r.ci === null ? '' : r.ci.lower.toFixed(6),
+          r.ci === null ? '' : r.ci.upper.toFixed(6),
           r.concAdjusted === null ? '' : r.concAdjusted.toFixed(6),
+          r.ciAdjusted === null ? '' : r.ciAdjusted.lower.toFixed(6),
+          r.ciAdjusted === null ? '' : r.ciAdjusted.upper.toFixed(6),
+          r.range ?? '',
+          r.reportedAdjusted === null ? '' : r.reportedAdjusted.toFixed(6),
+          r.flag,
         ].join('\t')
       )
     })
@@ -426,6 +1055,56 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
     alert('Quantified samples copied (TSV).')
   }
 
+  const copyTiterTsv = async () => {
+    const headers = ['AnimalId', 'Group', 'Dilutions', 'Titer', 'Method', 'Note']
+    const lines = [
+      ...exportHeader([`Titer cutoff\t${cutoff === null ? '' : cutoff.toFixed(4)} (${TITER_CUTOFF_LABELS[titerSettings.cutoff]})`]),
+      headers.join('\t'),
+    ]
+    titers.forEach((t) => {
+      lines.push(
+        [
+          t.animalId,
+          t.group,
+          t.points.map((p) => p.dilution).join(','),
+          formatTiter(t),
+          t.method === null ? '' : TITER_METHOD_LABELS[t.method],
+          t.note,
+        ].join('\t')
+      )
+    })
+    await navigator.clipboard.writeText(lines.join('\n'))
+    alert('Endpoint titers copied (TSV).')
+  }
+
+  const copyQualitativeTsv = async () => {
+    const headers = ['Well', 'AnimalId', 'Group', 'Net(blank)', 'S/CO', 'Call']
+    const failed = validity.checks.filter((c) => !c.pass).map((c) => c.label)
+    const lines = [
+      ...exportHeader([
+        `Cutoff formula\t${formatCutoffFormula(qualitativeSettings)}`,
+        `Cutoff\t${qualCutoff === null ? '' : qualCutoff.toFixed(4)}`,
+        `Equivocal S/CO\t${qualitativeSettings.equivocalLow}–${qualitativeSettings.equivocalHigh}`,
+        `Run validity\t${validity.valid ? 'Valid' : `Invalid (${failed.join('; ')})`}`,
+      ]),
+      headers.join('\t'),
+    ]
+    qualitativeCalls.forEach((r) => {
+      lines.push(
+        [
+          r.wellId,
+          r.animalId,
+          r.group,
+          r.netBlank === null ? '' : r.netBlank.toFixed(4),
+          r.ratio === null ? '' : r.ratio.toFixed(3),
+          r.call ?? '',
+        ].join('\t')
+      )
+    })
+    await navigator.clipboard.writeText(lines.join('\n'))
+    alert('Qualitative calls copied (TSV).')
+  }
+
   return (
     <div data-testid="analysis-tab">
       <div className="shell">
@@ -433,18 +1112,149 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
           <div className="section-head">
             <div>
               <p className="kicker">Step 1 · Paste reader output</p>
-              <h2>450 + 570 plate blocks</h2>
+              <h2>{referenceLabel === null ? `${primaryLabel} plate block` : `${primaryLabel} + ${referenceLabel} plate blocks`}</h2>
               <p className="muted">
-                Paste the plate output from the ELISA reader (450 and 570). The app computes net absorbance = 450 − 570 and then
+                Paste the plate output from the ELISA reader. Gen5, SoftMax Pro, Magellan and MARS exports are recognised
+                automatically. The app computes net absorbance ={' '}
+                {referenceLabel === null ? `${primaryLabel} (single wavelength)` : `${primaryLabel} − ${referenceLabel}`} and then
                 optionally subtracts the blank median.
               </p>
             </div>
             <div className="row">
-              <span className="badge">Parsed wells: {Object.keys(parsed.wells).length}</span>
-              {parsed.temperatureC !== null ? <span className="badge">Temp: {parsed.temperatureC}°C</span> : null}
+              <span className="badge" data-testid="reader-parser-badge">
+                Parser: {readerParserLabel(parsed.parser)}
+              </span>
+              {parsed.plates.length > 1 ? <span className="badge">Plate blocks: {parsed.plates.length}</span> : null}
+              <span className="badge">Parsed wells: {Object.keys(plateWells).length}</span>
             </div>
           </div>
 
+          {metadata && metadataEntries(metadata).length ? (
+            <div className="row" data-testid="reader-metadata">
+              {metadataEntries(metadata).map(([label, value]) => (
+                <span key={label} className={label === 'Temperature' && tempWarning ? 'badge warn' : 'badge'}>
+                  {label}: {value}
+                </span>
+              ))}
+            </div>
+          ) : null}
+
+          <div className="controls">
+            <label className="control">
+              <span>Reader format</span>
+              <select
+                value={readerParser}
+                onChange={(e) => onChangeReaderParser(e.target.value as ReaderParserId | 'auto')}
+                data-testid="reader-parser-select"
+              >
+                <option value="auto">Auto-detect</option>
+                {READER_PARSERS.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="control">
+              <span>Wavelength preset</span>
+              <select
+                value={WAVELENGTH_PRESETS.findIndex(
+                  (p) => p.wavelengths.primary === wavelengths.primary && p.wavelengths.reference === wavelengths.reference
+                )}
+                onChange={(e) => {
+                  const preset = WAVELENGTH_PRESETS[Number(e.target.value)]
+                  if (preset) onChangeWavelengths(preset.wavelengths)
+                }}
+                data-testid="wavelength-preset-select"
+              >
+                <option value={-1}>Custom</option>
+                {WAVELENGTH_PRESETS.map((p, idx) => (
+                  <option key={p.label} value={idx}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="control">
+              <span>Primary (nm)</span>
+              <input
+                type="number"
+                value={wavelengths.primary}
+                min={200}
+                max={1000}
+                step={1}
+                onChange={(e) => {
+                  const v = Number(e.target.value)
+                  if (Number.isFinite(v) && v > 0) onChangeWavelengths({ ...wavelengths, primary: v })
+                }}
+                data-testid="primary-wavelength-input"
+              />
+            </label>
+            <label className="control">
+              <span>Reference (nm, blank = none)</span>
+              <input
+                type="number"
+                value={wavelengths.reference ?? ''}
+                min={200}
+                max={1000}
+                step={1}
+                onChange={(e) => {
+                  const raw = e.target.value.trim()
+                  const v = Number(raw)
+                  onChangeWavelengths({ ...wavelengths, reference: raw && Number.isFinite(v) && v > 0 ? v : null })
+                }}
+                data-testid="reference-wavelength-input"
+              />
+            </label>
+            <label className="control">
+              <span>Accepted read temperature (°C)</span>
+              <div className="button-row">
+                <input
+                  type="number"
+                  value={temperatureRange.minC}
+                  step={0.5}
+                  onChange={(e) => onChangeTemperatureRange({ ...temperatureRange, minC: Number(e.target.value) })}
+                  aria-label="Minimum read temperature"
+                  data-testid="temperature-min-input"
+                />
+                <input
+                  type="number"
+                  value={temperatureRange.maxC}
+                  step={0.5}
+                  onChange={(e) => onChangeTemperatureRange({ ...temperatureRange, maxC: Number(e.target.value) })}
+                  aria-label="Maximum read temperature"
+                  data-testid="temperature-max-input"
+                />
+              </div>
+            </label>
+            <TextFormatControls
+              value={readerTextFormat}
+              onChange={onChangeReaderTextFormat}
+              detected={parsed}
+              testIdPrefix="reader"
+            />
+            <label className="control">
+              <span>Show source diagnostics</span>
+              <input
+                type="checkbox"
+                checked={showSource}
+                onChange={(e) => setShowSource(e.target.checked)}
+                data-testid="reader-source-toggle"
+              />
+            </label>
+          </div>
+
+          {showSource && readerText.trim() ? (
+            <ReaderSourceView
+              text={readerText}
+              separator={parsed.separator}
+              diagnostics={diagnostics}
+              issues={parsed.issues}
+              activeWell={hoverWell}
+              onHoverWell={setHoverWell}
+            />
+          ) : null}
+
           <textarea
             className="textarea large"
             value={readerText}
@@ -453,12 +1263,147 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
             data-testid="reader-textarea"
           />
 
-          {parsed.warnings.length > 0 && (
+          {parsed.plates.length > 1 || (parsed.plates.length === 1 && !readerPlate) ? (
+            <div className="panel" data-testid="reader-plates-panel">
+              <h3>Plate blocks in this file</h3>
+              <div className="muted-small">
+                The reader file holds {parsed.plates.length} plate block{parsed.plates.length === 1 ? '' : 's'}. Choose which one is
+                analysed against the <strong>{plateName}</strong> layout; add plates in the run bar above to analyse the others.
+              </div>
+              <div className="controls">
+                <label className="control">
+                  <span>Reader block for {plateName}</span>
+                  <select
+                    value={readerPlate ? readerBlock : ''}
+                    onChange={(e) => onChangeReaderBlock(Number(e.target.value))}
+                    data-testid="reader-block-select"
+                  >
+                    {readerPlate ? null : <option value="">Not assigned</option>}
+                    {parsed.plates.map((p, idx) => (
+                      <option key={idx} value={idx}>
+                        {idx + 1}. {p.plateId}
+                        {p.metadata.readTime ? ` · ${p.metadata.readTime}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <div className="table-wrap">
+                <div className="table-scroll">
+                  <table className="data">
+                    <thead>
+                      <tr>
+                        <th className="num">#</th>
+                        <th>Plate ID</th>
+                        <th>Barcode</th>
+                        <th>Read time</th>
+                        <th>Parser</th>
+                        <th className="num">Wells</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {parsed.plates.map((p, idx) => (
+                        <tr key={idx} className={idx === readerBlock ? 'active' : undefined}>
+                          <td className="num">{idx + 1}</td>
+                          <td>{p.plateId}</td>
+                          <td>{p.metadata.barcode ?? ''}</td>
+                          <td>{p.metadata.readTime ?? ''}</td>
+                          <td>{readerParserLabel(p.parser)}</td>
+                          <td className="num">{Object.keys(p.wells).length}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          ) : null}
+
+          {kinetic && kineticWindow ? (
+            <div className="panel" data-testid="kinetic-panel">
+              <h3>Kinetic read</h3>
+              <div className="muted-small">
+                {kinetic.timesSec.length} reads over {((kinetic.timesSec[kinetic.timesSec.length - 1] - kinetic.timesSec[0]) / 60).toFixed(1)}{' '}
+                min. Vmax is the least-squares slope of each trace inside the fit window; pick a window where the traces are
+                linear.
+              </div>
+              <div className="controls">
+                <label className="control">
+                  <span>Signal</span>
+                  <select
+                    value={signalMode}
+                    onChange={(e) => setSignalMode(e.target.value === 'endpoint' ? 'endpoint' : 'rate')}
+                    data-testid="kinetic-signal-select"
+                  >
+                    <option value="rate">Vmax (OD/min)</option>
+                    <option value="endpoint">Endpoint (last read)</option>
+                  </select>
+                </label>
+                <label className="control">
+                  <span>Window start (s)</span>
+                  <input
+                    type="number"
+                    value={kineticWindow.startSec}
+                    min={0}
+                    step={1}
+                    onChange={(e) => setKineticStart(e.target.value === '' ? null : Number(e.target.value))}
+                    data-testid="kinetic-start-input"
+                  />
+                </label>
+                <label className="control">
+                  <span>Window end (s)</span>
+                  <input
+                    type="number"
+                    value={kineticWindow.endSec}
+                    min={0}
+                    step={1}
+                    onChange={(e) => setKineticEnd(e.target.value === '' ? null : Number(e.target.value))}
+                    data-testid="kinetic-end-input"
+                  />
+                </label>
+                <label className="control">
+                  <span>Trace well</span>
+                  <select
+                    value={shownTraceWell ?? ''}
+                    onChange={(e) => setTraceWell(e.target.value || null)}
+                    data-testid="kinetic-well-select"
+                  >
+                    {traceWellIds.map((wellId) => (
+                      <option key={wellId} value={wellId}>
+                        {wellId}
+                        {wells[wellId] && wells[wellId].type !== 'Empty' ? ` · ${wells[wellId].type}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {shownTraceWell ? (
+                <>
+                  <KineticTracePlot
+                    title={`${shownTraceWell} trace`}
+                    timesSec={kinetic.timesSec}
+                    values={kinetic.traces[shownTraceWell] ?? []}
+                    window={kineticWindow}
+                    rate={rates[shownTraceWell] ?? null}
+                  />
+                  <div className="muted-small" data-testid="kinetic-rate">
+                    {rates[shownTraceWell]
+                      ? `Vmax ${rates[shownTraceWell].slopePerMin.toFixed(4)} OD/min · R² ${
+                          Number.isFinite(rates[shownTraceWell].r2) ? rates[shownTraceWell].r2.toFixed(4) : 'NA'
+                        } · ${rates[shownTraceWell].n} reads in window`
+                      : 'Fewer than two reads inside the window.'}
+                  </div>
+                </>
+              ) : null}
+            </div>
+          ) : null}
+
+          {readerWarnings.length > 0 && (
             <div className="alert warn" role="alert">
               <div>
                 <strong>Parse warnings:</strong>
                 <ul className="bullets">
-                  {parsed.warnings.map((w) => (
+                  {readerWarnings.map((w) => (
                     <li key={w}>{w}</li>
                   ))}
                 </ul>
@@ -476,18 +1421,20 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
               <h2>Per-well table</h2>
               <p className="muted">
                 Toggle <strong>keep</strong> to remove standards/blanks/samples from downstream curve fitting. Outliers are flagged by
-                median delta within replicate groups.
+                median delta within replicate groups. Saturated, below-detection and invalid reads are flagged in the Status column
+                and left out of replicate groups.
               </p>
             </div>
             <div className="row">
               <span className="badge">Assigned: {counts.assigned}</span>
               <span className="badge">Kept: {counts.kept}</span>
               <span className="badge">Outliers: {counts.outliers}</span>
+              {counts.flagged ? <span className="badge">Flagged reads: {counts.flagged}</span> : null}
               <button
                 className="ghost"
                 type="button"
                 onClick={copyNetTsv}
-                disabled={!Object.keys(parsed.wells).length}
+                disabled={!Object.keys(plateWells).length}
                 data-testid="copy-net-tsv-btn"
               >
                 Copy net TSV
@@ -512,8 +1459,8 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
                 onChange={(e) => setTableOrder(e.target.value === 'rowMajor' ? 'rowMajor' : 'columnMajor')}
                 data-testid="table-order-select"
               >
-                <option value="columnMajor">Reader (A1..H1, A2..H2)</option>
-                <option value="rowMajor">Plate (A1..A12, B1..H12)</option>
+                <option value="columnMajor">Reader ({readerOrderHint(format)})</option>
+                <option value="rowMajor">Plate ({plateOrderHint(format)})</option>
               </select>
             </label>
             <label className="control">
@@ -539,7 +1486,7 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
             </label>
           </div>
 
-          {showOnlyAssigned && counts.assigned === 0 && Object.keys(parsed.wells).length > 0 ? (
+          {showOnlyAssigned && counts.assigned === 0 && Object.keys(plateWells).length > 0 ? (
             <div className="empty" role="note">
               <p className="muted">
                 No wells are assigned yet. Either uncheck <strong>Show only assigned wells</strong> or go back to{' '}
@@ -560,11 +1507,12 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
                     <th>Animal</th>
                     <th>Group/Std</th>
                     <th className="num">Dilution</th>
-                    <th className="num">450</th>
-                    <th className="num">570</th>
-                    <th className="num">Net</th>
+                    <th className="num">{primaryLabel}</th>
+                    {referenceLabel === null ? null : <th className="num">{referenceLabel}</th>}
+                    <th className="num">{signalHeader}</th>
                     <th className="num">Net(blank)</th>
                     <th className="num">Δ</th>
+                    <th>Status</th>
                     <th>Outlier</th>
                   </tr>
                 </thead>
@@ -572,7 +1520,12 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
                   {filteredRows.map((r) => {
                     const corrected = r.net === null ? null : r.net - blankOffset
                     return (
-                      <tr key={r.wellId}>
+                      <tr
+                        key={r.wellId}
+                        className={r.wellId === hoverWell ? 'active' : undefined}
+                        title={sourceTitle(r.wellId)}
+                        onMouseEnter={() => setHoverWell(r.wellId)}
+                      >
                         <td>
                           <input
                             type="checkbox"
@@ -581,17 +1534,20 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
                             aria-label={`Keep ${r.wellId}`}
                           />
                         </td>
-                        <td className="num">{toColumnMajorNumber96(r.wellId)}</td>
+                        <td className="num">{toColumnMajorNumber(format, r.wellId)}</td>
                         <td>{r.wellId}</td>
                         <td>{r.type}</td>
                         <td>{r.animalId}</td>
                         <td>{r.group}</td>
                         <td className="num">{r.dilutionFactor ?? ''}</td>
-                        <td className="num">{fmt(r.a450)}</td>
-                        <td className="num">{fmt(r.a570)}</td>
+                        <td className="num">{fmt(r.primary)}</td>
+                        {referenceLabel === null ? null : <td className="num">{fmt(r.reference)}</td>}
                         <td className="num">{fmt(r.net)}</td>
                         <td className="num">{fmt(corrected)}</td>
                         <td className="num">{r.delta === null ? '' : r.delta.toFixed(4)}</td>
+                        <td className={r.status === 'ok' ? undefined : `status-${r.status}`}>
+                          {r.status === 'ok' ? '' : READING_STATUS_LABELS[r.status]}
+                        </td>
                         <td>{r.outlier ? 'Yes' : ''}</td>
                       </tr>
                     )
@@ -616,32 +1572,180 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
 	            </div>
 	            <div className="row">
 	              <span className="badge">Std levels: {standardLevels.length}</span>
-	              <span className="badge">Model: {curveModel === '4pl' ? '4PL' : `Poly deg ${curveDegree}`}</span>
+	              <span className="badge">Model: {curveModelBadge(curveModel, curveDegree)}</span>
+	              {competitive || curveModel === 'logitLog' ? (
+	                <span className="badge" data-testid="b0-badge">
+	                  B0: {b0 === null ? 'no zero standard' : b0.toFixed(4)}
+	                </span>
+	              ) : null}
 	              {curveFit ? (
-	                <span className="badge">R²: {Number.isFinite(curveFit.fit.r2) ? curveFit.fit.r2.toFixed(4) : 'NA'}</span>
+	                <span className="badge">
+	                  {appliedWeighting === 'none' ? 'R²' : 'Weighted R²'}: {Number.isFinite(curveFit.fit.r2) ? curveFit.fit.r2.toFixed(4) : 'NA'}
+	                </span>
+	              ) : null}
+	              {curveFit && appliedWeighting !== 'none' ? (
+	                <span className="badge">Weighted SSE: {Number.isFinite(curveFit.fit.sse) ? curveFit.fit.sse.toPrecision(4) : 'NA'}</span>
 	              ) : null}
 	            </div>
 	          </div>
 
 	          <div className="controls">
+	            <label className="control">
+	              <span>Assay direction</span>
+	              <select
+	                value={assayDirection}
+	                onChange={(e) =>
+	                  onChangeAssayDirection(
+	                    (Object.keys(ASSAY_DIRECTION_LABELS) as AssayDirection[]).find((d) => d === e.target.value) ?? 'sandwich'
+	                  )
+	                }
+	                data-testid="assay-direction-select"
+	              >
+	                {(Object.keys(ASSAY_DIRECTION_LABELS) as AssayDirection[]).map((d) => (
+	                  <option key={d} value={d}>
+	                    {ASSAY_DIRECTION_LABELS[d]}
+	                  </option>
+	                ))}
+	              </select>
+	            </label>
+
 	            <label className="control">
 	              <span>Curve model</span>
-	              <select value={curveModel} onChange={(e) => setCurveModel(e.target.value === 'poly' ? 'poly' : '4pl')} data-testid="curve-model-select">
-	                <option value="4pl">4PL (logistic)</option>
-	                <option value="poly">Polynomial</option>
+	              <select
+	                value={curveModel}
+	                onChange={(e) => chooseCurveModel(CURVE_MODELS.find((m) => m === e.target.value) ?? '4pl', curveDegree)}
+	                data-testid="curve-model-select"
+	              >
+	                {CURVE_MODELS.map((m) => (
+	                  <option key={m} value={m}>
+	                    {CURVE_MODEL_LABELS[m]}
+	                  </option>
+	                ))}
+	              </select>
+	            </label>
+
+	            <label className="control">
+	              <span>Weighting</span>
+	              <select
+	                value={curveWeighting}
+	                onChange={(e) =>
+	                  onChangeCurveWeighting(
+	                    (Object.keys(CURVE_WEIGHTING_LABELS) as CurveWeighting[]).find((w) => w === e.target.value) ?? 'none'
+	                  )
+	                }
+	                data-testid="curve-weighting-select"
+	              >
+	                {(Object.keys(CURVE_WEIGHTING_LABELS) as CurveWeighting[]).map((w) => (
+	                  <option key={w} value={w}>
+	                    {CURVE_WEIGHTING_LABELS[w]}
+	                  </option>
+	                ))}
 	              </select>
 	            </label>
 	
 	            {curveModel === 'poly' ? (
 	              <label className="control">
 	                <span>Polynomial degree</span>
-	                <select value={curveDegree} onChange={(e) => setCurveDegree(Number(e.target.value) as 2 | 3)} data-testid="curve-degree-select">
+	                <select value={curveDegree} onChange={(e) => chooseCurveModel(curveModel, Number(e.target.value) as 2 | 3)} data-testid="curve-degree-select">
 	                  <option value={2}>2 (quadratic)</option>
 	                  <option value={3}>3 (cubic)</option>
 	                </select>
 	              </label>
 	            ) : null}
 
+	            {curveModel === '4pl' ? (
+	              <>
+	                <label className="control">
+	                  <span>Bottom (A)</span>
+	                  <select
+	                    value={curveConstraints.bottom}
+	                    onChange={(e) =>
+	                      onChangeCurveConstraints({
+	                        ...curveConstraints,
+	                        bottom: (Object.keys(BOTTOM_CONSTRAINT_LABELS) as BottomConstraint[]).find((b) => b === e.target.value) ?? 'free',
+	                      })
+	                    }
+	                    data-testid="constraint-bottom-select"
+	                  >
+	                    {(Object.keys(BOTTOM_CONSTRAINT_LABELS) as BottomConstraint[]).map((b) => (
+	                      <option key={b} value={b}>
+	                        {BOTTOM_CONSTRAINT_LABELS[b]}
+	                      </option>
+	                    ))}
+	                  </select>
+	                </label>
+	                <label className="control">
+	                  <span>Fixed top (D, blank = free)</span>
+	                  <input
+	                    type="number"
+	                    value={curveConstraints.top ?? ''}
+	                    step={0.1}
+	                    onChange={(e) => onChangeCurveConstraints({ ...curveConstraints, top: optionalNumber(e.target.value) })}
+	                    data-testid="constraint-top-input"
+	                  />
+	                </label>
+	                <label className="control">
+	                  <span>Hill slope min / max</span>
+	                  <span className="row">
+	                    <input
+	                      type="number"
+	                      value={curveConstraints.minSlope ?? ''}
+	                      min={0}
+	                      step={0.1}
+	                      onChange={(e) => onChangeCurveConstraints({ ...curveConstraints, minSlope: optionalNumber(e.target.value) })}
+	                      style={{ width: 80 }}
+	                      data-testid="constraint-min-slope-input"
+	                    />
+	                    <input
+	                      type="number"
+	                      value={curveConstraints.maxSlope ?? ''}
+	                      min={0}
+	                      step={0.1}
+	                      onChange={(e) => onChangeCurveConstraints({ ...curveConstraints, maxSlope: optionalNumber(e.target.value) })}
+	                      style={{ width: 80 }}
+	                      data-testid="constraint-max-slope-input"
+	                    />
+	                  </span>
+	                </label>
+	                <label className="control">
+	                  <span>EC50 min / max</span>
+	                  <span className="row">
+	                    <input
+	                      type="number"
+	                      value={curveConstraints.minEc50 ?? ''}
+	                      min={0}
+	                      onChange={(e) => onChangeCurveConstraints({ ...curveConstraints, minEc50: optionalNumber(e.target.value) })}
+	                      style={{ width: 80 }}
+	                      data-testid="constraint-min-ec50-input"
+	                    />
+	                    <input
+	                      type="number"
+	                      value={curveConstraints.maxEc50 ?? ''}
+	                      min={0}
+	                      onChange={(e) => onChangeCurveConstraints({ ...curveConstraints, maxEc50: optionalNumber(e.target.value) })}
+	                      style={{ width: 80 }}
+	                      data-testid="constraint-max-ec50-input"
+	                    />
+	                  </span>
+	                </label>
+	              </>
+	            ) : savedConstraintText ? (
+	              <div className="muted-small" data-testid="constraint-4pl-note">
+	                Curve constraints ({savedConstraintText}) apply to the 4PL only and are not used by this model; switch back to
+	                4PL to edit them.
+	              </div>
+	            ) : null}
+
+            <label className="control">
+              <span>Include saturated standards (at reported bound)</span>
+              <input
+                type="checkbox"
+                checked={includeSaturated}
+                onChange={(e) => setIncludeSaturated(e.target.checked)}
+                data-testid="include-saturated-toggle"
+              />
+            </label>
+
 	            <label className="control">
 	              <span>Serial top</span>
 	              <input type="number" value={serialTop} min={0} step={1} onChange={(e) => setSerialTop(Number(e.target.value || '0'))} data-testid="serial-top-input" />
@@ -704,8 +1808,10 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
                         <th>Std level</th>
                         <th className="num">Concentration</th>
                         <th className="num">N</th>
-                        <th className="num">Mean(abs)</th>
+                        <th className="num">{useRate ? 'Mean(rate)' : 'Mean(abs)'}</th>
                         <th className="num">SD</th>
+                        {competitive ? <th className="num">%B/B0</th> : null}
+                        <th className="num">Saturated</th>
                       </tr>
                     </thead>
                     <tbody>
@@ -726,6 +1832,8 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
                           <td className="num">{p.n}</td>
                           <td className="num">{p.mean === null ? '' : p.mean.toFixed(4)}</td>
                           <td className="num">{p.sd === null ? '' : p.sd.toFixed(4)}</td>
+                          {competitive ? <td className="num">{fmtPct(percentBB0(p.mean, b0))}</td> : null}
+                          <td className="num">{p.saturated || ''}</td>
                         </tr>
                       ))}
                     </tbody>
@@ -736,8 +1844,16 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
 	              <div className="panel">
 	                <h3>Fit preview</h3>
 	                <div className="muted-small">
-	                  Uses mean blank-corrected net absorbance per standard level. Requires at least{' '}
-	                  {curveModel === '4pl' ? 4 : curveDegree + 1} standard levels with both concentration and absorbance.
+	                  Uses mean blank-corrected {useRate ? 'kinetic rate (Vmax)' : 'net absorbance'} per standard level. Requires at least{' '}
+	                  {minLevelsFor(curveKind)} standard levels with both concentration and absorbance.
+	                  {curveKind.kind === 'spline'
+	                    ? ' Interpolating models pass through every level mean, so weighting does not apply.'
+	                    : curveWeighting !== 'none' && appliedWeighting === 'none'
+	                      ? ' Log-log and logit-log fits are unweighted: the transform already evens out a proportional spread.'
+	                      : curveWeighting !== 'none'
+	                      ? ` Fitted with ${CURVE_WEIGHTING_LABELS[curveWeighting]} weighting; Auto-QC scores use the same weights.`
+	                      : ''}
+	                  {constraintText ? ` Constraints: ${constraintText}; Auto-QC refits honour them.` : ''}
 	                </div>
                   <div style={{ height: 12 }} />
 	                  <div className="helper" data-testid="std-autoqc">
@@ -813,26 +1929,90 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
 	                {curveFit ? (
 	                  <>
 	                    <CurvePlot
-	                      title={curveFit.kind === 'poly' ? `Polynomial fit (deg ${curveFit.fit.degree})` : '4PL fit (log scale)'}
+	                      title={fitTitle(curveFit)}
 	                      points={stdFitPoints.map((p) => ({ x: p.conc, y: p.mean }))}
-	                      model={
-	                        curveFit.kind === 'poly'
-	                          ? { kind: 'poly', coeff: curveFit.fit.coeff }
-	                          : { kind: '4pl', params: curveFit.fit.params }
-	                      }
-	                      xScale={curveFit.kind === '4pl' ? 'log10' : 'linear'}
+	                      model={curveFit}
+	                      xScale={curveUsesLogX(curveFit) ? 'log10' : 'linear'}
+	                      yLabel={useRate ? 'Vmax (OD/min)' : 'Absorbance'}
 	                    />
+	                    {residualDiagnostics && residualDiagnostics.residuals.length ? (
+	                      <div data-testid="residual-diagnostics">
+	                        <div style={{ height: 12 }} />
+	                        <div className="controls">
+	                          <label className="control">
+	                            <span>Residuals</span>
+	                            <select
+	                              value={residualMode}
+	                              onChange={(e) => setResidualMode(e.target.value === 'raw' ? 'raw' : 'standardized')}
+	                              data-testid="residual-mode-select"
+	                            >
+	                              <option value="standardized">Standardised</option>
+	                              <option value="raw">Raw</option>
+	                            </select>
+	                          </label>
+	                        </div>
+	                        <ResidualPlot
+	                          title={`${residualMode === 'raw' ? 'Raw' : 'Standardised'} residuals per replicate`}
+	                          residuals={residualDiagnostics.residuals}
+	                          mode={residualMode}
+	                          suspectLevels={residualDiagnostics.suspectLevels}
+	                          limit={RESIDUAL_LIMIT}
+	                          xScale={curveUsesLogX(curveFit) ? 'log10' : 'linear'}
+	                        />
+	                        <div className="muted-small" style={{ marginTop: 6 }} data-testid="lack-of-fit">
+	                          {residualDiagnostics.lackOfFit
+	                            ? `Lack of fit: F(${residualDiagnostics.lackOfFit.dfLackOfFit}, ${residualDiagnostics.lackOfFit.dfPureError}) = ${residualDiagnostics.lackOfFit.f.toFixed(2)}, p = ${residualDiagnostics.lackOfFit.p.toFixed(3)} (pure error from replicates).`
+	                            : 'Lack-of-fit test needs replicate standards and more levels than model parameters.'}{' '}
+	                          Filled points are outside ±{RESIDUAL_LIMIT} standardised units or belong to a suspect level.
+	                        </div>
+	                        {residualDiagnostics.warnings.length ? (
+	                          <div className="alert warn" role="alert" style={{ marginTop: 8 }}>
+	                            <ul className="bullets">
+	                              {residualDiagnostics.warnings.map((w) => (
+	                                <li key={w}>{w}</li>
+	                              ))}
+	                            </ul>
+	                          </div>
+	                        ) : null}
+	                      </div>
+	                    ) : null}
 	                    <div style={{ height: 12 }} />
 	                    {curveFit.kind === 'poly' ? (
 	                      <div className="muted-small">
 	                        Coefficients: y = {curveFit.fit.coeff.map((c, idx) => `${c.toFixed(4)}·x^${idx}`).join(' + ')}
 	                      </div>
+	                    ) : curveFit.kind === 'loglog' ? (
+	                      <div className="muted-small">
+	                        log10(y) = {curveFit.fit.params.intercept.toFixed(4)} + {curveFit.fit.params.slope.toFixed(4)}·log10(x)
+	                      </div>
+	                    ) : curveFit.kind === 'spline' ? (
+	                      <div className="muted-small">
+	                        Interpolates {curveFit.fit.knots.length} level means on log10 concentration; values outside the standards are not
+	                        quantified.
+	                      </div>
+	                    ) : curveFit.kind === 'logitlog' ? (
+	                      <div className="muted-small">
+	                        logit(y / B0) = {curveFit.fit.params.intercept.toFixed(4)} + {curveFit.fit.params.slope.toFixed(4)}·log10(x) · B0=
+	                        {curveFit.fit.params.b0.toFixed(4)}
+	                      </div>
+	                    ) : curveFit.kind === '5pl' ? (
+	                      <div className="muted-small">
+	                        Params: A={curveFit.fit.params.A.toFixed(4)} · D={curveFit.fit.params.D.toFixed(4)} · C=
+	                        {(10 ** curveFit.fit.params.C).toFixed(4)} · Hill={curveFit.fit.params.B.toFixed(3)} · Asymmetry=
+	                        {curveFit.fit.params.E.toFixed(3)}
+	                      </div>
 	                    ) : (
 	                      <div className="muted-small">
 	                        Params: A={curveFit.fit.params.A.toFixed(4)} · D={curveFit.fit.params.D.toFixed(4)} · EC50=
 	                        {(10 ** curveFit.fit.params.C).toFixed(4)} · Hill={curveFit.fit.params.B.toFixed(3)}
 	                      </div>
 	                    )}
+	                    {curveFit.kind === '4pl' ? (
+	                      <>
+	                        <div style={{ height: 12 }} />
+	                        <FitStatsTable fit={curveFit.fit} />
+	                      </>
+	                    ) : null}
 	                  </>
 	                ) : (
 	                  <div className="muted">Not enough usable standard points to fit yet.</div>
@@ -840,6 +2020,103 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
 	              </div>
             </div>
           )}
+
+          {stdFitPoints.length ? (
+            <div className="panel" style={{ marginTop: 16 }} data-testid="model-comparison">
+              <h3>Model comparison</h3>
+              <div className="muted-small">
+                Every model is fitted to the current standard level means (concentration &gt; 0){' '}
+                {curveWeighting === 'none'
+                  ? 'unweighted'
+                  : `with ${CURVE_WEIGHTING_LABELS[curveWeighting]} weighting where the model takes weights`}{' '}
+                and scored on the same points. Lower AIC/BIC is better; a ΔAIC under 2 is not a meaningful difference. Interpolating
+                models pass through every level and are not ranked.
+              </div>
+              <div style={{ height: 8 }} />
+              <ModelComparisonTable
+                comparison={modelComparison}
+                current={{ model: curveModel, degree: curveDegree }}
+                weighted={curveWeighting !== 'none'}
+              />
+              <div className="muted-small" style={{ marginTop: 8 }} data-testid="model-comparison-rationale">
+                <strong>Recommendation:</strong> {modelComparison.rationale}
+              </div>
+              <div className="button-row" style={{ marginTop: 8 }}>
+                <button
+                  className="primary"
+                  type="button"
+                  onClick={applyRecommendedModel}
+                  disabled={modelComparison.recommended === null}
+                  data-testid="model-comparison-apply"
+                >
+                  Apply recommended model
+                </button>
+              </div>
+              {modelSelection ? (
+                <div className="muted-small" style={{ marginTop: 8 }} data-testid="model-selection-stored">
+                  Stored with run: {curveModelBadge(modelSelection.model, modelSelection.degree)}. {modelSelection.rationale}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
+          {limits && limits.standards.length ? (
+            <div className="panel" style={{ marginTop: 16 }} data-testid="std-recovery">
+              <h3>Standard back-calculation</h3>
+              <div className="controls">
+                <label className="control">
+                  <span>Standard recovery (± %)</span>
+                  <input
+                    type="number"
+                    value={quantCriteria.recoveryTolerancePct}
+                    min={0}
+                    step={5}
+                    onChange={(e) => onChangeQuantCriteria({ ...quantCriteria, recoveryTolerancePct: Number(e.target.value || '0') })}
+                    data-testid="recovery-tolerance-input"
+                  />
+                </label>
+                <label className="control">
+                  <span>Max standard CV (%)</span>
+                  <input
+                    type="number"
+                    value={quantCriteria.maxCvPct}
+                    min={0}
+                    step={5}
+                    onChange={(e) => onChangeQuantCriteria({ ...quantCriteria, maxCvPct: Number(e.target.value || '0') })}
+                    data-testid="max-cv-input"
+                  />
+                </label>
+                <label className="control">
+                  <span>Recovery at LLOQ/ULOQ (± %)</span>
+                  <input
+                    type="number"
+                    value={quantCriteria.limitRecoveryTolerancePct}
+                    min={0}
+                    step={5}
+                    onChange={(e) =>
+                      onChangeQuantCriteria({ ...quantCriteria, limitRecoveryTolerancePct: Number(e.target.value || '0') })
+                    }
+                    data-testid="limit-recovery-tolerance-input"
+                  />
+                </label>
+                <label className="control">
+                  <span>Use acceptance limits in Auto-QC</span>
+                  <input
+                    type="checkbox"
+                    checked={useAcceptanceInAutoQc}
+                    onChange={(e) => onChangeUseAcceptanceInAutoQc(e.target.checked)}
+                    data-testid="autoqc-acceptance-toggle"
+                  />
+                </label>
+              </div>
+              <div className="muted-small">
+                Every kept replicate is back-calculated through the current fit. The lowest and highest standards use the LLOQ/ULOQ
+                recovery limits.
+              </div>
+              <div style={{ height: 8 }} />
+              <StdRecoveryTable limits={limits} />
+            </div>
+          ) : null}
         </section>
       </div>
 
@@ -848,91 +2125,486 @@ export function AnalysisTab({ readerText, onChangeReaderText, wells, onChangeWel
 	          <div className="section-head">
 	            <div>
 	              <p className="kicker">Step 4 · Quantify</p>
-	              <h2>Sample concentrations</h2>
-	              <p className="muted">
-	                Concentrations are computed by inverting the fitted curve within the standard range, then multiplying by the well’s
-	                dilution factor.
-	              </p>
+	              <h2>{QUANT_MODE_HEADINGS[quantMode].title}</h2>
+	              <p className="muted">{QUANT_MODE_HEADINGS[quantMode].blurb}</p>
 	            </div>
-            <div className="row">
-              <span className="badge">Wells: {sampleQuant.length}</span>
-              <span className="badge">Animals: {sampleSummary.length}</span>
-              <button
-                className="ghost"
-                type="button"
-                onClick={copyQuantTsv}
-                disabled={!sampleQuant.length}
-                data-testid="copy-quant-tsv-btn"
+            {quantMode === 'titer' ? (
+              <div className="row">
+                <span className="badge">Animals: {titers.length}</span>
+                <span className="badge" data-testid="titer-cutoff-badge">
+                  Cutoff: {cutoff === null ? 'NA' : cutoff.toFixed(4)}
+                </span>
+                <button
+                  className="ghost"
+                  type="button"
+                  onClick={copyTiterTsv}
+                  disabled={!titers.length}
+                  data-testid="copy-titer-tsv-btn"
+                >
+                  Copy titer TSV
+                </button>
+              </div>
+            ) : quantMode === 'qualitative' ? (
+              <div className="row">
+                <span className="badge" data-testid="qual-cutoff-badge">
+                  Cutoff: {qualCutoff === null ? 'NA' : qualCutoff.toFixed(4)}
+                </span>
+                <span className="badge" data-testid="run-validity-badge">
+                  Run: {validity.valid ? 'valid' : 'invalid'}
+                </span>
+                <span className="badge">
+                  Pos {callCounts.Positive} · Eq {callCounts.Equivocal} · Neg {callCounts.Negative}
+                </span>
+                <button
+                  className="ghost"
+                  type="button"
+                  onClick={copyQualitativeTsv}
+                  disabled={!qualitativeCalls.length}
+                  data-testid="copy-qualitative-tsv-btn"
+                >
+                  Copy calls TSV
+                </button>
+              </div>
+            ) : (
+              <div className="row">
+                <span className="badge">Wells: {sampleQuant.length}</span>
+                <span className="badge">Animals: {sampleSummary.length}</span>
+                {limits ? (
+                  <>
+                    <span className="badge" data-testid="lod-badge">
+                      LOD: {limits.lod === null ? 'NA' : limits.lod.toPrecision(4)}
+                    </span>
+                    <span className="badge" data-testid="lloq-badge">
+                      LLOQ: {limits.lloq === null ? 'NA' : limits.lloq.toPrecision(4)}
+                    </span>
+                    <span className="badge" data-testid="uloq-badge">
+                      ULOQ: {limits.uloq === null ? 'NA' : limits.uloq.toPrecision(4)}
+                    </span>
+                  </>
+                ) : null}
+                <button
+                  className="ghost"
+                  type="button"
+                  onClick={copyQuantTsv}
+                  disabled={!sampleQuant.length}
+                  data-testid="copy-quant-tsv-btn"
+                >
+                  Copy quantified TSV
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="controls">
+            <label className="control">
+              <span>Report as</span>
+              <select
+                value={quantMode}
+                onChange={(e) =>
+                  onChangeQuantMode((Object.keys(QUANT_MODE_LABELS) as QuantMode[]).find((m) => m === e.target.value) ?? 'curve')
+                }
+                data-testid="quant-mode-select"
               >
-                Copy quantified TSV
-              </button>
-            </div>
+                {(Object.keys(QUANT_MODE_LABELS) as QuantMode[]).map((m) => (
+                  <option key={m} value={m}>
+                    {QUANT_MODE_LABELS[m]}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {quantMode === 'titer' ? (
+              <>
+                <label className="control">
+                  <span>Cutoff</span>
+                  <select
+                    value={titerSettings.cutoff}
+                    onChange={(e) =>
+                      onChangeTiterSettings({
+                        ...titerSettings,
+                        cutoff:
+                          (Object.keys(TITER_CUTOFF_LABELS) as TiterCutoffMode[]).find((c) => c === e.target.value) ?? 'blankSd',
+                      })
+                    }
+                    data-testid="titer-cutoff-select"
+                  >
+                    {(Object.keys(TITER_CUTOFF_LABELS) as TiterCutoffMode[]).map((c) => (
+                      <option key={c} value={c}>
+                        {TITER_CUTOFF_LABELS[c]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {titerSettings.cutoff === 'blankSd' ? (
+                  <label className="control">
+                    <span>k (SD multiplier)</span>
+                    <input
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      value={titerSettings.k}
+                      onChange={(e) => onChangeTiterSettings({ ...titerSettings, k: Number(e.target.value) })}
+                      data-testid="titer-k-input"
+                    />
+                  </label>
+                ) : (
+                  <label className="control">
+                    <span>Cutoff OD</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={titerSettings.fixedOd}
+                      onChange={(e) => onChangeTiterSettings({ ...titerSettings, fixedOd: Number(e.target.value) })}
+                      data-testid="titer-fixed-input"
+                    />
+                  </label>
+                )}
+                <label className="control">
+                  <span>Titer method</span>
+                  <select
+                    value={titerSettings.method}
+                    onChange={(e) =>
+                      onChangeTiterSettings({
+                        ...titerSettings,
+                        method: (Object.keys(TITER_METHOD_LABELS) as TiterMethod[]).find((m) => m === e.target.value) ?? 'interpolate',
+                      })
+                    }
+                    data-testid="titer-method-select"
+                  >
+                    {(Object.keys(TITER_METHOD_LABELS) as TiterMethod[]).map((m) => (
+                      <option key={m} value={m}>
+                        {TITER_METHOD_LABELS[m]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            ) : quantMode === 'qualitative' ? (
+              <>
+                <label className="control">
+                  <span>Cutoff from</span>
+                  <select
+                    value={qualitativeSettings.source}
+                    onChange={(e) =>
+                      onChangeQualitativeSettings({
+                        ...qualitativeSettings,
+                        source: (Object.keys(CONTROL_WELL_LABELS) as ControlWellType[]).find((t) => t === e.target.value) ?? 'Cutoff',
+                      })
+                    }
+                    data-testid="qual-source-select"
+                  >
+                    {(Object.keys(CONTROL_WELL_LABELS) as ControlWellType[]).map((t) => (
+                      <option key={t} value={t}>
+                        {CONTROL_WELL_LABELS[t]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="control">
+                  <span>× factor</span>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={qualitativeSettings.factor}
+                    onChange={(e) => onChangeQualitativeSettings({ ...qualitativeSettings, factor: Number(e.target.value) })}
+                    data-testid="qual-factor-input"
+                  />
+                </label>
+                <label className="control">
+                  <span>+ offset</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={qualitativeSettings.offset}
+                    onChange={(e) => onChangeQualitativeSettings({ ...qualitativeSettings, offset: Number(e.target.value) })}
+                    data-testid="qual-offset-input"
+                  />
+                </label>
+                <label className="control">
+                  <span>Equivocal S/CO from</span>
+                  <input
+                    type="number"
+                    step="0.05"
+                    value={qualitativeSettings.equivocalLow}
+                    onChange={(e) => onChangeQualitativeSettings({ ...qualitativeSettings, equivocalLow: Number(e.target.value) })}
+                    data-testid="qual-equivocal-low-input"
+                  />
+                </label>
+                <label className="control">
+                  <span>to</span>
+                  <input
+                    type="number"
+                    step="0.05"
+                    value={qualitativeSettings.equivocalHigh}
+                    onChange={(e) => onChangeQualitativeSettings({ ...qualitativeSettings, equivocalHigh: Number(e.target.value) })}
+                    data-testid="qual-equivocal-high-input"
+                  />
+                </label>
+                <label className="control">
+                  <span>Positive control ≥</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={qualitativeSettings.minPositive ?? ''}
+                    placeholder="any"
+                    onChange={(e) => onChangeQualitativeSettings({ ...qualitativeSettings, minPositive: optionalNumber(e.target.value) })}
+                    data-testid="qual-min-positive-input"
+                  />
+                </label>
+                <label className="control">
+                  <span>Negative control ≤</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={qualitativeSettings.maxNegative ?? ''}
+                    placeholder="any"
+                    onChange={(e) => onChangeQualitativeSettings({ ...qualitativeSettings, maxNegative: optionalNumber(e.target.value) })}
+                    data-testid="qual-max-negative-input"
+                  />
+                </label>
+                <label className="control">
+                  <span>Control CV ≤ (%)</span>
+                  <input
+                    type="number"
+                    step="1"
+                    value={qualitativeSettings.maxControlCvPct ?? ''}
+                    placeholder="any"
+                    onChange={(e) =>
+                      onChangeQualitativeSettings({ ...qualitativeSettings, maxControlCvPct: optionalNumber(e.target.value) })
+                    }
+                    data-testid="qual-max-cv-input"
+                  />
+                </label>
+              </>
+            ) : (
+              <>
+                <label className="control">
+                  <span>Report out-of-range as</span>
+                  <select
+                    value={outOfRangeSubstitute}
+                    onChange={(e) =>
+                      onChangeOutOfRangeSubstitute(
+                        (Object.keys(OUT_OF_RANGE_SUBSTITUTE_LABELS) as OutOfRangeSubstitute[]).find((v) => v === e.target.value) ?? 'none'
+                      )
+                    }
+                    data-testid="out-of-range-select"
+                  >
+                    {(Object.keys(OUT_OF_RANGE_SUBSTITUTE_LABELS) as OutOfRangeSubstitute[]).map((v) => (
+                      <option key={v} value={v}>
+                        {OUT_OF_RANGE_SUBSTITUTE_LABELS[v]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="control">
+                  <span>Animal means from</span>
+                  <select
+                    value={dilutionSelection}
+                    onChange={(e) =>
+                      onChangeDilutionSelection(
+                        (Object.keys(DILUTION_SELECTION_LABELS) as DilutionSelectionMode[]).find((m) => m === e.target.value) ??
+                          'average'
+                      )
+                    }
+                    data-testid="dilution-selection-select"
+                  >
+                    {(Object.keys(DILUTION_SELECTION_LABELS) as DilutionSelectionMode[]).map((m) => (
+                      <option key={m} value={m}>
+                        {DILUTION_SELECTION_LABELS[m]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            )}
           </div>
 
-	          {!curveFit ? (
-	            <div className="empty">
-	              <p className="muted">Fit a standard curve first.</p>
-	            </div>
-	          ) : (
-            <div className="grid-2">
-              <div className="table-wrap">
-                <div className="table-scroll">
-                  <table className="data">
-                    <thead>
-                      <tr>
-                        <th>Well</th>
-                        <th>Animal</th>
-                        <th>Group</th>
-                        <th className="num">Dilution</th>
-                        <th className="num">Net(blank)</th>
-                        <th className="num">Conc</th>
-                        <th className="num">Conc × Dilution</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {sampleQuant.map((r) => (
-                        <tr key={r.wellId}>
-                          <td>{r.wellId}</td>
-                          <td>{r.animalId}</td>
-                          <td>{r.group}</td>
-                          <td className="num">{r.dilutionFactor}</td>
-                          <td className="num">{r.netBlank === null ? '' : r.netBlank.toFixed(4)}</td>
-                          <td className="num">{r.conc === null ? '' : r.conc.toFixed(6)}</td>
-                          <td className="num">{r.concAdjusted === null ? '' : r.concAdjusted.toFixed(6)}</td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
+          {quantMode === 'titer' ? (
+            <>
+              <p className="muted-small">
+                The cutoff is on the blank-corrected scale of Net(blank). Saturated wells count as positive and below-detection
+                wells as negative. Titers beyond the series are reported as &gt; the highest or &lt; the lowest dilution.
+              </p>
+              {cutoff === null ? (
+                <div className="empty">
+                  <p className="muted">The blank-based cutoff needs at least two kept blank wells.</p>
+                </div>
+              ) : titers.length ? (
+                <TiterTable titers={titers} />
+              ) : (
+                <div className="empty">
+                  <p className="muted">No sample wells yet. Give each animal’s wells a dilution factor in Layout.</p>
+                </div>
+              )}
+            </>
+          ) : quantMode === 'qualitative' ? (
+            <>
+              <p className="muted-small">
+                Cutoff = {formatCutoffFormula(qualitativeSettings)}, on the blank-corrected scale of Net(blank). Mark the cutoff
+                calibrator and controls in Layout. Saturated samples call positive and below-detection samples negative.
+              </p>
+              <div className={validity.valid ? 'muted-small' : 'alert warn'} role={validity.valid ? undefined : 'alert'}>
+                <div>
+                  <strong>{validity.valid ? 'Run valid' : 'Run invalid'}</strong>
+                  <ul className="bullets" data-testid="run-validity-checks">
+                    {validity.checks.map((c) => (
+                      <li key={c.label}>
+                        {c.pass ? 'OK' : 'Fail'} · {c.label}: {c.detail}
+                      </li>
+                    ))}
+                  </ul>
                 </div>
               </div>
+              {qualitativeCalls.length ? (
+                <QualitativeTable calls={qualitativeCalls} controls={controlSummaries} />
+              ) : (
+                <div className="empty">
+                  <p className="muted">
+                    {qualCutoff === null ? 'Mark the cutoff source control in Layout first.' : 'No sample wells yet.'}
+                  </p>
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <p className="muted-small">
+                LOD is the blank mean + 3 SD (competitive assays: the zero-standard mean − 3 SD), back-calculated. LLOQ and ULOQ
+                span the longest run of standards whose back-calculated recovery and replicate CV meet the acceptance limits in
+                Step 3. Animal means use the reported values of every dilution, or of the best one: in range and closest to
+                mid-curve. Non-parallel samples use their highest in-range dilution either way.
+              </p>
 
-              <div className="table-wrap">
-                <div className="table-scroll">
-                  <table className="data">
-                    <thead>
-                      <tr>
-                        <th>Animal</th>
-                        <th>Group</th>
-                        <th className="num">N</th>
-                        <th className="num">Mean</th>
-                        <th className="num">SD</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {sampleSummary.map((r) => (
-                        <tr key={`${r.animalId}||${r.group}`}>
-                          <td>{r.animalId}</td>
-                          <td>{r.group}</td>
-                          <td className="num">{r.n}</td>
-                          <td className="num">{r.mean === null ? '' : r.mean.toFixed(6)}</td>
-                          <td className="num">{r.sd === null ? '' : r.sd.toFixed(6)}</td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
+	              {!curveFit ? (
+	                <div className="empty">
+	                  <p className="muted">Fit a standard curve first.</p>
+	                </div>
+	              ) : (
+                <div className="grid-2">
+                  <div className="table-wrap">
+                    <div className="table-scroll">
+                      <table className="data">
+                        <thead>
+                          <tr>
+                            <th>Well</th>
+                            <th>Animal</th>
+                            <th>Group</th>
+                            <th className="num">Dilution</th>
+                            <th className="num">Net(blank)</th>
+                            {competitive ? <th className="num">%B/B0</th> : null}
+                            <th className="num">Conc</th>
+                            <th className="num">Conc × Dilution</th>
+                            <th className="num">95% CI × Dilution</th>
+                            <th>Range</th>
+                            <th className="num">Reported</th>
+                            <th>Flag</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {sampleQuant.map((r) => (
+                            <tr key={r.wellId}>
+                              <td>{r.wellId}</td>
+                              <td>{r.animalId}</td>
+                              <td>{r.group}</td>
+                              <td className="num">{r.dilutionFactor}</td>
+                              <td className="num">{r.netBlank === null ? '' : r.netBlank.toFixed(4)}</td>
+                              {competitive ? <td className="num">{fmtPct(r.bb0)}</td> : null}
+                              <td className="num">{r.conc === null ? '' : r.conc.toFixed(6)}</td>
+                              <td className="num">{r.concAdjusted === null ? '' : r.concAdjusted.toFixed(6)}</td>
+                              <td className="num">
+                                {r.ciAdjusted === null ? '' : `${r.ciAdjusted.lower.toFixed(6)} – ${r.ciAdjusted.upper.toFixed(6)}`}
+                              </td>
+                              <td>{r.range ?? ''}</td>
+                              <td className="num">{r.reportedAdjusted === null ? '' : r.reportedAdjusted.toFixed(6)}</td>
+                              <td>{r.flag}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <div className="muted-small" style={{ marginTop: 6 }}>
+                      {curveFit.kind === 'spline'
+                        ? 'Concentration intervals are available for 4PL, 5PL, polynomial, linear, log-log and logit-log fits.'
+                        : `Intervals are approximate 95% inverse-prediction intervals (delta method) for a single well, scaled by the dilution factor${
+                            appliedWeighting === 'none'
+                              ? ''
+                              : "; the well's variance follows the curve weighting at its signal"
+                          }.`}
+                    </div>
+                  </div>
+
+                  <div className="table-wrap">
+                    <div className="table-scroll">
+                      <table className="data">
+                        <thead>
+                          <tr>
+                            <th>Animal</th>
+                            <th>Group</th>
+                            <th className="num">N</th>
+                            <th className="num">Mean</th>
+                            <th className="num">SD</th>
+                            <th>Wells used</th>
+                            <th>Basis</th>
+                            <th>Flags</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {sampleSummary.map((r) => (
+                            <tr key={`${r.animalId}||${r.group}`}>
+                              <td>{r.animalId}</td>
+                              <td>{r.group}</td>
+                              <td className="num">{r.n}</td>
+                              <td className="num">{r.mean === null ? '' : r.mean.toFixed(6)}</td>
+                              <td className="num">{r.sd === null ? '' : r.sd.toFixed(6)}</td>
+                              <td>{r.wellIds.join(', ')}</td>
+                              <td>{r.basis}</td>
+                              <td>{r.flags}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
+              )}
+
+              {curveFit && parallelismResults.some((p) => p.levels.length > 1) ? (
+                <div className="panel" data-testid="parallelism">
+                  <h3>Parallelism (linearity of dilution)</h3>
+                  <div className="controls">
+                    <label className="control">
+                      <span>Max CV of corrected values (%)</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={parallelismCriteria.maxCvPct}
+                        onChange={(e) => onChangeParallelismCriteria({ ...parallelismCriteria, maxCvPct: Number(e.target.value || '0') })}
+                        data-testid="parallelism-cv-input"
+                      />
+                    </label>
+                    <label className="control">
+                      <span>Slope tolerance (±)</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.05"
+                        value={parallelismCriteria.slopeTolerance}
+                        onChange={(e) =>
+                          onChangeParallelismCriteria({ ...parallelismCriteria, slopeTolerance: Number(e.target.value || '0') })
+                        }
+                        data-testid="parallelism-slope-input"
+                      />
+                    </label>
+                  </div>
+                  <p className="muted-small">
+                    Samples run at several dilutions should back-calculate to the same corrected concentration, with a slope of 1
+                    for log concentration against log(1/dilution). Only in-range wells count. A non-parallel sample is reported
+                    from its highest in-range dilution, where matrix effects are diluted furthest.
+                  </p>
+                  <ParallelismTable results={parallelismResults.filter((p) => p.levels.length > 1)} />
+                </div>
+              ) : null}
+            </>
           )}
         </section>
       </div>
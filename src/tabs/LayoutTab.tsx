@@ -1,21 +1,47 @@
 import { useEffect, useMemo, useRef, useState, type MouseEvent } from 'react'
-import { Plate96 } from '../components/Plate96'
-import { emptyLayout96, type WellAssignment, type WellType } from '../lib/layoutModel'
+import { PlateGrid } from '../components/PlateGrid'
 import {
-  plate96WellIds,
-  plate96WellIdsColumnMajor,
-  type WellId96,
-  wellRange96ColumnMajor,
-} from '../lib/plate96'
-import { guessColumnIndex, parseTableText, type TableText } from '../lib/tableText'
+  CONTROL_WELL_LABELS,
+  emptyLayout,
+  isControlWell,
+  type ControlWellType,
+  type PlateLayout,
+  type WellAssignment,
+  type WellType,
+} from '../lib/layoutModel'
+import {
+  MAX_PLATE_COLS,
+  MAX_PLATE_ROWS,
+  PLATE_FORMATS,
+  readerOrderHint,
+  type PlateFormat,
+  type PlateGeometry,
+  type WellId,
+  wellRangeColumnMajor,
+} from '../lib/plateFormat'
+import { TextFormatControls } from '../components/TextFormatControls'
+import {
+  guessColumnIndex,
+  parseLocaleNumber,
+  parseTableText,
+  type DecimalMark,
+  type TableText,
+  type TextFormatOptions,
+} from '../lib/tableText'
 
 const CONTROL_COLORS: Record<WellType, string> = {
   Sample: '#1F5BFF',
   Standard: '#7aa89a',
   Blank: '#9aa0aa',
+  Cutoff: '#c9a94f',
+  Positive: '#b89a7a',
+  Negative: '#9a8fbf',
   Empty: '#FFF7EC',
 }
 
+// Short in-well labels for the qualitative controls.
+const CONTROL_WELL_TAGS: Record<ControlWellType, string> = { Cutoff: 'CO', Positive: 'PC', Negative: 'NC' }
+
 const hashHue = (input: string) => {
   let h = 0
   for (let i = 0; i < input.length; i += 1) h = (h * 31 + input.charCodeAt(i)) % 360
@@ -36,6 +62,7 @@ const buildWellTitle = (well: WellAssignment) => {
   }
   if (well.type === 'Standard') return `${well.wellId} • Standard ${well.standardLevel ?? ''}`.trim()
   if (well.type === 'Blank') return `${well.wellId} • Blank`
+  if (isControlWell(well.type)) return `${well.wellId} • ${CONTROL_WELL_LABELS[well.type]}`
   return `${well.wellId} • Empty`
 }
 
@@ -51,40 +78,27 @@ const parseStandardSeed = (raw: string): { prefix: string; start: number } => {
   return { prefix, start: Number.isFinite(start) && start > 0 ? start : 1 }
 }
 
-const parseDilutionFactor = (raw: string): number | null => {
+const parseDilutionFactor = (raw: string, decimal: DecimalMark): number | null => {
   const s = raw.trim()
   if (!s) return null
-  const direct = Number(s)
-  if (Number.isFinite(direct) && direct > 0) return direct
-
-  const colon = /^\s*1\s*:\s*(\d+(\.\d+)?)\s*$/.exec(s)
-  if (colon) {
-    const v = Number(colon[1])
-    return Number.isFinite(v) && v > 0 ? v : null
-  }
-
-  const slash = /^\s*1\s*\/\s*(\d+(\.\d+)?)\s*$/.exec(s)
-  if (slash) {
-    const v = Number(slash[1])
-    return Number.isFinite(v) && v > 0 ? v : null
-  }
-
-  const times = /^\s*(\d+(\.\d+)?)\s*x\s*$/i.exec(s)
-  if (times) {
-    const v = Number(times[1])
-    return Number.isFinite(v) && v > 0 ? v : null
-  }
-
-  const prefixed = /^\s*x\s*(\d+(\.\d+)?)\s*$/i.exec(s)
-  if (prefixed) {
-    const v = Number(prefixed[1])
-    return Number.isFinite(v) && v > 0 ? v : null
+  const direct = parseLocaleNumber(s, decimal)
+  if (direct !== null && direct > 0) return direct
+
+  // "1:10", "1/10", "10x" and "x10"; the number itself follows the table's decimal mark.
+  const patterns = [/^\s*1\s*:\s*([\d.,]+)\s*$/, /^\s*1\s*\/\s*([\d.,]+)\s*$/, /^\s*([\d.,]+)\s*x\s*$/i, /^\s*x\s*([\d.,]+)\s*$/i]
+  for (const pattern of patterns) {
+    const match = pattern.exec(s)
+    if (!match) continue
+    const v = parseLocaleNumber(match[1], decimal)
+    return v !== null && v > 0 ? v : null
   }
 
   return null
 }
 
 export type LayoutTabProps = {
+  format: PlateFormat
+  onChangePlateFormat: (next: PlateGeometry) => void
   sampleText: string
   onChangeSampleText: (next: string) => void
   sampleHasHeader: boolean
@@ -95,12 +109,16 @@ export type LayoutTabProps = {
   onChangeGroupCol: (next: number) => void
   dilutionCol: number
   onChangeDilutionCol: (next: number) => void
+  sampleTextFormat: TextFormatOptions
+  onChangeSampleTextFormat: (next: TextFormatOptions) => void
 
-  wells: Record<WellId96, WellAssignment>
-  onChangeWells: (next: Record<WellId96, WellAssignment>) => void
+  wells: PlateLayout
+  onChangeWells: (next: PlateLayout) => void
 }
 
 export function LayoutTab({
+  format,
+  onChangePlateFormat,
   sampleText,
   onChangeSampleText,
   sampleHasHeader,
@@ -111,16 +129,21 @@ export function LayoutTab({
   onChangeGroupCol,
   dilutionCol,
   onChangeDilutionCol,
+  sampleTextFormat,
+  onChangeSampleTextFormat,
   wells,
   onChangeWells,
 }: LayoutTabProps) {
-  const [selected, setSelected] = useState<Set<WellId96>>(new Set())
-  const [lastClicked, setLastClicked] = useState<WellId96 | null>(null)
+  const [selected, setSelected] = useState<Set<WellId>>(new Set())
+  const [lastClicked, setLastClicked] = useState<WellId | null>(null)
   const didAutoGuessDilution = useRef(false)
+  const [showCustomGeometry, setShowCustomGeometry] = useState(() => !(format.id in PLATE_FORMATS))
+  const [customRows, setCustomRows] = useState<number>(format.geometry.rows)
+  const [customCols, setCustomCols] = useState<number>(format.geometry.cols)
 
   const table: TableText = useMemo(
-    () => parseTableText(sampleText, { hasHeader: sampleHasHeader }),
-    [sampleText, sampleHasHeader]
+    () => parseTableText(sampleText, { hasHeader: sampleHasHeader, ...sampleTextFormat }),
+    [sampleText, sampleHasHeader, sampleTextFormat]
   )
 
   useEffect(() => {
@@ -150,11 +173,13 @@ export function LayoutTab({
   const filledSamples = Object.values(wells).filter((w) => w.type === 'Sample').length
   const filledStandards = Object.values(wells).filter((w) => w.type === 'Standard').length
   const filledBlanks = Object.values(wells).filter((w) => w.type === 'Blank').length
+  const filledControls = Object.values(wells).filter((w) => isControlWell(w.type)).length
 
   const wellUi = useMemo(() => {
-    const byId = {} as Record<WellId96, { label: string; title: string; color: string; keep: boolean; type: WellType; wellId: WellId96 }>
-    for (const wellId of plate96WellIds) {
+    const byId: Record<WellId, { label: string; title: string; color: string; keep: boolean; type: WellType; wellId: WellId }> = {}
+    for (const wellId of format.wellIds) {
       const w = wells[wellId]
+      if (!w) continue
       const baseColor = CONTROL_COLORS[w.type]
       const color = w.type === 'Sample' && w.group ? groupColor(w.group) : baseColor
 
@@ -165,7 +190,9 @@ export function LayoutTab({
             ? (w.standardLevel ?? 'Std').slice(0, 6)
             : w.type === 'Blank'
               ? 'Blank'
-              : ''
+              : isControlWell(w.type)
+                ? CONTROL_WELL_TAGS[w.type]
+                : ''
 
       byId[wellId] = {
         wellId,
@@ -177,9 +204,9 @@ export function LayoutTab({
       }
     }
     return byId
-  }, [wells])
+  }, [format, wells])
 
-  const handleWellClick = (wellId: WellId96, event: MouseEvent<HTMLDivElement>) => {
+  const handleWellClick = (wellId: WellId, event: MouseEvent<HTMLDivElement>) => {
     const isShift = event.shiftKey
     const isMulti = event.metaKey || event.ctrlKey
 
@@ -187,8 +214,8 @@ export function LayoutTab({
       const next = new Set(prev)
       if (isShift && lastClicked) {
         // Column-major selection matches the reader's index order:
-        // A1..H1, A2..H2, ... A12..H12.
-        const range = wellRange96ColumnMajor(lastClicked, wellId)
+        // A1..H1, A2..H2, ... A12..H12 on a 96-well plate.
+        const range = wellRangeColumnMajor(format, lastClicked, wellId)
         if (!isMulti) next.clear()
         range.forEach((w) => next.add(w))
       } else if (isMulti) {
@@ -204,7 +231,7 @@ export function LayoutTab({
   }
 
   const resetPlate = () => {
-    onChangeWells(emptyLayout96())
+    onChangeWells(emptyLayout(format))
     setSelected(new Set())
     setLastClicked(null)
   }
@@ -215,7 +242,7 @@ export function LayoutTab({
     const { prefix, start } = parseStandardSeed(stdLevel)
     // Standards are usually laid out as duplicates side-by-side (ex: A1+A2, B1+B2, ...).
     // We therefore assign in row-major order so pairs fall on adjacent columns within a row.
-    const ordered = plate96WellIds.filter((wellId) => selected.has(wellId))
+    const ordered = format.wellIds.filter((wellId) => selected.has(wellId))
 
     const next = { ...wells }
     const replicates = 2
@@ -234,7 +261,7 @@ export function LayoutTab({
     const next = { ...wells }
 
     // Most wet-lab workflows fill plates by column (A1..H1, then A2..H2, etc).
-    const emptyWellIds = plate96WellIdsColumnMajor.filter((id) => next[id].type === 'Empty')
+    const emptyWellIds = format.wellIdsColumnMajor.filter((id) => next[id]?.type === 'Empty')
     let cursor = 0
     let dilutionParseFailures = 0
 
@@ -245,7 +272,7 @@ export function LayoutTab({
 
       const group = groupCol >= 0 ? (row[groupCol] ?? '').trim() : ''
       const dilutionRaw = dilutionCol >= 0 ? (row[dilutionCol] ?? '').trim() : ''
-      const parsedDilution = dilutionCol >= 0 ? parseDilutionFactor(dilutionRaw) : null
+      const parsedDilution = dilutionCol >= 0 ? parseDilutionFactor(dilutionRaw, table.decimal) : null
       const dilutionFactor = parsedDilution && parsedDilution > 0 ? parsedDilution : 1
       if (dilutionCol >= 0 && dilutionRaw && parsedDilution === null) dilutionParseFailures += 1
       const meta: Record<string, string> = {}
@@ -289,8 +316,8 @@ export function LayoutTab({
         next[wellId] = { wellId, type: 'Empty', keep: true }
         return
       }
-      if (type === 'Blank') {
-        next[wellId] = { wellId, type: 'Blank', keep: true }
+      if (type === 'Blank' || isControlWell(type)) {
+        next[wellId] = { wellId, type, keep: true }
         return
       }
       // Sample assignment should come from the pasted list.
@@ -322,8 +349,9 @@ export function LayoutTab({
 
     const headers = ['Well', 'Type', 'AnimalId', 'Group', 'DilutionFactor', 'StandardLevel', 'Keep', ...metaKeys]
     const lines = [headers.join('\t')]
-    plate96WellIds.forEach((wellId) => {
+    format.wellIds.forEach((wellId) => {
       const w = wells[wellId]
+      if (!w) return
       const row = [
         w.wellId,
         w.type,
@@ -372,6 +400,15 @@ export function LayoutTab({
             </label>
           </div>
 
+          <div className="controls">
+            <TextFormatControls
+              value={sampleTextFormat}
+              onChange={onChangeSampleTextFormat}
+              detected={table}
+              testIdPrefix="sample"
+            />
+          </div>
+
           <textarea
             className="textarea large"
             value={sampleText}
@@ -432,6 +469,7 @@ export function LayoutTab({
           <div className="cta-row">
             <div className="muted">
               Plate: {filledSamples} samples · {filledStandards} standards · {filledBlanks} blanks
+              {filledControls ? ` · ${filledControls} controls` : ''}
             </div>
             <div className="row">
               <button className="ghost" type="button" onClick={resetPlate}>
@@ -448,13 +486,33 @@ export function LayoutTab({
           <div className="section-head">
             <div>
               <p className="kicker">Step 2 · Layout</p>
-              <h2>96-well plate</h2>
+              <h2>{format.label} plate</h2>
               <p className="muted">
-                Click wells to select. Shift-click selects a sequence in reader order (A1..H1, then A2..H2). Standards/blanks can be
-                assigned manually.
+                Click wells to select. Shift-click selects a sequence in reader order ({readerOrderHint(format)}). Standards/blanks
+                can be assigned manually.
               </p>
             </div>
             <div className="row">
+              <select
+                value={showCustomGeometry ? 'custom' : format.id}
+                onChange={(e) => {
+                  if (e.target.value === 'custom') {
+                    setShowCustomGeometry(true)
+                    return
+                  }
+                  setShowCustomGeometry(false)
+                  onChangePlateFormat(PLATE_FORMATS[e.target.value].geometry)
+                }}
+                aria-label="Plate format"
+                data-testid="plate-format-select"
+              >
+                {Object.values(PLATE_FORMATS).map((f) => (
+                  <option key={f.id} value={f.id}>
+                    {f.label}
+                  </option>
+                ))}
+                <option value="custom">Custom rows × cols…</option>
+              </select>
               <span className="badge">Selected: {selected.size}</span>
               <button
                 className="ghost"
@@ -468,8 +526,42 @@ export function LayoutTab({
             </div>
           </div>
 
+          {showCustomGeometry ? (
+            <div className="field-row" data-testid="custom-geometry-row">
+              <input
+                type="number"
+                value={customRows}
+                min={1}
+                max={MAX_PLATE_ROWS}
+                step={1}
+                onChange={(e) => setCustomRows(Number(e.target.value || '1'))}
+                aria-label="Plate rows"
+                data-testid="plate-rows-input"
+              />
+              <span className="muted">×</span>
+              <input
+                type="number"
+                value={customCols}
+                min={1}
+                max={MAX_PLATE_COLS}
+                step={1}
+                onChange={(e) => setCustomCols(Number(e.target.value || '1'))}
+                aria-label="Plate columns"
+                data-testid="plate-cols-input"
+              />
+              <button
+                className="ghost"
+                type="button"
+                onClick={() => onChangePlateFormat({ rows: customRows, cols: customCols })}
+                data-testid="apply-geometry-btn"
+              >
+                Use geometry
+              </button>
+            </div>
+          ) : null}
+
           <div className="layout-plate-grid">
-            <Plate96 wells={wellUi} selected={selected} onWellClick={handleWellClick} />
+            <PlateGrid format={format} wells={wellUi} selected={selected} onWellClick={handleWellClick} />
             <div className="panel">
               <h3>Assign</h3>
               <div className="muted-small">Use this to mark standards/blanks or tag sample dilutions.</div>
@@ -522,6 +614,21 @@ export function LayoutTab({
                   Clear wells
                 </button>
               </div>
+              <div className="field-row">
+                {(Object.keys(CONTROL_WELL_LABELS) as ControlWellType[]).map((type) => (
+                  <button
+                    key={type}
+                    className="ghost"
+                    type="button"
+                    onClick={() => markSelectedAs(type)}
+                    disabled={!selected.size}
+                    data-testid={`mark-${type.toLowerCase()}-btn`}
+                  >
+                    Mark {CONTROL_WELL_LABELS[type]}
+                  </button>
+                ))}
+              </div>
+              <div className="muted-small">Controls and the cutoff calibrator are used by the qualitative mode in Analysis.</div>
 
               <div style={{ height: 16 }} />
               <h3>Sample Tags</h3>
@@ -566,6 +673,15 @@ export function LayoutTab({
                 <span>
                   <span className="swatch blank" /> Blank
                 </span>
+                <span>
+                  <span className="swatch cutoff" /> Cutoff
+                </span>
+                <span>
+                  <span className="swatch positive" /> Positive
+                </span>
+                <span>
+                  <span className="swatch negative" /> Negative
+                </span>
                 <span>
                   <span className="swatch empty" /> Empty
                 </span>